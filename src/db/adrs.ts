@@ -0,0 +1,174 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { isAbsolute, join } from 'path';
+import { getDb } from './connection.js';
+import { audited, auditOperation } from './audit.js';
+import { insertDecision, type DecisionStatus } from './decisions.js';
+import { currentActor } from '../utils/actor.js';
+import { isIsoDate } from '../utils/dates.js';
+import { adrFileName, adrNumber, parseAdr, renderAdr, type AdrDocument, type AdrFormat } from '../utils/adr.js';
+
+export const ADR_DIRECTORY = 'docs/adr';
+
+interface ExportRow {
+  id: string;
+  title: string;
+  decision: string;
+  reasoning: string | null;
+  alternatives: string | null;
+  status: DecisionStatus;
+  supersedes: string | null;
+  adr_number: number | null;
+  created_at: string;
+}
+
+// The ADR directory for a project: `directory` as given if absolute, otherwise
+// under the project's repo_path.
+export function adrDirectory(projectId: string, directory?: string): string | { error: string } {
+  if (directory && isAbsolute(directory)) return directory;
+  const project = getDb().prepare('SELECT name, repo_path FROM projects WHERE id = ?').get(projectId) as { name: string; repo_path: string | null } | undefined;
+  if (!project?.repo_path) return { error: `Project "${project?.name ?? projectId}" has no repo_path; set one or pass an absolute directory.` };
+  return join(project.repo_path, directory ?? ADR_DIRECTORY);
+}
+
+// ADR files already in a directory, by number
+function adrFiles(dir: string): Map<number, string> {
+  const files = new Map<number, string>();
+  if (!existsSync(dir)) return files;
+  for (const file of readdirSync(dir).sort()) {
+    const number = adrNumber(file);
+    if (number !== null && !files.has(number)) files.set(number, file);
+  }
+  return files;
+}
+
+// Write every live decision in a project to `dir` as an ADR, oldest first.
+// Decisions keep the number they were first exported or imported with, and are
+// written over their existing file; new ones are numbered after the highest
+// number in the project or the directory.
+export function exportAdrs(
+  projectId: string,
+  dir: string,
+  format: AdrFormat,
+): { written: { number: number; file: string; decision_id: string }[] } {
+  const db = getDb();
+  const rows = db.prepare(
+    `SELECT id, title, decision, reasoning, alternatives, status, supersedes, adr_number, created_at
+     FROM decisions WHERE project_id = ? AND deleted_at IS NULL ORDER BY created_at, rowid`
+  ).all(projectId) as ExportRow[];
+  const existing = adrFiles(dir);
+
+  const unnumbered = rows.filter(row => row.adr_number === null);
+  if (unnumbered.length > 0) {
+    const { highest } = db.prepare('SELECT MAX(adr_number) AS highest FROM decisions WHERE project_id = ?').get(projectId) as { highest: number | null };
+    let next = Math.max(highest ?? 0, ...existing.keys()) + 1;
+    const assign = db.prepare('UPDATE decisions SET adr_number = ?, updated_by = ? WHERE id = ?');
+    auditOperation(() => db.transaction(() => {
+      for (const row of unnumbered) {
+        row.adr_number = next++;
+        audited('decision', row.id, () => assign.run(row.adr_number, currentActor(), row.id));
+      }
+    })());
+  }
+
+  const refs = new Map(rows.map(row => [row.id, {
+    number: row.adr_number!,
+    file: existing.get(row.adr_number!) ?? adrFileName(row.adr_number!, row.title),
+  }]));
+  const supersededBy = new Map(rows.filter(row => row.supersedes).map(row => [row.supersedes!, row.id]));
+
+  mkdirSync(dir, { recursive: true });
+  const written = rows.map(row => {
+    const ref = refs.get(row.id)!;
+    const replacement = supersededBy.get(row.id);
+    writeFileSync(join(dir, ref.file), renderAdr({
+      number: ref.number,
+      title: row.title,
+      date: row.created_at.slice(0, 10),
+      status: row.status,
+      decision: row.decision,
+      reasoning: row.reasoning,
+      alternatives: row.alternatives ? JSON.parse(row.alternatives) : [],
+      supersedes: row.supersedes ? refs.get(row.supersedes) ?? null : null,
+      superseded_by: replacement ? refs.get(replacement) ?? null : null,
+    }, format));
+    return { number: ref.number, file: ref.file, decision_id: row.id };
+  });
+  return { written };
+}
+
+// Read the ADRs in `dir` into decisions, as one undoable operation. Files whose
+// number a decision in the project already has (from an earlier import or an
+// export) are skipped, so importing again only picks up new ADRs.
+export function importAdrs(
+  projectId: string,
+  dir: string,
+): { imported: { number: number; file: string; decision_id: string }[]; skipped: { file: string; reason: string }[] } | { error: string } {
+  if (!existsSync(dir)) return { error: `Directory "${dir}" not found.` };
+  const db = getDb();
+  const known = new Map((db.prepare('SELECT id, adr_number FROM decisions WHERE project_id = ? AND adr_number IS NOT NULL').all(projectId) as { id: string; adr_number: number }[])
+    .map(row => [row.adr_number, row.id]));
+
+  const imported: { number: number; file: string; decision_id: string }[] = [];
+  const skipped: { file: string; reason: string }[] = [];
+  const parsed: { file: string; adr: AdrDocument }[] = [];
+  for (const file of readdirSync(dir).sort()) {
+    if (!file.toLowerCase().endsWith('.md')) continue;
+    const number = adrNumber(file);
+    if (number === null) {
+      skipped.push({ file, reason: 'not a numbered ADR file' });
+      continue;
+    }
+    if (known.has(number)) {
+      skipped.push({ file, reason: `ADR ${number} is already decision ${known.get(number)}` });
+      continue;
+    }
+    if (parsed.some(p => p.adr.number === number)) {
+      skipped.push({ file, reason: `another file is also numbered ${number}` });
+      continue;
+    }
+    const adr = parseAdr(file, readFileSync(join(dir, file), 'utf8'));
+    if (!adr) {
+      skipped.push({ file, reason: 'no title or decision section' });
+      continue;
+    }
+    parsed.push({ file, adr });
+  }
+
+  auditOperation(() => db.transaction(() => {
+    for (const { file, adr } of parsed) {
+      const id = insertDecision(projectId, {
+        title: adr.title,
+        decision: adr.decision,
+        reasoning: adr.reasoning,
+        alternatives: adr.alternatives.length > 0 ? adr.alternatives : null,
+        status: adr.status,
+      }, {
+        adr_number: adr.number,
+        created_at: adr.date && isIsoDate(adr.date) ? `${adr.date} 00:00:00` : undefined,
+      });
+      known.set(adr.number, id);
+      imported.push({ number: adr.number, file, decision_id: id });
+    }
+
+    // Supersession is recorded on the newer decision, whichever file mentions it,
+    // unless either side already has one
+    const link = db.prepare(
+      `UPDATE decisions SET supersedes = @older, updated_by = @actor
+       WHERE id = @newer AND supersedes IS NULL AND NOT EXISTS (SELECT 1 FROM decisions s WHERE s.supersedes = @older)`
+    );
+    for (const { adr } of parsed) {
+      const pairs = [
+        adr.supersedes ? [known.get(adr.number), known.get(adr.supersedes.number)] : null,
+        adr.superseded_by ? [known.get(adr.superseded_by.number), known.get(adr.number)] : null,
+      ];
+      for (const pair of pairs) {
+        const [newer, older] = pair ?? [];
+        if (newer && older && newer !== older) {
+          audited('decision', newer, () => link.run({ older, newer, actor: currentActor() }));
+        }
+      }
+    }
+  })());
+
+  return { imported, skipped };
+}
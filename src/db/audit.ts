@@ -0,0 +1,174 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { currentActor } from '../utils/actor.js';
+
+export const AUDIT_ENTITY_TYPES = ['project', 'task', 'note', 'decision', 'context', 'session', 'comment', 'link'] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export type AuditSnapshot = Record<string, unknown>;
+
+export interface AuditEntry {
+  id: string;
+  operation_id: string;
+  project_id: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  actor: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  undone_by: string | null;
+  created_at: string;
+}
+
+export const AUDIT_TABLES: Record<AuditEntityType, string> = {
+  project: 'projects', task: 'tasks', note: 'notes', decision: 'decisions', context: 'context', session: 'sessions',
+  comment: 'task_comments', link: 'links',
+};
+
+// Bookkeeping columns that change on every write; the entry's actor and
+// timestamp already say who and when.
+const IGNORED_COLUMNS = new Set(['updated_at', 'updated_by']);
+
+// Tags, blockers and field values live in join tables but belong to the
+// entity, so snapshots fold them in as `tags`, `blocked_by` and `fields`.
+const TAGS_SQL: Partial<Record<AuditEntityType, string>> = {
+  task: 'SELECT g.name FROM task_tags j JOIN tags g ON g.id = j.tag_id WHERE j.task_id = ? ORDER BY g.name',
+  note: 'SELECT g.name FROM note_tags j JOIN tags g ON g.id = j.tag_id WHERE j.note_id = ? ORDER BY g.name',
+  decision: 'SELECT g.name FROM decision_tags j JOIN tags g ON g.id = j.tag_id WHERE j.decision_id = ? ORDER BY g.name',
+};
+
+// The entity as the audit log sees it, or null if the row doesn't exist.
+export function snapshotEntity(type: AuditEntityType, id: string): AuditSnapshot | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM ${AUDIT_TABLES[type]} WHERE id = ?`).get(id) as AuditSnapshot | undefined;
+  if (!row) return null;
+  for (const column of IGNORED_COLUMNS) delete row[column];
+
+  const tagsSql = TAGS_SQL[type];
+  if (tagsSql) row.tags = (db.prepare(tagsSql).all(id) as { name: string }[]).map(r => r.name);
+  if (type === 'task') {
+    row.blocked_by = (db.prepare('SELECT blocked_by_id FROM task_dependencies WHERE task_id = ? ORDER BY blocked_by_id')
+      .all(id) as { blocked_by_id: string }[]).map(r => r.blocked_by_id);
+    const values = db.prepare(
+      'SELECT f.key, v.value FROM task_field_values v JOIN custom_fields f ON f.id = v.field_id WHERE v.task_id = ? ORDER BY f.key'
+    ).all(id) as { key: string; value: string }[];
+    row.fields = Object.fromEntries(values.map(v => [v.key, v.value]));
+  }
+  return row;
+}
+
+function diffSnapshots(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditEntry['changes'] {
+  const changes: AuditEntry['changes'] = {};
+  for (const key of new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])) {
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[key] = { before: from, after: to };
+  }
+  return changes;
+}
+
+function actionFor(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditAction {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  if (!before.deleted_at && after.deleted_at) return 'delete';
+  if (before.deleted_at && !after.deleted_at) return 'restore';
+  return 'update';
+}
+
+// Write an entry for the difference between two snapshots of an entity.
+// Nothing is written when they are the same.
+export function recordAudit(type: AuditEntityType, id: string, before: AuditSnapshot | null, after: AuditSnapshot | null): void {
+  const changes = diffSnapshots(before, after);
+  if (Object.keys(changes).length === 0) return;
+  const projectId = type === 'project' ? id : ((after ?? before)?.project_id as string | null) ?? null;
+  getDb().prepare(
+    `INSERT INTO audit_log (id, operation_id, project_id, entity_type, entity_id, action, actor, before, after, changes)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    generateId(), operation ?? generateId(), projectId, type, id, actionFor(before, after), currentActor(),
+    before && JSON.stringify(before), after && JSON.stringify(after), JSON.stringify(changes),
+  );
+}
+
+// The operation entries are being grouped under, while auditOperation() runs.
+let operation: string | null = null;
+
+// Group every audited change made while `fn` runs into one operation, the unit
+// that undo reverts. Nested calls join the enclosing operation.
+export function auditOperation<T>(fn: (operationId: string) => T): T {
+  if (operation) return fn(operation);
+  operation = generateId();
+  try {
+    return fn(operation);
+  } finally {
+    operation = null;
+  }
+}
+
+// Entities currently being audited by an enclosing audited() call, so helpers
+// that are also called on their own don't log the same change twice.
+const open = new Set<string>();
+
+// Run `fn` and record what it changed on each of the given entities. IDs may
+// name rows that don't exist yet (create) or won't exist afterwards (delete).
+export function audited<T>(type: AuditEntityType, ids: string | string[], fn: () => T): T {
+  const keys = (Array.isArray(ids) ? ids : [ids])
+    .filter(id => !open.has(`${type}:${id}`))
+    .map(id => ({ id, key: `${type}:${id}` }));
+  return auditOperation(() => {
+    const before = keys.map(({ id }) => snapshotEntity(type, id));
+    for (const { key } of keys) open.add(key);
+    try {
+      const result = fn();
+      keys.forEach(({ id }, i) => recordAudit(type, id, before[i], snapshotEntity(type, id)));
+      return result;
+    } finally {
+      for (const { key } of keys) open.delete(key);
+    }
+  });
+}
+
+export interface AuditFilter {
+  projectId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Newest first. `since` and `until` are inclusive dates (YYYY-MM-DD) or UTC datetimes.
+export function queryAuditLog(filter: AuditFilter): { entries: AuditEntry[] } | { error: string } {
+  const db = getDb();
+  for (const [name, value] of [['since', filter.since], ['until', filter.until]] as const) {
+    if (value && (db.prepare('SELECT datetime(?) AS d').get(value) as { d: string | null }).d === null) {
+      return { error: `${name} must be a date (YYYY-MM-DD) or datetime (YYYY-MM-DD HH:MM:SS).` };
+    }
+  }
+
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = { limit: filter.limit ?? 50 };
+  const add = (condition: string, name: string, value: string | undefined) => {
+    if (!value) return;
+    conditions.push(condition);
+    params[name] = value;
+  };
+  add('project_id = @projectId', 'projectId', filter.projectId);
+  add('entity_type = @entityType', 'entityType', filter.entityType);
+  add('entity_id = @entityId', 'entityId', filter.entityId);
+  add('actor = @actor', 'actor', filter.actor);
+  add('created_at >= datetime(@since)', 'since', filter.since);
+  // A bare date means up to the end of that day
+  add(DATE_ONLY.test(filter.until ?? '') ? "created_at < datetime(@until, '+1 day')" : 'created_at <= datetime(@until)', 'until', filter.until);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const rows = db.prepare(
+    `SELECT id, operation_id, project_id, entity_type, entity_id, action, actor, changes, undone_by, created_at FROM audit_log
+     ${where} ORDER BY created_at DESC, rowid DESC LIMIT @limit`
+  ).all(params) as (Omit<AuditEntry, 'changes'> & { changes: string })[];
+  return { entries: rows.map(r => ({ ...r, changes: JSON.parse(r.changes) })) };
+}
@@ -0,0 +1,267 @@
+import { getDb } from './connection.js';
+import { resolveTaskId } from './queries.js';
+import { normalizeTag } from './tags.js';
+import { resolveMilestone } from './milestones.js';
+import { getWorkflow, type StatusCategory } from './workflow.js';
+import { isIsoDate } from '../utils/dates.js';
+
+export interface BurnPoint {
+  date: string;
+  // Tasks in scope at the end of the day; cancelled and trashed tasks leave the scope
+  scope: number;
+  done: number;
+  remaining: number;
+  // Remaining work on a straight line from the first day's scope to zero at the target
+  ideal: number;
+  scope_points: number;
+  done_points: number;
+}
+
+export interface ScopeChange {
+  date: string;
+  task_id: string;
+  title: string;
+  change: 'added' | 'removed';
+}
+
+export interface Burndown {
+  scope: { type: 'tag' | 'parent' | 'milestone'; name: string };
+  start_date: string;
+  target_date: string;
+  series: BurnPoint[];
+  scope_changes: ScopeChange[];
+  forecast: { done_per_day: number; projected_finish: string | null; on_track: boolean | null };
+}
+
+export interface BurndownOptions {
+  tag?: string;
+  parent?: string;
+  milestone?: string;
+  start_date?: string;
+  target_date?: string;
+}
+
+const MAX_DAYS = 366;
+
+interface ScopeTask {
+  id: string;
+  title: string;
+  status: string;
+  estimate: number | null;
+  created_at: string;
+  completed_at: string | null;
+  deleted_at: string | null;
+  in_scope_now: number;
+}
+
+interface HistoryEvent {
+  task_id: string;
+  event: string;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+}
+
+// A task's scope membership and status from `at` onwards
+interface TaskState {
+  at: string;
+  member: boolean;
+  status: string | null;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+// SQLite timestamps ("2025-03-01 10:00:00") and ISO strings compare alike once the "T" is gone
+function toTimestamp(value: string): string {
+  return value.replace('T', ' ');
+}
+
+// Replay a task's history into the states it went through. Membership changes come
+// from tags_changed/milestone_changed events, status changes from status events;
+// tasks without status history but with completed_at are taken to finish then.
+function taskTimeline(
+  task: ScopeTask,
+  events: HistoryEvent[],
+  isMember: ((value: string | null) => boolean) | null,
+  doneCategory: (status: string | null) => boolean,
+): TaskState[] {
+  const membership = isMember ? events.filter(e => e.event !== 'created' && e.event !== 'status_changed' && e.event !== 'unblocked') : [];
+  const statusEvents = events.filter(e => e.event === 'status_changed' || e.event === 'unblocked');
+  const created = events.find(e => e.event === 'created');
+
+  let member = membership.length > 0 ? isMember!(membership[0].old_value) : task.in_scope_now === 1;
+  let status: string | null;
+  if (created?.new_value) {
+    status = (JSON.parse(created.new_value) as { status?: string }).status ?? null;
+  } else if (statusEvents.length > 0) {
+    status = statusEvents[0].old_value;
+  } else {
+    status = task.completed_at && doneCategory(task.status) ? null : task.status;
+  }
+
+  const changes = [
+    ...membership.map(e => ({ at: toTimestamp(e.created_at), apply: () => { member = isMember!(e.new_value); } })),
+    ...statusEvents.map(e => ({ at: toTimestamp(e.created_at), apply: () => { status = e.new_value; } })),
+  ];
+  if (statusEvents.length === 0 && task.completed_at && doneCategory(task.status)) {
+    changes.push({ at: toTimestamp(task.completed_at), apply: () => { status = task.status; } });
+  }
+  changes.sort((a, b) => a.at.localeCompare(b.at));
+
+  const states: TaskState[] = [{ at: toTimestamp(task.created_at), member, status }];
+  for (const change of changes) {
+    change.apply();
+    states.push({ at: change.at, member, status });
+  }
+  if (task.deleted_at) states.push({ at: toTimestamp(task.deleted_at), member: false, status });
+  return states;
+}
+
+function stateAt(states: TaskState[], at: string): TaskState | null {
+  let current: TaskState | null = null;
+  for (const state of states) {
+    if (state.at > at) break;
+    current = state;
+  }
+  return current;
+}
+
+// Daily burndown/burnup for a time-boxed scope: the tasks carrying a tag, the
+// sub-tasks of a parent, or a milestone's tasks, up to a target date.
+export function getBurndown(projectId: string, options: BurndownOptions): Burndown | { error: string } {
+  const db = getDb();
+  const given = [options.tag, options.parent, options.milestone].filter(v => v !== undefined && v !== '');
+  if (given.length !== 1) return { error: 'Pick exactly one scope: tag, parent or milestone.' };
+
+  let scope: Burndown['scope'];
+  let where: string;
+  let param: string;
+  let isMember: ((value: string | null) => boolean) | null = null;
+  let historyEvent: string | null = null;
+  let startDate = options.start_date;
+  let targetDate = options.target_date;
+
+  if (options.tag) {
+    const tag = normalizeTag(options.tag);
+    scope = { type: 'tag', name: tag };
+    param = tag;
+    historyEvent = 'tags_changed';
+    where = `EXISTS (SELECT 1 FROM task_tags j JOIN tags g ON g.id = j.tag_id WHERE j.task_id = t.id AND g.name = @param)`;
+    isMember = value => value !== null && (JSON.parse(value) as string[]).includes(tag);
+  } else if (options.parent) {
+    const parentId = resolveTaskId(options.parent, { includeTrashed: true });
+    const parent = parentId
+      ? db.prepare('SELECT id, title FROM tasks WHERE id = ? AND project_id = ?').get(parentId, projectId) as { id: string; title: string } | undefined
+      : undefined;
+    if (!parent) return { error: `Task "${options.parent}" not found in this project.` };
+    scope = { type: 'parent', name: parent.title };
+    param = parent.id;
+    where = 't.parent_task_id = @param';
+  } else {
+    const milestone = resolveMilestone(projectId, options.milestone!);
+    if (!milestone) return { error: `Milestone "${options.milestone}" not found.` };
+    scope = { type: 'milestone', name: milestone.name };
+    param = milestone.id;
+    historyEvent = 'milestone_changed';
+    where = 't.milestone_id = @param';
+    isMember = value => value === milestone.id;
+    startDate ??= milestone.start_at ?? undefined;
+    targetDate ??= milestone.end_at ?? undefined;
+  }
+
+  if (!targetDate) return { error: 'target_date is required (YYYY-MM-DD).' };
+  for (const [key, value] of [['start_date', startDate], ['target_date', targetDate]] as const) {
+    if (value !== undefined && !isIsoDate(value)) return { error: `${key} must be a date like 2025-01-31.` };
+  }
+
+  // Every task that is or ever was in scope, trashed ones included
+  const everIn = historyEvent
+    ? ` OR EXISTS (SELECT 1 FROM task_history h WHERE h.task_id = t.id AND h.event = '${historyEvent}'
+         AND (h.old_value = @param OR h.new_value = @param
+           OR EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(h.old_value) THEN h.old_value ELSE '[]' END) WHERE value = @param)
+           OR EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(h.new_value) THEN h.new_value ELSE '[]' END) WHERE value = @param)))`
+    : '';
+  const tasks = db.prepare(
+    `SELECT t.id, t.title, t.status, t.estimate, t.created_at, t.completed_at, t.deleted_at, (${where}) AS in_scope_now
+     FROM tasks t WHERE t.project_id = @projectId AND ((${where})${everIn})`
+  ).all({ projectId, param }) as ScopeTask[];
+
+  const history = db.prepare(
+    `SELECT task_id, event, old_value, new_value, created_at FROM task_history
+     WHERE task_id IN (SELECT value FROM json_each(@ids))
+       AND event IN ('created', 'status_changed', 'unblocked'${historyEvent ? `, '${historyEvent}'` : ''})
+     ORDER BY created_at, rowid`
+  ).all({ ids: JSON.stringify(tasks.map(t => t.id)) }) as HistoryEvent[];
+
+  const categories = new Map<string, StatusCategory>(getWorkflow(projectId).statuses.map(s => [s.key, s.category]));
+  const categoryOf = (status: string | null) => (status === null ? undefined : categories.get(status));
+  const timelines = tasks.map(task => ({
+    task,
+    states: taskTimeline(task, history.filter(e => e.task_id === task.id), isMember, s => categoryOf(s) === 'done'),
+  }));
+
+  const today = new Date().toISOString().slice(0, 10);
+  startDate ??= tasks.length > 0 ? tasks.map(t => toTimestamp(t.created_at).slice(0, 10)).sort()[0] : today;
+  if (startDate > targetDate) return { error: `start_date (${startDate}) is after target_date (${targetDate}).` };
+  const span = daysBetween(startDate, targetDate);
+  if (span > MAX_DAYS) return { error: `The scope spans ${span} days; burndowns cover at most ${MAX_DAYS}.` };
+
+  const lastDay = targetDate < today ? targetDate : today;
+  const series: BurnPoint[] = [];
+  const scopeChanges: ScopeChange[] = [];
+  let previous: Set<string> | null = null;
+  for (let date = startDate; date <= lastDay; date = addDays(date, 1)) {
+    const endOfDay = `${date} 23:59:59`;
+    const counted = new Set<string>();
+    const point = { date, scope: 0, done: 0, remaining: 0, ideal: 0, scope_points: 0, done_points: 0 };
+    for (const { task, states } of timelines) {
+      const state = stateAt(states, endOfDay);
+      if (!state || !state.member || categoryOf(state.status) === 'cancelled') continue;
+      counted.add(task.id);
+      point.scope++;
+      point.scope_points += task.estimate ?? 0;
+      if (categoryOf(state.status) === 'done') {
+        point.done++;
+        point.done_points += task.estimate ?? 0;
+      }
+    }
+    point.remaining = point.scope - point.done;
+    const first = series[0]?.scope ?? point.scope;
+    point.ideal = span === 0 ? 0 : Math.round(first * Math.max(0, 1 - daysBetween(startDate, date) / span) * 10) / 10;
+    series.push(point);
+
+    if (previous) {
+      for (const { task } of timelines) {
+        if (counted.has(task.id) && !previous.has(task.id)) scopeChanges.push({ date, task_id: task.id, title: task.title, change: 'added' });
+        if (!counted.has(task.id) && previous.has(task.id)) scopeChanges.push({ date, task_id: task.id, title: task.title, change: 'removed' });
+      }
+    }
+    previous = counted;
+  }
+
+  // Project the finish from the average pace since the start
+  let forecast: Burndown['forecast'] = { done_per_day: 0, projected_finish: null, on_track: null };
+  if (series.length > 0) {
+    const last = series[series.length - 1];
+    const elapsed = Math.max(1, series.length - 1);
+    const pace = (last.done - series[0].done) / elapsed;
+    let projected: string | null = null;
+    if (last.remaining === 0) projected = last.date;
+    else if (pace > 0) projected = addDays(last.date, Math.ceil(last.remaining / pace));
+    forecast = {
+      done_per_day: Math.round(pace * 100) / 100,
+      projected_finish: projected,
+      on_track: projected !== null ? projected <= targetDate : false,
+    };
+  }
+
+  return { scope, start_date: startDate, target_date: targetDate, series, scope_changes: scopeChanges, forecast };
+}
@@ -0,0 +1,81 @@
+import { getDb } from './connection.js';
+import { isClosedStatus } from './workflow.js';
+
+export interface TaskClaim {
+  task_id: string;
+  agent: string;
+  claimed_at: string;
+  expires_at: string;
+}
+
+export const DEFAULT_CLAIM_TTL_MINUTES = 30;
+export const MAX_CLAIM_TTL_MINUTES = 24 * 60;
+
+// SQL true when the task behind `alias` is held by an agent other than @agent
+// (any agent when @agent is null). Expired leases hold nothing.
+export function claimedByOtherSql(alias: string): string {
+  return `EXISTS (SELECT 1 FROM task_claims c WHERE c.task_id = ${alias}.id AND c.expires_at > datetime('now') AND c.agent IS NOT @agent)`;
+}
+
+function checkTtl(ttlMinutes: number): string | null {
+  if (!Number.isInteger(ttlMinutes) || ttlMinutes < 1 || ttlMinutes > MAX_CLAIM_TTL_MINUTES) {
+    return `ttl_minutes must be a whole number from 1 to ${MAX_CLAIM_TTL_MINUTES}.`;
+  }
+  return null;
+}
+
+// The task's unexpired claim, if any.
+export function activeClaim(taskId: string): TaskClaim | undefined {
+  return getDb().prepare(
+    "SELECT * FROM task_claims WHERE task_id = ? AND expires_at > datetime('now')"
+  ).get(taskId) as TaskClaim | undefined;
+}
+
+// Take a lease on a task. A single upsert decides the race: it only overwrites a
+// claim that has expired or already belongs to `agent`, so of two agents
+// claiming at once exactly one wins, even across processes sharing the database.
+export function claimTask(taskId: string, agent: string, ttlMinutes = DEFAULT_CLAIM_TTL_MINUTES): { claim: TaskClaim } | { error: string } {
+  const db = getDb();
+  const ttlError = checkTtl(ttlMinutes);
+  if (ttlError) return { error: ttlError };
+  const task = db.prepare('SELECT project_id, title, status FROM tasks WHERE id = ? AND deleted_at IS NULL').get(taskId) as
+    { project_id: string; title: string; status: string } | undefined;
+  if (!task) return { error: `Task "${taskId}" not found.` };
+  if (isClosedStatus(task.project_id, task.status)) return { error: `Task "${task.title}" is already ${task.status}.` };
+
+  const taken = db.prepare(
+    `INSERT INTO task_claims (task_id, agent, claimed_at, expires_at)
+     VALUES (@taskId, @agent, datetime('now'), datetime('now', '+' || @ttl || ' minutes'))
+     ON CONFLICT (task_id) DO UPDATE SET
+       agent = excluded.agent,
+       claimed_at = CASE WHEN task_claims.agent = excluded.agent AND task_claims.expires_at > datetime('now') THEN task_claims.claimed_at ELSE excluded.claimed_at END,
+       expires_at = excluded.expires_at
+     WHERE task_claims.expires_at <= datetime('now') OR task_claims.agent = excluded.agent`
+  ).run({ taskId, agent, ttl: ttlMinutes }).changes === 1;
+  const claim = db.prepare('SELECT * FROM task_claims WHERE task_id = ?').get(taskId) as TaskClaim;
+  if (!taken) {
+    return { error: `Task "${task.title}" is claimed by ${claim.agent} until ${claim.expires_at} UTC. Pick another task.` };
+  }
+  return { claim };
+}
+
+// Extend a lease the agent still holds. An expired lease can be renewed as long
+// as no other agent has claimed the task since.
+export function renewClaim(taskId: string, agent: string, ttlMinutes = DEFAULT_CLAIM_TTL_MINUTES): { claim: TaskClaim } | { error: string } {
+  const db = getDb();
+  const ttlError = checkTtl(ttlMinutes);
+  if (ttlError) return { error: ttlError };
+  const renewed = db.prepare(
+    "UPDATE task_claims SET expires_at = datetime('now', '+' || ? || ' minutes') WHERE task_id = ? AND agent = ?"
+  ).run(ttlMinutes, taskId, agent).changes === 1;
+  if (!renewed) {
+    const holder = activeClaim(taskId);
+    return { error: holder ? `Task is claimed by ${holder.agent}, not ${agent}.` : `${agent} holds no claim on this task. Claim it with claim_task.` };
+  }
+  return { claim: db.prepare('SELECT * FROM task_claims WHERE task_id = ?').get(taskId) as TaskClaim };
+}
+
+// Give up a lease. Returns false when `agent` held none.
+export function releaseClaim(taskId: string, agent: string): boolean {
+  return getDb().prepare('DELETE FROM task_claims WHERE task_id = ? AND agent = ?').run(taskId, agent).changes === 1;
+}
@@ -0,0 +1,77 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { audited } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  author: string;
+  body: string;
+  created_at: string;
+  edited_at: string | null;
+}
+
+export const LATEST_COMMENTS = 5;
+
+const COLUMNS = 'id, task_id, author, body, created_at, edited_at';
+
+export function addComment(taskId: string, body: string): TaskComment | { error: string } {
+  const db = getDb();
+  const text = body.trim();
+  if (!text) return { error: 'Comment is empty.' };
+  const task = db.prepare('SELECT project_id FROM tasks WHERE id = ? AND deleted_at IS NULL').get(taskId) as { project_id: string } | undefined;
+  if (!task) return { error: `Task "${taskId}" not found.` };
+
+  const id = generateId();
+  audited('comment', id, () => db.prepare(
+    'INSERT INTO task_comments (id, project_id, task_id, author, body) VALUES (?, ?, ?, ?, ?)'
+  ).run(id, task.project_id, taskId, currentActor(), text));
+  return getComment(id)!;
+}
+
+export function getComment(id: string): TaskComment | undefined {
+  return getDb().prepare(`SELECT ${COLUMNS} FROM task_comments WHERE id = ?`).get(id) as TaskComment | undefined;
+}
+
+// Oldest first, so a thread reads top to bottom. With `latest`, only the most recent ones.
+export function listComments(taskId: string, latest?: number): TaskComment[] {
+  const db = getDb();
+  if (latest === undefined) {
+    return db.prepare(`SELECT ${COLUMNS} FROM task_comments WHERE task_id = ? ORDER BY created_at, rowid`).all(taskId) as TaskComment[];
+  }
+  return db.prepare(
+    `SELECT ${COLUMNS} FROM (SELECT *, rowid AS seq FROM task_comments WHERE task_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?)
+     ORDER BY created_at, seq`
+  ).all(taskId, latest) as TaskComment[];
+}
+
+export function countComments(taskId: string): number {
+  return (getDb().prepare('SELECT COUNT(*) AS n FROM task_comments WHERE task_id = ?').get(taskId) as { n: number }).n;
+}
+
+// Only the author may edit a comment.
+export function editComment(id: string, body: string): TaskComment | { error: string } {
+  const comment = getComment(id);
+  if (!comment) return { error: `Comment "${id}" not found.` };
+  const text = body.trim();
+  if (!text) return { error: 'Comment is empty.' };
+  const actor = currentActor();
+  if (comment.author !== actor) return { error: `Only ${comment.author} can edit this comment.` };
+
+  audited('comment', id, () => getDb().prepare(
+    'UPDATE task_comments SET body = ?, edited_at = CURRENT_TIMESTAMP WHERE id = ?'
+  ).run(text, id));
+  return getComment(id)!;
+}
+
+// Authors may delete their own comments; `anyAuthor` lets the board owner moderate.
+export function deleteComment(id: string, options: { anyAuthor?: boolean } = {}): { deleted: string } | { error: string } {
+  const comment = getComment(id);
+  if (!comment) return { error: `Comment "${id}" not found.` };
+  if (!options.anyAuthor && comment.author !== currentActor()) {
+    return { error: `Only ${comment.author} can delete this comment.` };
+  }
+  audited('comment', id, () => getDb().prepare('DELETE FROM task_comments WHERE id = ?').run(id));
+  return { deleted: id };
+}
@@ -2,7 +2,7 @@ import Database from 'better-sqlite3';
 import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { dirname, resolve } from 'path';
 import { homedir } from 'os';
-import { createSchema, runMigrations } from './schema.js';
+import { runMigrations, type MigrationReport } from './migrations.js';
 import { AGENT_INSTRUCTIONS } from '../tools/meta.js';
 
 let db: Database.Database | null = null;
@@ -41,19 +41,38 @@ export function getDb(): Database.Database {
   db.pragma('foreign_keys = ON');
 
   try {
-    process.stderr.write('[mindpm] Running createSchema...\n');
-    createSchema(db);
-    process.stderr.write('[mindpm] Running runMigrations...\n');
-    runMigrations(db);
-    process.stderr.write('[mindpm] Database ready.\n');
+    process.stderr.write('[mindpm] Running migrations...\n');
+    const report = runMigrations(db);
+    process.stderr.write(`[mindpm] Database ready (schema version ${report.to_version}).\n`);
   } catch (err) {
     process.stderr.write(`[mindpm] Database init failed: ${err}\n`);
+    db.close();
+    db = null;
     throw err;
   }
 
   return db;
 }
 
+// Apply pending migrations (or, with dryRun, only report them) without starting the server.
+export function migrateDb(options: { dryRun?: boolean } = {}): MigrationReport {
+  const dbPath = resolveDbPath();
+  let conn: Database.Database;
+  if (options.dryRun) {
+    conn = existsSync(dbPath) ? new Database(dbPath, { readonly: true }) : new Database(':memory:');
+  } else {
+    mkdirSync(dirname(dbPath), { recursive: true });
+    conn = new Database(dbPath);
+    conn.pragma('journal_mode = WAL');
+    conn.pragma('foreign_keys = ON');
+  }
+  try {
+    return runMigrations(conn, { dryRun: options.dryRun });
+  } finally {
+    conn.close();
+  }
+}
+
 export function closeDb(): void {
   if (db) {
     db.pragma('wal_checkpoint(TRUNCATE)');
@@ -0,0 +1,174 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { isIsoDate } from '../utils/dates.js';
+import { audited } from './audit.js';
+
+export const FIELD_TYPES = ['text', 'number', 'enum', 'date', 'url'] as const;
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export interface CustomField {
+  key: string;
+  label: string;
+  type: FieldType;
+  options: string[] | null;
+}
+
+// Values as callers send them; null clears the field on the task
+export type FieldInput = Record<string, string | number | null>;
+
+interface FieldRow {
+  id: string;
+  key: string;
+  label: string;
+  type: FieldType;
+  options: string | null;
+}
+
+const FIELD_KEY = /^[a-z][a-z0-9_]*$/;
+
+// JSON object of field key -> value for the task aliased as `alias` (NULL when it has none).
+// Number fields come out as JSON numbers, everything else as strings.
+export function fieldsSql(alias: string): string {
+  return `(SELECT CASE WHEN COUNT(*) > 0 THEN json_group_object(f.key, CASE f.type WHEN 'number' THEN json(v.value) ELSE v.value END) END
+    FROM task_field_values v JOIN custom_fields f ON f.id = v.field_id WHERE v.task_id = ${alias}.id)`;
+}
+
+// Matches tasks whose field bound as @<param>Key has the value bound as @<param>Value.
+export function fieldFilterSql(alias: string, param: string): string {
+  return `EXISTS (SELECT 1 FROM task_field_values v JOIN custom_fields f ON f.id = v.field_id
+    WHERE v.task_id = ${alias}.id AND f.key = @${param}Key AND v.value = @${param}Value)`;
+}
+
+function toField(row: FieldRow): CustomField {
+  return { key: row.key, label: row.label, type: row.type, options: row.options ? JSON.parse(row.options) : null };
+}
+
+function fieldRows(projectId: string): FieldRow[] {
+  return getDb().prepare(
+    'SELECT id, key, label, type, options FROM custom_fields WHERE project_id = ? ORDER BY position, created_at'
+  ).all(projectId) as FieldRow[];
+}
+
+export function listFields(projectId: string): CustomField[] {
+  return fieldRows(projectId).map(toField);
+}
+
+// The stored form of a value, or an error if it doesn't fit the field.
+function normalizeValue(field: CustomField, raw: string | number): { value: string } | { error: string } {
+  const text = String(raw).trim();
+  switch (field.type) {
+    case 'text':
+      return { value: text };
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : Number(text);
+      if (text === '' || !Number.isFinite(n)) return { error: `${field.key} must be a number.` };
+      return { value: String(n) };
+    }
+    case 'enum':
+      if (!field.options?.includes(text)) {
+        return { error: `${field.key} must be one of: ${(field.options ?? []).join(', ')}.` };
+      }
+      return { value: text };
+    case 'date':
+      if (!isIsoDate(text)) return { error: `${field.key} must be a date like 2025-01-31.` };
+      return { value: text };
+    case 'url': {
+      let url: URL;
+      try {
+        url = new URL(text);
+      } catch {
+        return { error: `${field.key} must be a URL.` };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return { error: `${field.key} must be an http(s) URL.` };
+      return { value: text };
+    }
+  }
+}
+
+// Check values against the project's field definitions. The result maps field
+// keys to stored values, with null (or an empty string) meaning "clear".
+export function validateFieldValues(projectId: string, input: FieldInput): { values: Record<string, string | null> } | { error: string } {
+  const fields = new Map(listFields(projectId).map(f => [f.key, f]));
+  const values: Record<string, string | null> = {};
+  for (const [key, raw] of Object.entries(input)) {
+    const field = fields.get(key);
+    if (!field) {
+      const known = [...fields.keys()];
+      return { error: `Unknown field "${key}". ${known.length > 0 ? `Defined fields: ${known.join(', ')}.` : 'This project has no custom fields; add one with define_field.'}` };
+    }
+    if (raw === null || String(raw).trim() === '') {
+      values[key] = null;
+      continue;
+    }
+    const normalized = normalizeValue(field, raw);
+    if ('error' in normalized) return normalized;
+    values[key] = normalized.value;
+  }
+  return { values };
+}
+
+// Store validated values on a task; null removes the value.
+export function setFieldValues(taskId: string, projectId: string, values: Record<string, string | null>): void {
+  const db = getDb();
+  const ids = new Map(fieldRows(projectId).map(r => [r.key, r.id]));
+  const upsert = db.prepare(
+    'INSERT INTO task_field_values (task_id, field_id, value) VALUES (?, ?, ?) ON CONFLICT (task_id, field_id) DO UPDATE SET value = excluded.value'
+  );
+  const remove = db.prepare('DELETE FROM task_field_values WHERE task_id = ? AND field_id = ?');
+  db.transaction(() => {
+    for (const [key, value] of Object.entries(values)) {
+      const fieldId = ids.get(key)!;
+      if (value === null) remove.run(taskId, fieldId);
+      else upsert.run(taskId, fieldId, value);
+    }
+  })();
+}
+
+// Create a field, or update the label, options or position of an existing one.
+// A field's type can't change while tasks have values for it, and enum options
+// still in use can't be removed.
+export function defineField(
+  projectId: string,
+  def: { key: string; label?: string; type: FieldType; options?: string[] },
+): { field: CustomField; created: boolean } | { error: string } {
+  const db = getDb();
+  if (!FIELD_KEY.test(def.key)) {
+    return { error: `Invalid field key "${def.key}": use lowercase letters, digits and underscores.` };
+  }
+  const options = def.type === 'enum' ? [...new Set((def.options ?? []).map(o => o.trim()).filter(Boolean))] : null;
+  if (options !== null && options.length === 0) {
+    return { error: 'Enum fields need at least one option.' };
+  }
+
+  const existing = db.prepare('SELECT id, key, label, type, options FROM custom_fields WHERE project_id = ? AND key = ?').get(projectId, def.key) as FieldRow | undefined;
+  if (!existing) {
+    const { n } = db.prepare('SELECT COUNT(*) AS n FROM custom_fields WHERE project_id = ?').get(projectId) as { n: number };
+    db.prepare(
+      'INSERT INTO custom_fields (id, project_id, key, label, type, options, position) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(generateId(), projectId, def.key, def.label ?? def.key, def.type, options ? JSON.stringify(options) : null, n);
+    return { field: toField(db.prepare('SELECT * FROM custom_fields WHERE project_id = ? AND key = ?').get(projectId, def.key) as FieldRow), created: true };
+  }
+
+  const used = db.prepare('SELECT DISTINCT value FROM task_field_values WHERE field_id = ?').all(existing.id) as { value: string }[];
+  if (existing.type !== def.type && used.length > 0) {
+    return { error: `Field "${def.key}" is a ${existing.type} field with values on ${used.length > 1 ? 'tasks' : 'a task'}; its type can't change.` };
+  }
+  const dropped = options ? used.map(u => u.value).filter(v => !options.includes(v)) : [];
+  if (dropped.length > 0) {
+    return { error: `Options still in use can't be removed: ${dropped.join(', ')}.` };
+  }
+  db.prepare('UPDATE custom_fields SET label = ?, type = ?, options = ? WHERE id = ?').run(
+    def.label ?? existing.label, def.type, options ? JSON.stringify(options) : null, existing.id,
+  );
+  return { field: toField(db.prepare('SELECT * FROM custom_fields WHERE id = ?').get(existing.id) as FieldRow), created: false };
+}
+
+// Delete a field definition along with its values on every task.
+export function deleteField(projectId: string, key: string): { removed: number } | { error: string } {
+  const db = getDb();
+  const field = db.prepare('SELECT id FROM custom_fields WHERE project_id = ? AND key = ?').get(projectId, key) as { id: string } | undefined;
+  if (!field) return { error: `Field "${key}" not found.` };
+  const taskIds = (db.prepare('SELECT task_id FROM task_field_values WHERE field_id = ?').all(field.id) as { task_id: string }[]).map(r => r.task_id);
+  audited('task', taskIds, () => db.prepare('DELETE FROM custom_fields WHERE id = ?').run(field.id));
+  return { removed: taskIds.length };
+}
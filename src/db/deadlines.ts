@@ -0,0 +1,62 @@
+import { getDb } from './connection.js';
+import { statusCategorySql, categoryListSql, CLOSED_CATEGORIES } from './workflow.js';
+import { isIsoDate } from '../utils/dates.js';
+
+// Open tasks due within this many days count as "due soon"
+export const DUE_SOON_DAYS = 3;
+
+export interface DeadlineTask {
+  id: string;
+  short_id: string | null;
+  project: string;
+  title: string;
+  status: string;
+  priority: string;
+  start_at: string | null;
+  due_at: string;
+  days_left: number;
+}
+
+// Check start/due dates as sent by callers (YYYY-MM-DD, null clears). `current`
+// holds the task's stored dates so a partial update is checked against the other one.
+export function checkTaskDates(
+  dates: { start_at?: string | null; due_at?: string | null },
+  current: { start_at: string | null; due_at: string | null } = { start_at: null, due_at: null },
+): string | null {
+  for (const key of ['start_at', 'due_at'] as const) {
+    const value = dates[key];
+    if (value !== undefined && value !== null && !isIsoDate(value)) {
+      return `${key} must be a date like 2025-01-31.`;
+    }
+  }
+  const start = dates.start_at !== undefined ? dates.start_at : current.start_at;
+  const due = dates.due_at !== undefined ? dates.due_at : current.due_at;
+  if (start && due && start > due) {
+    return `start_at (${start}) is after due_at (${due}).`;
+  }
+  return null;
+}
+
+// Open, live tasks that are overdue or due within `days`, soonest first. Without
+// a project, covers every project that isn't completed or archived.
+export function getDeadlines(
+  options: { projectId?: string; days?: number } = {},
+): { overdue: DeadlineTask[]; due_soon: DeadlineTask[] } {
+  const db = getDb();
+  const days = options.days ?? DUE_SOON_DAYS;
+  const rows = db.prepare(
+    `SELECT t.id, p.slug || '-' || t.seq AS short_id, p.name AS project, t.title, t.status, t.priority, t.start_at, t.due_at,
+       CAST(julianday(t.due_at) - julianday(date('now')) AS INTEGER) AS days_left
+     FROM tasks t JOIN projects p ON t.project_id = p.id
+     WHERE t.due_at IS NOT NULL AND t.deleted_at IS NULL
+       AND ${statusCategorySql('t')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}
+       AND t.due_at <= date('now', '+' || @days || ' days')
+       AND ${options.projectId ? 't.project_id = @projectId' : "p.status NOT IN ('completed', 'archived')"}
+     ORDER BY t.due_at, CASE t.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END`
+  ).all({ days, projectId: options.projectId ?? null }) as DeadlineTask[];
+
+  return {
+    overdue: rows.filter(r => r.days_left < 0),
+    due_soon: rows.filter(r => r.days_left >= 0),
+  };
+}
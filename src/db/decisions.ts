@@ -0,0 +1,229 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { setTags } from './tags.js';
+import { audited, auditOperation } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+import { isIsoDate } from '../utils/dates.js';
+
+export const DECISION_STATUSES = ['proposed', 'accepted', 'rejected', 'superseded', 'deprecated'] as const;
+export type DecisionStatus = typeof DECISION_STATUSES[number];
+
+export interface DecisionInput {
+  task_id?: string | null;
+  title: string;
+  decision: string;
+  reasoning?: string | null;
+  alternatives?: string[] | null;
+  tags?: string[];
+  status?: DecisionStatus;
+  revisit_at?: string | null;
+  revisit_when?: string | null;
+}
+
+export type DecisionChanges = Partial<Omit<DecisionInput, 'status'>> & { status?: DecisionStatus };
+
+interface DecisionRow {
+  id: string;
+  project_id: string;
+  title: string;
+  status: DecisionStatus;
+  supersedes: string | null;
+}
+
+// Decisions up for review within this many days count as due
+export const REVIEW_AHEAD_DAYS = 7;
+
+export interface ReviewDecision {
+  id: string;
+  title: string;
+  decision: string;
+  status: DecisionStatus;
+  revisit_at: string | null;
+  revisit_when: string | null;
+  days_left: number | null;
+}
+
+// Check a revisit date as sent by callers (YYYY-MM-DD, null clears).
+export function checkRevisitAt(value: string | null | undefined): string | null {
+  if (value !== undefined && value !== null && !isIsoDate(value)) {
+    return 'revisit_at must be a date like 2025-01-31.';
+  }
+  return null;
+}
+
+// SQL for the ID of the decision that supersedes the one aliased as `alias`, if any.
+export function supersededBySql(alias = 'd'): string {
+  return `(SELECT s.id FROM decisions s WHERE s.supersedes = ${alias}.id AND s.deleted_at IS NULL)`;
+}
+
+// The latest decisions for session context. Superseded ones are left out unless
+// asked for, so a reversed decision doesn't read as current.
+export function recentDecisions(projectId: string, options: { includeSuperseded?: boolean; limit?: number } = {}): unknown[] {
+  const superseded = options.includeSuperseded ? '' : " AND status != 'superseded'";
+  return getDb().prepare(
+    `SELECT id, title, decision, status, supersedes, created_at FROM decisions
+     WHERE project_id = ? AND deleted_at IS NULL${superseded} ORDER BY created_at DESC LIMIT ?`
+  ).all(projectId, options.limit ?? 5);
+}
+
+// Decisions still in force (proposed or accepted) that should be looked at again:
+// `due` have a revisit date within `days` (or past it), soonest first; `on_condition`
+// only say when to revisit ("past 10k users"), which the caller has to judge.
+export function decisionsDueForReview(
+  projectId: string,
+  options: { days?: number } = {},
+): { due: ReviewDecision[]; on_condition: ReviewDecision[] } {
+  const db = getDb();
+  const select = `SELECT id, title, decision, status, revisit_at, revisit_when,
+      CAST(julianday(revisit_at) - julianday(date('now')) AS INTEGER) AS days_left
+    FROM decisions
+    WHERE project_id = @projectId AND deleted_at IS NULL AND status IN ('proposed', 'accepted')`;
+  const due = db.prepare(
+    `${select} AND revisit_at <= date('now', '+' || @days || ' days') ORDER BY revisit_at, created_at`
+  ).all({ projectId, days: options.days ?? REVIEW_AHEAD_DAYS }) as ReviewDecision[];
+  const onCondition = db.prepare(
+    `${select} AND revisit_at IS NULL AND revisit_when IS NOT NULL ORDER BY created_at`
+  ).all({ projectId }) as ReviewDecision[];
+  return { due, on_condition: onCondition };
+}
+
+function getDecisionRow(id: string): DecisionRow | undefined {
+  return getDb().prepare('SELECT id, project_id, title, status, supersedes FROM decisions WHERE id = ? AND deleted_at IS NULL')
+    .get(id) as DecisionRow | undefined;
+}
+
+// `extra` carries what only comes from elsewhere: the decision being superseded,
+// and an ADR's number and date when importing one.
+export function insertDecision(
+  projectId: string,
+  input: DecisionInput,
+  extra: { supersedes?: string | null; adr_number?: number | null; created_at?: string } = {},
+): string {
+  const db = getDb();
+  const id = generateId();
+  const actor = currentActor();
+  audited('decision', id, db.transaction(() => {
+    db.prepare(
+      `INSERT INTO decisions (id, project_id, task_id, title, decision, reasoning, alternatives, status, supersedes, revisit_at, revisit_when, adr_number, created_by, updated_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`
+    ).run(
+      id,
+      projectId,
+      input.task_id ?? null,
+      input.title,
+      input.decision,
+      input.reasoning ?? null,
+      input.alternatives ? JSON.stringify(input.alternatives) : null,
+      input.status ?? 'accepted',
+      extra.supersedes ?? null,
+      input.revisit_at ?? null,
+      input.revisit_when ?? null,
+      extra.adr_number ?? null,
+      actor,
+      actor,
+      extra.created_at ?? null,
+    );
+    if (input.tags) setTags('decision', id, projectId, input.tags);
+  }));
+  return id;
+}
+
+// Edit a decision in place. Marking one superseded goes through supersedeDecision,
+// which records what replaced it.
+export function updateDecision(id: string, changes: DecisionChanges): { updated: string[] } | { error: string } {
+  const current = getDecisionRow(id);
+  if (!current) return { error: `Decision "${id}" not found.` };
+  if (changes.status !== undefined && !DECISION_STATUSES.includes(changes.status)) {
+    return { error: `status must be one of: ${DECISION_STATUSES.join(', ')}` };
+  }
+  if (changes.status !== undefined && changes.status !== current.status) {
+    if (changes.status === 'superseded') {
+      return { error: 'Use supersede_decision to mark a decision superseded, so the decision replacing it is recorded.' };
+    }
+    const replacedBy = supersededBy(id);
+    if (replacedBy) return { error: `Decision "${id}" has been superseded by ${replacedBy}.` };
+  }
+  const dateError = checkRevisitAt(changes.revisit_at);
+  if (dateError) return { error: dateError };
+
+  const columns: Record<string, unknown> = {};
+  for (const key of ['task_id', 'title', 'decision', 'reasoning', 'status', 'revisit_at', 'revisit_when'] as const) {
+    if (changes[key] !== undefined) columns[key] = changes[key];
+  }
+  if (changes.alternatives !== undefined) columns.alternatives = changes.alternatives ? JSON.stringify(changes.alternatives) : null;
+  const updated = [...Object.keys(columns), ...(changes.tags !== undefined ? ['tags'] : [])];
+  if (updated.length === 0) return { error: 'Nothing to update.' };
+
+  const db = getDb();
+  audited('decision', id, db.transaction(() => {
+    const assignments = Object.keys(columns).map(column => `${column} = @${column}`);
+    db.prepare(`UPDATE decisions SET ${[...assignments, 'updated_by = @actor'].join(', ')} WHERE id = @id`)
+      .run({ ...columns, actor: currentActor(), id });
+    if (changes.tags !== undefined) setTags('decision', id, current.project_id, changes.tags);
+  }));
+  return { updated };
+}
+
+export function supersededBy(id: string): string | null {
+  const row = getDb().prepare('SELECT id FROM decisions WHERE supersedes = ? AND deleted_at IS NULL').get(id) as { id: string } | undefined;
+  return row?.id ?? null;
+}
+
+// Replace decision `oldId` with an existing decision (`by`) or a new one, in one
+// operation: the replacement points at the old decision, which becomes superseded.
+export function supersedeDecision(
+  oldId: string,
+  replacement: { by: string } | DecisionInput,
+): { decision_id: string; supersedes: string } | { error: string } {
+  const old = getDecisionRow(oldId);
+  if (!old) return { error: `Decision "${oldId}" not found.` };
+  const already = supersededBy(oldId);
+  if (already) return { error: `Decision "${oldId}" is already superseded by ${already}.` };
+
+  let byId: string | null = null;
+  if ('by' in replacement) {
+    const by = getDecisionRow(replacement.by);
+    if (!by) return { error: `Decision "${replacement.by}" not found.` };
+    if (by.id === oldId) return { error: 'A decision cannot supersede itself.' };
+    if (by.project_id !== old.project_id) return { error: 'A decision can only be superseded by one in the same project.' };
+    if (by.supersedes) return { error: `Decision "${by.id}" already supersedes ${by.supersedes}.` };
+    if (supersessionChain(oldId).some(d => d.id === by.id)) {
+      return { error: `Decision "${by.id}" is an earlier version of "${oldId}".` };
+    }
+    byId = by.id;
+  } else {
+    const dateError = checkRevisitAt(replacement.revisit_at);
+    if (dateError) return { error: dateError };
+  }
+
+  const db = getDb();
+  return auditOperation(() => db.transaction(() => {
+    let decisionId: string;
+    if (byId) {
+      decisionId = byId;
+      audited('decision', byId, () => db.prepare('UPDATE decisions SET supersedes = ?, updated_by = ? WHERE id = ?').run(oldId, currentActor(), byId));
+    } else {
+      decisionId = insertDecision(old.project_id, replacement as DecisionInput, { supersedes: oldId });
+    }
+    audited('decision', oldId, () => db.prepare("UPDATE decisions SET status = 'superseded', updated_by = ? WHERE id = ?").run(currentActor(), oldId));
+    return { decision_id: decisionId, supersedes: oldId };
+  })());
+}
+
+// The versions of a decision, oldest first: what it replaced, and what replaced it.
+export function supersessionChain(id: string): { id: string; title: string; status: DecisionStatus }[] {
+  const db = getDb();
+  return db.prepare(
+    `WITH RECURSIVE
+       earlier(id, supersedes, n) AS (
+         SELECT id, supersedes, 0 FROM decisions WHERE id = @id
+         UNION SELECT d.id, d.supersedes, e.n - 1 FROM decisions d JOIN earlier e ON d.id = e.supersedes WHERE e.n > -100
+       ),
+       later(id, n) AS (
+         SELECT id, 0 FROM decisions WHERE id = @id
+         UNION SELECT d.id, l.n + 1 FROM decisions d JOIN later l ON d.supersedes = l.id WHERE d.deleted_at IS NULL AND l.n < 100
+       ),
+       chain(id, n) AS (SELECT id, n FROM earlier UNION SELECT id, n FROM later)
+     SELECT d.id, d.title, d.status FROM chain c JOIN decisions d ON d.id = c.id WHERE d.deleted_at IS NULL ORDER BY c.n`
+  ).all({ id }) as { id: string; title: string; status: DecisionStatus }[];
+}
@@ -0,0 +1,194 @@
+import { getDb } from './connection.js';
+import { resolveTaskId, recordTaskHistory } from './queries.js';
+import { statusCategorySql, categoryListSql, categoryOf, checkStatusChange, firstStatusIn, initialStatus, CLOSED_CATEGORIES } from './workflow.js';
+import { audited, auditOperation } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+// JSON array of blocker IDs for the task aliased as `alias` (NULL when it has none).
+// Keeps the `blocked_by` field that API consumers already read, now derived from task_dependencies.
+// Blockers in the trash are left out.
+export function blockedBySql(alias = 't'): string {
+  return `(SELECT CASE WHEN COUNT(*) > 0 THEN json_group_array(d.blocked_by_id) END FROM task_dependencies d JOIN tasks b ON b.id = d.blocked_by_id WHERE d.task_id = ${alias}.id AND b.deleted_at IS NULL)`;
+}
+
+// True if `blockerId` already depends (directly or transitively) on `taskId`,
+// so making `taskId` wait on `blockerId` would close a loop.
+function dependsOn(blockerId: string, taskId: string): boolean {
+  const db = getDb();
+  const row = db.prepare(
+    `WITH RECURSIVE upstream(id) AS (
+       SELECT blocked_by_id FROM task_dependencies WHERE task_id = @start
+       UNION
+       SELECT d.blocked_by_id FROM task_dependencies d JOIN upstream u ON d.task_id = u.id
+     )
+     SELECT 1 AS found FROM upstream WHERE id = @target LIMIT 1`
+  ).get({ start: blockerId, target: taskId });
+  return row !== undefined;
+}
+
+// Resolve blocker refs (hex or short IDs) for a task, rejecting unknown IDs,
+// self-references and anything that would introduce a dependency cycle.
+export function resolveBlockers(taskId: string, refs: string[]): { ids: string[] } | { error: string } {
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  for (const ref of refs) {
+    const id = resolveTaskId(ref);
+    if (!id) unknown.push(ref);
+    else if (!ids.includes(id)) ids.push(id);
+  }
+  if (unknown.length > 0) {
+    return { error: `Unknown task${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}` };
+  }
+  if (ids.includes(taskId)) {
+    return { error: 'A task cannot block itself.' };
+  }
+  const cyclic = ids.filter(id => dependsOn(id, taskId));
+  if (cyclic.length > 0) {
+    return { error: `Dependency cycle: ${cyclic.join(', ')} already depend${cyclic.length > 1 ? '' : 's'} on ${taskId}.` };
+  }
+  return { ids };
+}
+
+// Callers validate with resolveBlockers first.
+export function addDependencies(taskId: string, blockerIds: string[]): void {
+  const db = getDb();
+  const insert = db.prepare('INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id) VALUES (?, ?)');
+  db.transaction(() => {
+    for (const blockerId of blockerIds) insert.run(taskId, blockerId);
+  })();
+}
+
+// The status a task moves to when `blockerIds` are added to it: the project's first
+// "blocked" status (if its workflow has one) when any of those blockers is still open,
+// the task is neither finished nor already blocked, and the workflow's transitions allow
+// the move. Null when it keeps its status.
+export function autoBlockStatus(taskId: string, blockerIds: string[]): string | null {
+  if (blockerIds.length === 0) return null;
+  const db = getDb();
+  const task = db.prepare('SELECT project_id, status FROM tasks WHERE id = ?').get(taskId) as { project_id: string; status: string };
+  const openBlockers = (db.prepare(
+    `SELECT COUNT(*) AS n FROM tasks b WHERE b.id IN (${blockerIds.map(() => '?').join(',')}) AND ${statusCategorySql('b')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}`
+  ).get(...blockerIds) as { n: number }).n;
+  const category = categoryOf(task.project_id, task.status);
+  const blockedStatus = firstStatusIn(task.project_id, 'blocked');
+  const shouldBlock = openBlockers > 0 && blockedStatus !== null && category !== null
+    && category !== 'blocked' && !CLOSED_CATEGORIES.includes(category)
+    && checkStatusChange(task.project_id, task.status, blockedStatus) === null;
+  return shouldBlock ? blockedStatus : null;
+}
+
+// Add blockers and move the task to the blocked status when autoBlockStatus says so.
+// Returns the task's resulting status.
+export function addDependenciesAndBlock(taskId: string, blockerIds: string[]): string {
+  const db = getDb();
+  const task = db.prepare('SELECT status FROM tasks WHERE id = ?').get(taskId) as { status: string };
+  const blockedStatus = autoBlockStatus(taskId, blockerIds);
+
+  audited('task', taskId, db.transaction(() => {
+    addDependencies(taskId, blockerIds);
+    if (blockedStatus !== null) {
+      db.prepare('UPDATE tasks SET status = ?, updated_by = ? WHERE id = ?').run(blockedStatus, currentActor(), taskId);
+      recordTaskHistory(taskId, 'status_changed', task.status, blockedStatus);
+    }
+  }));
+  return blockedStatus ?? task.status;
+}
+
+export function setDependencies(taskId: string, blockerIds: string[]): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('DELETE FROM task_dependencies WHERE task_id = ?').run(taskId);
+    addDependencies(taskId, blockerIds);
+  })();
+}
+
+// Remove one blocker. If that leaves the task blocked with no open blockers, it is
+// unblocked as in unblockTasks. Null when the task wasn't blocked by `blockerId`.
+export function removeDependency(taskId: string, blockerId: string): { unblocked: UnblockedTask[] } | null {
+  const db = getDb();
+  return auditOperation(() => {
+    const removed = audited('task', taskId, () =>
+      db.prepare('DELETE FROM task_dependencies WHERE task_id = ? AND blocked_by_id = ?').run(taskId, blockerId).changes > 0);
+    return removed ? { unblocked: unblockTasks([taskId]) } : null;
+  });
+}
+
+export interface UnblockedTask {
+  id: string;
+  short_id: string | null;
+  title: string;
+  status: string;
+}
+
+// Called after `taskId` is finished (done or cancelled) or trashed, to unblock its
+// dependents; see unblockTasks.
+export function unblockDependents(taskId: string): UnblockedTask[] {
+  const dependents = getDb().prepare('SELECT task_id FROM task_dependencies WHERE blocked_by_id = ?').all(taskId) as { task_id: string }[];
+  return unblockTasks(dependents.map(d => d.task_id));
+}
+
+// Every one of `taskIds` that is blocked but whose blockers are all finished goes back
+// to the status it had before it was blocked, taken from task_history, and gets an
+// `unblocked` history event. Like any other move, this follows the workflow's
+// transitions: if going back isn't allowed it goes to the initial status instead,
+// and if that isn't allowed either it stays blocked.
+export function unblockTasks(taskIds: string[]): UnblockedTask[] {
+  if (taskIds.length === 0) return [];
+  const db = getDb();
+  const blocked = db.prepare(
+    `SELECT t.id, t.project_id, t.status FROM tasks t
+     WHERE t.id IN (${taskIds.map(() => '?').join(',')}) AND ${statusCategorySql('t')} = 'blocked' AND t.deleted_at IS NULL`
+  ).all(...taskIds) as { id: string; project_id: string; status: string }[];
+
+  const openBlockers = db.prepare(
+    `SELECT COUNT(*) AS n FROM task_dependencies d JOIN tasks b ON b.id = d.blocked_by_id
+     WHERE d.task_id = ? AND ${statusCategorySql('b')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)} AND b.deleted_at IS NULL`
+  );
+  const statusBeforeBlocked = db.prepare(
+    `SELECT old_value FROM task_history
+     WHERE task_id = ? AND event = 'status_changed' AND new_value = ?
+     ORDER BY created_at DESC, rowid DESC LIMIT 1`
+  );
+  const unblocked: UnblockedTask[] = [];
+
+  db.transaction(() => {
+    for (const { id, project_id, status } of blocked) {
+      if ((openBlockers.get(id) as { n: number }).n > 0) continue;
+      const previous = (statusBeforeBlocked.get(id, status) as { old_value: string | null } | undefined)?.old_value;
+      const previousCategory = previous ? categoryOf(project_id, previous) : null;
+      const candidates = previous && previousCategory && previousCategory !== 'blocked' && !CLOSED_CATEGORIES.includes(previousCategory)
+        ? [previous, initialStatus(project_id)]
+        : [initialStatus(project_id)];
+      const restored = candidates.find(candidate => checkStatusChange(project_id, status, candidate) === null);
+      if (restored === undefined) continue;
+      audited('task', id, () => {
+        db.prepare('UPDATE tasks SET status = ?, updated_by = ? WHERE id = ?').run(restored, currentActor(), id);
+        recordTaskHistory(id, 'unblocked', status, restored);
+      });
+      unblocked.push(db.prepare(
+        `SELECT t.id, p.slug || '-' || t.seq AS short_id, t.title, t.status FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.id = ?`
+      ).get(id) as UnblockedTask);
+    }
+  })();
+  return unblocked;
+}
+
+// Blocking tasks for each of the given tasks, fetched in one query.
+export function getBlockingTasks(taskIds: string[]): Map<string, { id: string; short_id: string | null; title: string; status: string }[]> {
+  const result = new Map<string, { id: string; short_id: string | null; title: string; status: string }[]>();
+  if (taskIds.length === 0) return result;
+  const db = getDb();
+  const rows = db.prepare(
+    `SELECT d.task_id, b.id, p.slug || '-' || b.seq AS short_id, b.title, b.status
+     FROM task_dependencies d
+     JOIN tasks b ON b.id = d.blocked_by_id
+     JOIN projects p ON b.project_id = p.id
+     WHERE d.task_id IN (${taskIds.map(() => '?').join(',')}) AND b.deleted_at IS NULL
+     ORDER BY d.created_at, b.id`
+  ).all(...taskIds) as { task_id: string; id: string; short_id: string | null; title: string; status: string }[];
+  for (const { task_id, ...blocker } of rows) {
+    if (!result.has(task_id)) result.set(task_id, []);
+    result.get(task_id)!.push(blocker);
+  }
+  return result;
+}
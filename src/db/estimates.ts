@@ -0,0 +1,11 @@
+export const ESTIMATE_UNITS = ['points', 'hours'] as const;
+export type EstimateUnit = (typeof ESTIMATE_UNITS)[number];
+
+// Check an estimate as sent by callers; null clears it.
+export function checkEstimate(value: unknown): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return 'estimate must be a positive number.';
+  }
+  return null;
+}
@@ -0,0 +1,136 @@
+import { getDb } from './connection.js';
+import { describeEntity, resolveEntity, INVERSE_TYPES, LINKABLE_TYPES, type LinkableType, type LinkedEntity, type Link } from './links.js';
+
+export const GRAPH_MAX_DEPTH = 4;
+export const GRAPH_MAX_NODES = 200;
+
+// Edges that aren't links, named from the side that stores them, with the
+// name they read as from the other side.
+const STRUCTURAL_EDGES = {
+  subtask_of: 'parent_of',
+  blocked_by: 'blocks',
+  note_on: 'has_note',
+  decision_for: 'has_decision',
+  supersedes: 'superseded_by',
+} as const;
+
+export interface GraphNode extends LinkedEntity {
+  depth: number;
+  // How the walk reached this node: the node it came from and the edge as read from there
+  via: { from: string; edge: string } | null;
+}
+
+// Directed as stored: "<from> <type> <to>", e.g. a task blocked_by another
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: string;
+}
+
+export interface Graph {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated: boolean;
+}
+
+interface Neighbor {
+  type: LinkableType;
+  id: string;
+  // The edge as read from the node being expanded
+  edge: string;
+  stored: GraphEdge;
+}
+
+function outgoing(from: string, type: LinkableType, to: string, edge: keyof typeof STRUCTURAL_EDGES): Neighbor {
+  return { type, id: to, edge, stored: { from, to, type: edge } };
+}
+
+function incoming(to: string, type: LinkableType, from: string, edge: keyof typeof STRUCTURAL_EDGES): Neighbor {
+  return { type, id: from, edge: STRUCTURAL_EDGES[edge], stored: { from, to, type: edge } };
+}
+
+// Everything one step away from an entity: parent and sub-tasks, blockers and
+// dependents, the task a note or decision is attached to (and the reverse), the
+// decisions one supersedes or is superseded by, and links.
+function neighbors(type: LinkableType, id: string): Neighbor[] {
+  const db = getDb();
+  const ids = (sql: string) => (db.prepare(sql).all(id) as { id: string | null }[])
+    .map(r => r.id)
+    .filter((v): v is string => v !== null);
+  const result: Neighbor[] = [];
+
+  if (type === 'task') {
+    for (const parent of ids('SELECT parent_task_id AS id FROM tasks WHERE id = ?')) result.push(outgoing(id, 'task', parent, 'subtask_of'));
+    for (const child of ids('SELECT id FROM tasks WHERE parent_task_id = ?')) result.push(incoming(id, 'task', child, 'subtask_of'));
+    for (const blocker of ids('SELECT blocked_by_id AS id FROM task_dependencies WHERE task_id = ?')) result.push(outgoing(id, 'task', blocker, 'blocked_by'));
+    for (const dependent of ids('SELECT task_id AS id FROM task_dependencies WHERE blocked_by_id = ?')) result.push(incoming(id, 'task', dependent, 'blocked_by'));
+    for (const note of ids('SELECT id FROM notes WHERE task_id = ?')) result.push(incoming(id, 'note', note, 'note_on'));
+    for (const decision of ids('SELECT id FROM decisions WHERE task_id = ?')) result.push(incoming(id, 'decision', decision, 'decision_for'));
+  } else if (type === 'note') {
+    for (const task of ids('SELECT task_id AS id FROM notes WHERE id = ?')) result.push(outgoing(id, 'task', task, 'note_on'));
+  } else if (type === 'decision') {
+    for (const task of ids('SELECT task_id AS id FROM decisions WHERE id = ?')) result.push(outgoing(id, 'task', task, 'decision_for'));
+    for (const earlier of ids('SELECT supersedes AS id FROM decisions WHERE id = ?')) result.push(outgoing(id, 'decision', earlier, 'supersedes'));
+    for (const later of ids('SELECT id FROM decisions WHERE supersedes = ?')) result.push(incoming(id, 'decision', later, 'supersedes'));
+  }
+
+  const links = db.prepare('SELECT * FROM links WHERE source_id = ? OR target_id = ? ORDER BY created_at, rowid').all(id, id) as Link[];
+  for (const link of links) {
+    const stored = { from: link.source_id, to: link.target_id, type: link.link_type };
+    if (link.source_id === id) result.push({ type: link.target_type, id: link.target_id, edge: link.link_type, stored });
+    else result.push({ type: link.source_type, id: link.source_id, edge: INVERSE_TYPES[link.link_type], stored });
+  }
+  return result;
+}
+
+// Walk outward from an entity, breadth first, up to `depth` steps. With `kinds`,
+// only entities of those kinds are visited (the start is always included).
+// Trashed entities are skipped. Stops adding nodes at `maxNodes`.
+export function exploreGraph(
+  ref: string,
+  options: { depth?: number; kinds?: LinkableType[]; maxNodes?: number } = {},
+): Graph | { error: string } {
+  const depth = options.depth ?? 2;
+  if (!Number.isInteger(depth) || depth < 1 || depth > GRAPH_MAX_DEPTH) {
+    return { error: `depth must be a whole number from 1 to ${GRAPH_MAX_DEPTH}.` };
+  }
+  const kinds = options.kinds && options.kinds.length > 0 ? options.kinds : [...LINKABLE_TYPES];
+  const unknown = kinds.filter(kind => !LINKABLE_TYPES.includes(kind));
+  if (unknown.length > 0) return { error: `kinds must be among: ${LINKABLE_TYPES.join(', ')}` };
+  const maxNodes = options.maxNodes ?? GRAPH_MAX_NODES;
+
+  const start = resolveEntity(ref);
+  const root = start && describeEntity(start.type, start.id);
+  if (!start || !root) return { error: `"${ref}" is not a task, note, decision or session.` };
+
+  const nodes = new Map<string, GraphNode>([[start.id, { ...root, depth: 0, via: null }]]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier: GraphNode[] = [nodes.get(start.id)!];
+  let truncated = false;
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const next: GraphNode[] = [];
+    for (const node of frontier) {
+      for (const neighbor of neighbors(node.type, node.id)) {
+        if (!kinds.includes(neighbor.type)) continue;
+        if (!nodes.has(neighbor.id)) {
+          if (nodes.size >= maxNodes) {
+            truncated = true;
+            continue;
+          }
+          const entity = describeEntity(neighbor.type, neighbor.id);
+          if (!entity) continue;
+          const added: GraphNode = { ...entity, depth: level, via: { from: node.id, edge: neighbor.edge } };
+          nodes.set(neighbor.id, added);
+          next.push(added);
+        }
+        const { stored } = neighbor;
+        edges.set(`${stored.from}|${stored.to}|${stored.type}`, stored);
+      }
+    }
+    frontier = next;
+  }
+
+  return { root: start.id, nodes: [...nodes.values()], edges: [...edges.values()], truncated };
+}
@@ -0,0 +1,198 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { resolveTaskId } from './queries.js';
+import { audited } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+export const LINK_TYPES = ['relates_to', 'duplicates', 'implements', 'caused_by'] as const;
+export type LinkType = typeof LINK_TYPES[number];
+
+export const LINKABLE_TYPES = ['task', 'note', 'decision', 'session'] as const;
+export type LinkableType = typeof LINKABLE_TYPES[number];
+
+export interface Link {
+  id: string;
+  project_id: string;
+  source_type: LinkableType;
+  source_id: string;
+  target_type: LinkableType;
+  target_id: string;
+  link_type: LinkType;
+  created_by: string | null;
+  created_at: string;
+}
+
+// A link seen from one of its ends: outgoing links read as their type
+// ("implements"), incoming ones as its inverse ("implemented_by").
+export interface EntityLink {
+  id: string;
+  type: string;
+  direction: 'outgoing' | 'incoming';
+  entity: LinkedEntity;
+}
+
+export interface LinkedEntity {
+  type: LinkableType;
+  id: string;
+  short_id?: string;
+  title: string;
+  status?: string;
+}
+
+interface ResolvedEntity {
+  type: LinkableType;
+  id: string;
+  project_id: string;
+}
+
+// Kinds of entity each link type may connect, source → target. Unlisted types connect anything.
+const LINK_RULES: Partial<Record<LinkType, { source: LinkableType[]; target: LinkableType[] }>> = {
+  implements: { source: ['task'], target: ['decision'] },
+  // The bug is usually a task, but may be recorded as a bug note
+  caused_by: { source: ['task', 'note'], target: ['task'] },
+};
+
+export const INVERSE_TYPES: Record<LinkType, string> = {
+  relates_to: 'relates_to',
+  duplicates: 'duplicated_by',
+  implements: 'implemented_by',
+  caused_by: 'caused',
+};
+
+const TABLES: Record<LinkableType, string> = { task: 'tasks', note: 'notes', decision: 'decisions', session: 'sessions' };
+
+// Find a live task (hex or short ID), note, decision or session by ID.
+export function resolveEntity(ref: string): ResolvedEntity | null {
+  const db = getDb();
+  const taskId = resolveTaskId(ref);
+  if (taskId) {
+    const task = db.prepare('SELECT project_id FROM tasks WHERE id = ?').get(taskId) as { project_id: string };
+    return { type: 'task', id: taskId, project_id: task.project_id };
+  }
+  for (const type of ['note', 'decision', 'session'] as const) {
+    const live = type === 'session' ? '' : ' AND deleted_at IS NULL';
+    const row = db.prepare(`SELECT project_id FROM ${TABLES[type]} WHERE id = ?${live}`).get(ref) as { project_id: string } | undefined;
+    if (row) return { type, id: ref, project_id: row.project_id };
+  }
+  return null;
+}
+
+function truncate(text: string, max = 80): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+// What a link points at, or null if it is gone or in the trash.
+export function describeEntity(type: LinkableType, id: string): LinkedEntity | null {
+  const db = getDb();
+  switch (type) {
+    case 'task': {
+      const row = db.prepare(
+        `SELECT t.title, t.status, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id
+         WHERE t.id = ? AND t.deleted_at IS NULL`
+      ).get(id) as { title: string; status: string; short_id: string } | undefined;
+      return row ? { type, id, short_id: row.short_id, title: row.title, status: row.status } : null;
+    }
+    case 'note': {
+      const row = db.prepare('SELECT content FROM notes WHERE id = ? AND deleted_at IS NULL').get(id) as { content: string } | undefined;
+      return row ? { type, id, title: truncate(row.content) } : null;
+    }
+    case 'decision': {
+      const row = db.prepare('SELECT title, status FROM decisions WHERE id = ? AND deleted_at IS NULL').get(id) as { title: string; status: string } | undefined;
+      return row ? { type, id, title: row.title, status: row.status } : null;
+    }
+    case 'session': {
+      const row = db.prepare('SELECT summary FROM sessions WHERE id = ?').get(id) as { summary: string } | undefined;
+      return row ? { type, id, title: truncate(row.summary) } : null;
+    }
+  }
+}
+
+export function getLink(id: string): Link | undefined {
+  return getDb().prepare('SELECT * FROM links WHERE id = ?').get(id) as Link | undefined;
+}
+
+// The link of `type` from one entity to another. relates_to has no direction,
+// so either way round matches.
+export function findLink(sourceId: string, targetId: string, type: LinkType): Link | undefined {
+  const db = getDb();
+  const link = db.prepare('SELECT * FROM links WHERE source_id = ? AND target_id = ? AND link_type = ?')
+    .get(sourceId, targetId, type) as Link | undefined;
+  if (link || type !== 'relates_to') return link;
+  return db.prepare('SELECT * FROM links WHERE source_id = ? AND target_id = ? AND link_type = ?')
+    .get(targetId, sourceId, type) as Link | undefined;
+}
+
+// Link two entities of the same project. Linking again returns the existing link.
+export function createLink(fromRef: string, toRef: string, type: LinkType): { link: Link; created: boolean } | { error: string } {
+  if (!LINK_TYPES.includes(type)) {
+    // Supersession lives on the decision itself (decisions.supersedes), not in links
+    const hint = (type as string) === 'supersedes' ? ' To replace a decision, use supersede_decision.' : '';
+    return { error: `Link type must be one of: ${LINK_TYPES.join(', ')}.${hint}` };
+  }
+  const source = resolveEntity(fromRef);
+  if (!source) return { error: `"${fromRef}" is not a task, note, decision or session.` };
+  const target = resolveEntity(toRef);
+  if (!target) return { error: `"${toRef}" is not a task, note, decision or session.` };
+  if (source.id === target.id) return { error: 'An entity cannot be linked to itself.' };
+  if (source.project_id !== target.project_id) return { error: 'Only entities in the same project can be linked.' };
+
+  const rule = LINK_RULES[type];
+  if (rule && (!rule.source.includes(source.type) || !rule.target.includes(target.type))) {
+    return { error: `${type} links a ${rule.source.join(' or ')} to a ${rule.target.join(' or ')}, not a ${source.type} to a ${target.type}.` };
+  }
+  if (type === 'duplicates' && source.type !== target.type) {
+    return { error: `A ${source.type} can only duplicate another ${source.type}.` };
+  }
+
+  const existing = findLink(source.id, target.id, type);
+  if (existing) return { link: existing, created: false };
+  if (type !== 'relates_to' && findLink(target.id, source.id, type)) {
+    return { error: `The reverse link already exists: ${toRef} ${type} ${fromRef}.` };
+  }
+
+  const id = generateId();
+  audited('link', id, () => getDb().prepare(
+    `INSERT INTO links (id, project_id, source_type, source_id, target_type, target_id, link_type, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(id, source.project_id, source.type, source.id, target.type, target.id, type, currentActor()));
+  return { link: getLink(id)!, created: true };
+}
+
+export function deleteLink(id: string): { deleted: Link } | { error: string } {
+  const link = getLink(id);
+  if (!link) return { error: `Link "${id}" not found.` };
+  audited('link', id, () => getDb().prepare('DELETE FROM links WHERE id = ?').run(id));
+  return { deleted: link };
+}
+
+// Links from and to an entity, oldest first. Links to entities in the trash are
+// left out (they come back if it is restored).
+export function listLinks(entityId: string): EntityLink[] {
+  const rows = getDb().prepare('SELECT * FROM links WHERE source_id = ? OR target_id = ? ORDER BY created_at, rowid')
+    .all(entityId, entityId) as Link[];
+  const links: EntityLink[] = [];
+  for (const link of rows) {
+    const outgoing = link.source_id === entityId;
+    const entity = outgoing ? describeEntity(link.target_type, link.target_id) : describeEntity(link.source_type, link.source_id);
+    if (!entity) continue;
+    links.push({
+      id: link.id,
+      type: outgoing ? link.link_type : INVERSE_TYPES[link.link_type],
+      direction: outgoing ? 'outgoing' : 'incoming',
+      entity,
+    });
+  }
+  return links;
+}
+
+function existsSql(typeColumn: string, idColumn: string): string {
+  return `CASE ${typeColumn} ${LINKABLE_TYPES.map(type => `WHEN '${type}' THEN EXISTS (SELECT 1 FROM ${TABLES[type]} WHERE id = ${idColumn})`).join(' ')} END`;
+}
+
+// Drop links whose source or target has been permanently deleted.
+export function deleteOrphanLinks(): number {
+  return getDb().prepare(
+    `DELETE FROM links WHERE NOT (${existsSql('source_type', 'source_id')}) OR NOT (${existsSql('target_type', 'target_id')})`
+  ).run().changes;
+}
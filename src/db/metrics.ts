@@ -1,4 +1,16 @@
 import type Database from 'better-sqlite3';
+import { statusCategorySql } from './workflow.js';
+import type { EstimateUnit } from './estimates.js';
+
+export interface EstimationBucket {
+  size: string;
+  tasks: number;
+  median_estimate: number;
+  expected_days: number;
+  median_lead_days: number;
+  // Actual over expected lead time; above 1 means tasks of this size were under-estimated
+  ratio: number;
+}
 
 export interface DeliveryMetrics {
   project: string;
@@ -7,6 +19,8 @@ export interface DeliveryMetrics {
     tasks_completed: number;
     per_week_avg: number;
     trend: 'improving' | 'declining' | 'stable';
+    points_completed?: number;
+    points_per_week_avg?: number;
   };
   lead_time: { median_days: number; p90_days: number; trend: 'improving' | 'declining' | 'stable' } | { note: string };
   flow_efficiency: {
@@ -15,9 +29,77 @@ export interface DeliveryMetrics {
     currently_blocked: number;
   };
   dora_tier: 'Elite' | 'High' | 'Medium' | 'Low' | 'unknown';
+  estimation: {
+    unit: EstimateUnit;
+    estimated_tasks: number;
+    unestimated_tasks: number;
+    buckets: EstimationBucket[];
+    // Only for hour estimates; points have no absolute scale to be optimistic against
+    bias: 'optimistic' | 'pessimistic' | 'accurate' | null;
+  };
   insights: string[];
 }
 
+// Upper bounds of the size buckets for each estimate unit
+const SIZE_BUCKETS: Record<EstimateUnit, number[]> = {
+  points: [1, 2, 3, 5, 8, 13],
+  hours: [2, 4, 8, 16, 40],
+};
+
+// Ideal hours of focused work in a calendar day, to turn hour estimates into lead time
+const IDEAL_HOURS_PER_DAY = 6;
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function bucketLabel(unit: EstimateUnit, estimate: number): string {
+  const bounds = SIZE_BUCKETS[unit];
+  const bound = bounds.find(b => estimate <= b);
+  return bound !== undefined ? `≤${bound}` : `>${bounds[bounds.length - 1]}`;
+}
+
+// Compare lead times of estimated tasks with what their size predicts. Hours map
+// directly to days; points are calibrated against the median days per point, so
+// their ratios show which sizes are off relative to the rest.
+function estimationAccuracy(
+  unit: EstimateUnit,
+  tasks: { lead_days: number; estimate: number | null }[],
+): Pick<DeliveryMetrics['estimation'], 'buckets' | 'bias'> & { ratio: number | null } {
+  const estimated = tasks.filter((t): t is { lead_days: number; estimate: number } => t.estimate !== null);
+  if (estimated.length === 0) return { buckets: [], bias: null, ratio: null };
+
+  const daysPerUnit = unit === 'hours'
+    ? 1 / IDEAL_HOURS_PER_DAY
+    : percentile(estimated.map(t => t.lead_days / t.estimate).sort((a, b) => a - b), 50);
+
+  // Smallest sizes first
+  const groups = new Map<string, typeof estimated>();
+  for (const t of [...estimated].sort((a, b) => a.estimate - b.estimate)) {
+    const label = bucketLabel(unit, t.estimate);
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(t);
+  }
+  const buckets = [...groups].map(([size, group]) => {
+    const medianEstimate = percentile(group.map(t => t.estimate).sort((a, b) => a - b), 50);
+    const medianLead = percentile(group.map(t => t.lead_days).sort((a, b) => a - b), 50);
+    const expected = medianEstimate * daysPerUnit;
+    return {
+      size,
+      tasks: group.length,
+      median_estimate: medianEstimate,
+      expected_days: round1(expected),
+      median_lead_days: round1(medianLead),
+      ratio: expected > 0 ? round1(medianLead / expected) : 0,
+    };
+  });
+
+  if (unit === 'points') return { buckets, bias: null, ratio: null };
+  const ratio = percentile(estimated.map(t => t.lead_days / (t.estimate * daysPerUnit)).sort((a, b) => a - b), 50);
+  const bias = ratio > 1.25 ? 'optimistic' : ratio < 0.8 ? 'pessimistic' : 'accurate';
+  return { buckets, bias, ratio: round1(ratio) };
+}
+
 function percentile(sorted: number[], p: number): number {
   if (sorted.length === 0) return 0;
   return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
@@ -53,15 +135,15 @@ export function computeDeliveryMetrics(
   const w = `datetime('now', '-${days} days')`;
   const pw = `datetime('now', '-${days * 2} days')`;
 
-  type LeadRow = { lead_days: number };
+  type LeadRow = { lead_days: number; estimate: number | null };
   const completed = db.prepare(
-    `SELECT julianday(completed_at) - julianday(created_at) AS lead_days
-     FROM tasks WHERE project_id = ? AND status = 'done' AND completed_at >= ${w}`,
+    `SELECT julianday(completed_at) - julianday(created_at) AS lead_days, estimate
+     FROM tasks t WHERE project_id = ? AND deleted_at IS NULL AND ${statusCategorySql('t')} = 'done' AND completed_at >= ${w}`,
   ).all(projectId) as LeadRow[];
 
   const prevCompleted = db.prepare(
-    `SELECT julianday(completed_at) - julianday(created_at) AS lead_days
-     FROM tasks WHERE project_id = ? AND status = 'done'
+    `SELECT julianday(completed_at) - julianday(created_at) AS lead_days, estimate
+     FROM tasks t WHERE project_id = ? AND deleted_at IS NULL AND ${statusCategorySql('t')} = 'done'
      AND completed_at >= ${pw} AND completed_at < ${w}`,
   ).all(projectId) as LeadRow[];
 
@@ -70,12 +152,15 @@ export function computeDeliveryMetrics(
   const completedCount = completed.length;
   const prevCount = prevCompleted.length;
 
-  // Status-change events in window
-  type HistRow = { task_id: string; new_value: string; old_value: string; created_at: string };
+  // Status-change events in window (automatic unblocks are status changes too),
+  // with the workflow category of the statuses on either side
+  type HistRow = { task_id: string; new_category: string | null; old_category: string | null; created_at: string };
   const events = db.prepare(
-    `SELECT h.task_id, h.new_value, h.old_value, h.created_at
+    `SELECT h.task_id, wn.category AS new_category, wo.category AS old_category, h.created_at
      FROM task_history h JOIN tasks t ON h.task_id = t.id
-     WHERE t.project_id = ? AND h.event = 'status_changed' AND h.created_at >= ${w}
+     LEFT JOIN workflow_statuses wn ON wn.project_id = t.project_id AND wn.key = h.new_value
+     LEFT JOIN workflow_statuses wo ON wo.project_id = t.project_id AND wo.key = h.old_value
+     WHERE t.project_id = ? AND t.deleted_at IS NULL AND h.event IN ('status_changed', 'unblocked') AND h.created_at >= ${w}
      ORDER BY h.task_id, h.created_at ASC`,
   ).all(projectId) as HistRow[];
 
@@ -92,10 +177,10 @@ export function computeDeliveryMetrics(
   for (const [tid, evs] of byTask) {
     let blockedAt: number | null = null;
     for (const ev of evs) {
-      if (ev.new_value === 'blocked') {
+      if (ev.new_category === 'blocked') {
         blockedIds.add(tid);
         blockedAt = new Date(ev.created_at).getTime();
-      } else if (blockedAt !== null && ev.old_value === 'blocked') {
+      } else if (blockedAt !== null && ev.old_category === 'blocked') {
         totalBlockedDays += (new Date(ev.created_at).getTime() - blockedAt) / 86_400_000;
         blockedPairs++;
         blockedAt = null;
@@ -104,7 +189,7 @@ export function computeDeliveryMetrics(
   }
 
   const currentlyBlocked = (db.prepare(
-    `SELECT COUNT(*) as n FROM tasks WHERE project_id = ? AND status = 'blocked'`,
+    `SELECT COUNT(*) as n FROM tasks t WHERE project_id = ? AND deleted_at IS NULL AND ${statusCategorySql('t')} = 'blocked'`,
   ).get(projectId) as { n: number }).n;
 
   const perWeekAvg = Math.round((completedCount / (days / 7)) * 10) / 10;
@@ -114,6 +199,12 @@ export function computeDeliveryMetrics(
   const blockedRatePct = touchedIds.size > 0 ? Math.round((blockedIds.size / touchedIds.size) * 100) : null;
   const avgBlockedDays = blockedPairs > 0 ? Math.round((totalBlockedDays / blockedPairs) * 10) / 10 : null;
 
+  const unit = ((db.prepare('SELECT estimate_unit FROM projects WHERE id = ?').get(projectId) as { estimate_unit: EstimateUnit } | undefined)
+    ?.estimate_unit) ?? 'points';
+  const estimatedCount = completed.filter(r => r.estimate !== null).length;
+  const { ratio: estimateRatio, ...accuracy } = estimationAccuracy(unit, completed);
+  const pointsCompleted = completed.reduce((sum, r) => sum + (r.estimate ?? 0), 0);
+
   const throughputTrend = tpTrend(completedCount, prevCount);
   const leadTrendVal = median !== null && prevMedian !== null ? ltTrend(median, prevMedian) : 'stable';
 
@@ -126,17 +217,35 @@ export function computeDeliveryMetrics(
     if (leadTrendVal === 'declining' && median !== null) insights.push(`Lead time worsened — median now ${median.toFixed(1)} days (was ${prevMedian!.toFixed(1)}).`);
     if (leadTrendVal === 'improving' && median !== null) insights.push(`Lead time improved — median now ${median.toFixed(1)} days (was ${prevMedian!.toFixed(1)}).`);
   }
+  if (accuracy.bias === 'optimistic' || accuracy.bias === 'pessimistic') {
+    insights.push(`Hour estimates are ${accuracy.bias} — tasks took a median ${estimateRatio}× their estimated time.`);
+  }
+  const skewed = accuracy.buckets.filter(b => b.ratio >= 1.5);
+  if (unit === 'points' && skewed.length > 0 && accuracy.buckets.length > 1) {
+    insights.push(`Tasks sized ${skewed.map(b => b.size).join(', ')} points take longer than their size suggests — consider sizing them up or splitting them.`);
+  }
   if (currentlyBlocked > 0) insights.push(`${currentlyBlocked} task${currentlyBlocked > 1 ? 's' : ''} currently blocked.`);
 
   return {
     project: projectName,
     period: `last ${days} days`,
-    throughput: { tasks_completed: completedCount, per_week_avg: perWeekAvg, trend: throughputTrend },
+    throughput: {
+      tasks_completed: completedCount,
+      per_week_avg: perWeekAvg,
+      trend: throughputTrend,
+      ...(unit === 'points' ? { points_completed: pointsCompleted, points_per_week_avg: round1(pointsCompleted / (days / 7)) } : {}),
+    },
     lead_time: median !== null
       ? { median_days: Math.round(median * 10) / 10, p90_days: Math.round((p90 ?? 0) * 10) / 10, trend: leadTrendVal }
       : { note: 'No completed tasks in this period.' },
     flow_efficiency: { blocked_rate_pct: blockedRatePct, avg_blocked_days: avgBlockedDays, currently_blocked: currentlyBlocked },
     dora_tier: doraLabel(leadTimes),
+    estimation: {
+      unit,
+      estimated_tasks: estimatedCount,
+      unestimated_tasks: completedCount - estimatedCount,
+      ...accuracy,
+    },
     insights,
   };
 }
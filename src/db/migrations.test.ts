@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations, MIGRATIONS, DatabaseTooNewError, type Migration } from './migrations.js';
+
+let db: Database.Database;
+
+beforeEach(() => {
+  db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+});
+
+afterEach(() => {
+  db.close();
+});
+
+const latest = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function appliedVersions(): number[] {
+  return (db.prepare('SELECT version FROM schema_migrations ORDER BY version').all() as { version: number }[])
+    .map(r => r.version);
+}
+
+describe('runMigrations', () => {
+  it('applies every migration to a fresh database and records it', () => {
+    const report = runMigrations(db);
+    expect(report.from_version).toBe(0);
+    expect(report.to_version).toBe(latest);
+    expect(report.pending).toHaveLength(MIGRATIONS.length);
+    expect(appliedVersions()).toEqual(MIGRATIONS.map(m => m.version));
+  });
+
+  it('declares migrations in strictly increasing version order', () => {
+    const versions = MIGRATIONS.map(m => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  it('is a no-op on a second run', () => {
+    runMigrations(db);
+    const report = runMigrations(db);
+    expect(report.pending).toEqual([]);
+    expect(report.from_version).toBe(latest);
+    expect(report.to_version).toBe(latest);
+  });
+
+  it('dry run reports pending migrations without writing anything', () => {
+    const report = runMigrations(db, { dryRun: true });
+    expect(report.dry_run).toBe(true);
+    expect(report.pending.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(report.to_version).toBe(0);
+    const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all();
+    expect(tables).toEqual([]);
+  });
+
+  it('refuses a database written by a newer version', () => {
+    runMigrations(db);
+    db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, 'from_the_future')").run(latest + 1);
+    expect(() => runMigrations(db)).toThrow(DatabaseTooNewError);
+    expect(() => runMigrations(db, { dryRun: true })).toThrow(DatabaseTooNewError);
+  });
+
+  it('rolls back a failing migration and leaves it pending', () => {
+    const migrations: Migration[] = [
+      { version: 1, name: 'create_a', up: (d) => d.exec('CREATE TABLE a (id TEXT)') },
+      {
+        version: 2,
+        name: 'broken',
+        up: (d) => {
+          d.exec('CREATE TABLE b (id TEXT)');
+          throw new Error('boom');
+        },
+      },
+    ];
+    expect(() => runMigrations(db, { migrations })).toThrow('boom');
+    expect(appliedVersions()).toEqual([1]);
+    expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'b'").get()).toBeUndefined();
+  });
+
+  it('upgrades a pre-framework database without losing rows', () => {
+    db.exec(`
+      CREATE TABLE projects (id TEXT PRIMARY KEY, name TEXT NOT NULL UNIQUE, description TEXT,
+        status TEXT DEFAULT 'active', repo_path TEXT, tech_stack TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+      CREATE TABLE tasks (id TEXT PRIMARY KEY, project_id TEXT NOT NULL REFERENCES projects(id), title TEXT NOT NULL,
+        description TEXT, status TEXT DEFAULT 'todo' CHECK(status IN ('todo', 'in_progress', 'blocked', 'done', 'cancelled')),
+        priority TEXT DEFAULT 'medium', tags TEXT, parent_task_id TEXT REFERENCES tasks(id), blocked_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP, updated_at DATETIME DEFAULT CURRENT_TIMESTAMP, completed_at DATETIME);
+      CREATE TABLE decisions (id TEXT PRIMARY KEY, project_id TEXT NOT NULL REFERENCES projects(id), title TEXT NOT NULL,
+        decision TEXT NOT NULL, reasoning TEXT, alternatives TEXT, tags TEXT, created_at DATETIME DEFAULT CURRENT_TIMESTAMP);
+      INSERT INTO projects (id, name) VALUES ('p1', 'Old Project');
+      INSERT INTO tasks (id, project_id, title, tags) VALUES ('t1', 'p1', 'First', '["Backend","auth","backend "]');
+      INSERT INTO decisions (id, project_id, title, decision, tags) VALUES ('d1', 'p1', 'D', 'X', 'not json');
+      INSERT INTO tasks (id, project_id, title, status, blocked_by) VALUES ('t2', 'p1', 'Second', 'blocked', '["t1","ghost"]');
+    `);
+
+    runMigrations(db);
+
+    expect((db.prepare("SELECT slug FROM projects WHERE id = 'p1'").get() as any).slug).toBe('op');
+    const seqs = db.prepare('SELECT seq FROM tasks ORDER BY seq').all().map((r: any) => r.seq);
+    expect(seqs).toEqual([1, 2]);
+    expect(() => db.prepare("UPDATE tasks SET status = 'in_review' WHERE id = 't1'").run()).not.toThrow();
+    const created = db.prepare("SELECT COUNT(*) AS n FROM task_history WHERE event = 'created'").get() as { n: number };
+    expect(created.n).toBe(2);
+    const deps = db.prepare('SELECT task_id, blocked_by_id FROM task_dependencies').all();
+    expect(deps).toEqual([{ task_id: 't2', blocked_by_id: 't1' }]);
+    expect((db.pragma('table_info(tasks)') as { name: string }[]).map(c => c.name)).not.toContain('blocked_by');
+    const taskTags = db.prepare('SELECT g.name FROM task_tags j JOIN tags g ON g.id = j.tag_id ORDER BY j.rowid').all();
+    expect(taskTags).toEqual([{ name: 'backend' }, { name: 'auth' }]);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM decision_tags').get()).toEqual({ n: 0 });
+    expect((db.pragma('table_info(tasks)') as { name: string }[]).map(c => c.name)).not.toContain('tags');
+    const workflow = db.prepare("SELECT key FROM workflow_statuses WHERE project_id = 'p1' ORDER BY position").all().map((r: any) => r.key);
+    expect(workflow).toEqual(['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled']);
+    expect(() => db.prepare("UPDATE tasks SET status = 'shipped' WHERE id = 't1'").run()).toThrow(/not part of the project workflow/);
+    expect(appliedVersions()).toEqual(MIGRATIONS.map(m => m.version));
+  });
+  it('moves supersedes links into decisions.supersedes', () => {
+    runMigrations(db, { migrations: MIGRATIONS.filter(m => m.version < 27) });
+    db.exec(`
+      INSERT INTO projects (id, name, slug) VALUES ('p1', 'P', 'p');
+      INSERT INTO decisions (id, project_id, title, decision) VALUES ('d1', 'p1', 'Old', 'X'), ('d2', 'p1', 'New', 'Y'), ('d3', 'p1', 'Newer', 'Z');
+      INSERT INTO links (id, project_id, source_type, source_id, target_type, target_id, link_type, created_at) VALUES
+        ('l1', 'p1', 'decision', 'd2', 'decision', 'd1', 'supersedes', '2024-01-01'),
+        ('l2', 'p1', 'decision', 'd3', 'decision', 'd1', 'supersedes', '2024-01-02');
+    `);
+
+    runMigrations(db);
+
+    expect(db.prepare('SELECT id, status, supersedes FROM decisions ORDER BY id').all()).toEqual([
+      { id: 'd1', status: 'superseded', supersedes: null },
+      { id: 'd2', status: 'accepted', supersedes: 'd1' },
+      { id: 'd3', status: 'accepted', supersedes: null },
+    ]);
+    // d1 was already replaced by d2, so the second link is kept as a plain relation
+    expect(db.prepare('SELECT id, link_type FROM links').all()).toEqual([{ id: 'l2', link_type: 'relates_to' }]);
+  });
+});
@@ -0,0 +1,727 @@
+import type Database from 'better-sqlite3';
+import { createSchema } from './schema.js';
+import { generateSlug, generateId } from '../utils/ids.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Table rebuilds need foreign key enforcement off while the old table is dropped.
+  // The runner turns it off outside the transaction and, before commit, fails the
+  // migration if foreign_key_check reports more violations than it did beforehand.
+  disableForeignKeys?: boolean;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationReport {
+  from_version: number;
+  to_version: number;
+  // Migrations that were pending when the run started: applied, unless dry_run is set.
+  pending: { version: number; name: string }[];
+  dry_run: boolean;
+}
+
+export class DatabaseTooNewError extends Error {
+  constructor(public dbVersion: number, public supportedVersion: number) {
+    super(
+      `Database schema version ${dbVersion} is newer than this mindpm supports (${supportedVersion}). ` +
+      'It was written by a newer mindpm release — upgrade mindpm before opening it.',
+    );
+    this.name = 'DatabaseTooNewError';
+  }
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as { name: string }[]).map(c => c.name);
+}
+
+// Migrations 2–6 replace the pre-framework runMigrations. Databases created before
+// schema_migrations existed may already have some of them applied, so each one
+// checks the current shape before changing it. New migrations must not rely on this.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline_schema',
+    up: (db) => createSchema(db),
+  },
+  {
+    version: 2,
+    name: 'projects_slug',
+    up: (db) => {
+      if (columnNames(db, 'projects').includes('slug')) return;
+      db.exec('ALTER TABLE projects ADD COLUMN slug TEXT');
+      // Backfill slugs for existing projects, making each unique
+      const projects = db.prepare('SELECT id, name FROM projects').all() as { id: string; name: string }[];
+      const usedSlugs = new Set<string>();
+      for (const p of projects) {
+        const slug = generateSlug(p.name);
+        let candidate = slug;
+        let n = 2;
+        while (usedSlugs.has(candidate)) {
+          candidate = slug + n++;
+        }
+        usedSlugs.add(candidate);
+        db.prepare('UPDATE projects SET slug = ? WHERE id = ?').run(candidate, p.id);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'tasks_seq',
+    up: (db) => {
+      if (!columnNames(db, 'tasks').includes('seq')) {
+        db.exec('ALTER TABLE tasks ADD COLUMN seq INTEGER');
+        // Backfill seq per project ordered by created_at
+        const projects = db.prepare('SELECT id FROM projects').all() as { id: string }[];
+        for (const p of projects) {
+          const tasks = db.prepare(
+            'SELECT id FROM tasks WHERE project_id = ? ORDER BY created_at ASC, id ASC'
+          ).all(p.id) as { id: string }[];
+          tasks.forEach((t, i) => {
+            db.prepare('UPDATE tasks SET seq = ? WHERE id = ?').run(i + 1, t.id);
+          });
+        }
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS idx_tasks_seq ON tasks(project_id, seq)');
+    },
+  },
+  {
+    version: 4,
+    name: 'decisions_task_id',
+    up: (db) => {
+      if (columnNames(db, 'decisions').includes('task_id')) return;
+      db.exec('ALTER TABLE decisions ADD COLUMN task_id TEXT REFERENCES tasks(id)');
+    },
+  },
+  {
+    version: 5,
+    name: 'tasks_in_review_status',
+    disableForeignKeys: true,
+    up: (db) => {
+      const tasksSql = (db.prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name='tasks'").get() as { sql: string } | undefined)?.sql ?? '';
+      if (tasksSql.includes('in_review')) return;
+      db.exec(`
+        CREATE TABLE tasks_new (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id),
+          seq INTEGER,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT DEFAULT 'todo' CHECK(status IN ('todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled')),
+          priority TEXT DEFAULT 'medium' CHECK(priority IN ('critical', 'high', 'medium', 'low')),
+          tags TEXT,
+          parent_task_id TEXT REFERENCES tasks(id),
+          blocked_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        );
+        INSERT INTO tasks_new (id, project_id, seq, title, description, status, priority, tags, parent_task_id, blocked_by, created_at, updated_at, completed_at)
+        SELECT id, project_id, seq, title, description, status, priority, tags, parent_task_id, blocked_by, created_at, updated_at, completed_at FROM tasks;
+        DROP TABLE tasks;
+        ALTER TABLE tasks_new RENAME TO tasks;
+
+        CREATE TRIGGER IF NOT EXISTS trg_tasks_updated_at
+        AFTER UPDATE ON tasks
+        FOR EACH ROW
+        WHEN NEW.updated_at = OLD.updated_at
+        BEGIN
+          UPDATE tasks SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        END;
+        CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
+        CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+        CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
+        CREATE INDEX IF NOT EXISTS idx_tasks_created_at ON tasks(created_at);
+        CREATE INDEX IF NOT EXISTS idx_tasks_seq ON tasks(project_id, seq);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'task_history_created_backfill',
+    up: (db) => {
+      const tasks = db.prepare(
+        `SELECT id, status, priority, created_at FROM tasks t
+         WHERE NOT EXISTS (SELECT 1 FROM task_history h WHERE h.task_id = t.id AND h.event = 'created')`
+      ).all() as { id: string; status: string; priority: string; created_at: string }[];
+      const insert = db.prepare('INSERT INTO task_history (id, task_id, event, new_value, created_at) VALUES (?, ?, ?, ?, ?)');
+      for (const t of tasks) {
+        insert.run(generateId(), t.id, 'created', JSON.stringify({ status: t.status, priority: t.priority }), t.created_at);
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'task_dependencies',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE task_dependencies (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          blocked_by_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (task_id, blocked_by_id),
+          CHECK (task_id != blocked_by_id)
+        );
+        CREATE INDEX idx_task_dependencies_blocked_by_id ON task_dependencies(blocked_by_id);
+      `);
+
+      // Carry over the JSON blocked_by lists, dropping IDs that no longer exist
+      // and any edge that would close a cycle.
+      const rows = db.prepare("SELECT id, blocked_by FROM tasks WHERE blocked_by IS NOT NULL AND blocked_by != ''").all() as { id: string; blocked_by: string }[];
+      const exists = db.prepare('SELECT 1 FROM tasks WHERE id = ?');
+      const closesCycle = db.prepare(
+        `WITH RECURSIVE upstream(id) AS (
+           SELECT blocked_by_id FROM task_dependencies WHERE task_id = @start
+           UNION
+           SELECT d.blocked_by_id FROM task_dependencies d JOIN upstream u ON d.task_id = u.id
+         )
+         SELECT 1 FROM upstream WHERE id = @target LIMIT 1`
+      );
+      const insert = db.prepare('INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by_id) VALUES (?, ?)');
+      for (const row of rows) {
+        let ids: unknown;
+        try {
+          ids = JSON.parse(row.blocked_by);
+        } catch {
+          continue;
+        }
+        if (!Array.isArray(ids)) continue;
+        for (const blockerId of ids) {
+          if (typeof blockerId !== 'string' || blockerId === row.id || !exists.get(blockerId)) continue;
+          if (closesCycle.get({ start: blockerId, target: row.id })) continue;
+          insert.run(row.id, blockerId);
+        }
+      }
+
+      db.exec('ALTER TABLE tasks DROP COLUMN blocked_by');
+    },
+  },
+  {
+    version: 8,
+    name: 'normalized_tags',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE tags (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (project_id, name)
+        );
+        CREATE TABLE task_tags (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (task_id, tag_id)
+        );
+        CREATE TABLE note_tags (
+          note_id TEXT NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+          tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (note_id, tag_id)
+        );
+        CREATE TABLE decision_tags (
+          decision_id TEXT NOT NULL REFERENCES decisions(id) ON DELETE CASCADE,
+          tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          PRIMARY KEY (decision_id, tag_id)
+        );
+        CREATE INDEX idx_task_tags_tag_id ON task_tags(tag_id);
+        CREATE INDEX idx_note_tags_tag_id ON note_tags(tag_id);
+        CREATE INDEX idx_decision_tags_tag_id ON decision_tags(tag_id);
+      `);
+
+      // Carry over the JSON tag lists. Names are trimmed and lower-cased so
+      // "Backend" and "backend" become one tag; anything unparseable is dropped.
+      const findTag = db.prepare('SELECT id FROM tags WHERE project_id = ? AND name = ?');
+      const insertTag = db.prepare('INSERT INTO tags (id, project_id, name) VALUES (?, ?, ?)');
+      for (const [table, joinTable, column] of [
+        ['tasks', 'task_tags', 'task_id'],
+        ['notes', 'note_tags', 'note_id'],
+        ['decisions', 'decision_tags', 'decision_id'],
+      ]) {
+        const attach = db.prepare(`INSERT OR IGNORE INTO ${joinTable} (${column}, tag_id) VALUES (?, ?)`);
+        const rows = db.prepare(`SELECT id, project_id, tags FROM ${table} WHERE tags IS NOT NULL AND tags != ''`).all() as { id: string; project_id: string; tags: string }[];
+        for (const row of rows) {
+          let names: unknown;
+          try {
+            names = JSON.parse(row.tags);
+          } catch {
+            continue;
+          }
+          if (!Array.isArray(names)) continue;
+          for (const raw of names) {
+            if (typeof raw !== 'string') continue;
+            const name = raw.trim().replace(/\s+/g, ' ').toLowerCase();
+            if (!name) continue;
+            let tag = findTag.get(row.project_id, name) as { id: string } | undefined;
+            if (!tag) {
+              tag = { id: generateId() };
+              insertTag.run(tag.id, row.project_id, name);
+            }
+            attach.run(row.id, tag.id);
+          }
+        }
+        db.exec(`ALTER TABLE ${table} DROP COLUMN tags`);
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'soft_delete',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN deleted_at DATETIME;
+        ALTER TABLE notes ADD COLUMN deleted_at DATETIME;
+        ALTER TABLE decisions ADD COLUMN deleted_at DATETIME;
+        CREATE INDEX idx_tasks_deleted_at ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+        CREATE INDEX idx_notes_deleted_at ON notes(deleted_at) WHERE deleted_at IS NOT NULL;
+        CREATE INDEX idx_decisions_deleted_at ON decisions(deleted_at) WHERE deleted_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'project_workflows',
+    disableForeignKeys: true,
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE workflow_statuses (
+          project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+          key TEXT NOT NULL,
+          label TEXT NOT NULL,
+          category TEXT NOT NULL CHECK(category IN ('not_started', 'active', 'blocked', 'review', 'done', 'cancelled')),
+          position INTEGER NOT NULL,
+          PRIMARY KEY (project_id, key)
+        );
+        CREATE TABLE workflow_transitions (
+          project_id TEXT NOT NULL,
+          from_status TEXT NOT NULL,
+          to_status TEXT NOT NULL,
+          PRIMARY KEY (project_id, from_status, to_status),
+          FOREIGN KEY (project_id, from_status) REFERENCES workflow_statuses(project_id, key) ON DELETE CASCADE ON UPDATE CASCADE,
+          FOREIGN KEY (project_id, to_status) REFERENCES workflow_statuses(project_id, key) ON DELETE CASCADE ON UPDATE CASCADE
+        );
+
+        -- Every project starts with the statuses mindpm has always had, with no transition rules
+        CREATE TRIGGER trg_projects_default_workflow
+        AFTER INSERT ON projects
+        FOR EACH ROW
+        BEGIN
+          INSERT INTO workflow_statuses (project_id, key, label, category, position) VALUES
+            (NEW.id, 'todo', 'Todo', 'not_started', 0),
+            (NEW.id, 'in_progress', 'In Progress', 'active', 1),
+            (NEW.id, 'blocked', 'Blocked', 'blocked', 2),
+            (NEW.id, 'in_review', 'In Review', 'review', 3),
+            (NEW.id, 'done', 'Done', 'done', 4),
+            (NEW.id, 'cancelled', 'Cancelled', 'cancelled', 5);
+        END;
+
+        INSERT INTO workflow_statuses (project_id, key, label, category, position)
+        SELECT p.id, s.key, s.label, s.category, s.position FROM projects p, (
+          SELECT 'todo' AS key, 'Todo' AS label, 'not_started' AS category, 0 AS position
+          UNION ALL SELECT 'in_progress', 'In Progress', 'active', 1
+          UNION ALL SELECT 'blocked', 'Blocked', 'blocked', 2
+          UNION ALL SELECT 'in_review', 'In Review', 'review', 3
+          UNION ALL SELECT 'done', 'Done', 'done', 4
+          UNION ALL SELECT 'cancelled', 'Cancelled', 'cancelled', 5
+        ) s;
+
+        -- Status is now validated against the project's workflow instead of a CHECK constraint
+        CREATE TABLE tasks_new (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id),
+          seq INTEGER,
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT NOT NULL DEFAULT 'todo',
+          priority TEXT DEFAULT 'medium' CHECK(priority IN ('critical', 'high', 'medium', 'low')),
+          parent_task_id TEXT REFERENCES tasks(id),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME,
+          deleted_at DATETIME
+        );
+        INSERT INTO tasks_new (id, project_id, seq, title, description, status, priority, parent_task_id, created_at, updated_at, completed_at, deleted_at)
+        SELECT id, project_id, seq, title, description, COALESCE(status, 'todo'), priority, parent_task_id, created_at, updated_at, completed_at, deleted_at FROM tasks;
+        DROP TABLE tasks;
+        ALTER TABLE tasks_new RENAME TO tasks;
+
+        CREATE TRIGGER trg_tasks_updated_at
+        AFTER UPDATE ON tasks
+        FOR EACH ROW
+        WHEN NEW.updated_at = OLD.updated_at
+        BEGIN
+          UPDATE tasks SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
+        END;
+        CREATE TRIGGER trg_tasks_status_insert
+        BEFORE INSERT ON tasks
+        FOR EACH ROW
+        WHEN NOT EXISTS (SELECT 1 FROM workflow_statuses WHERE project_id = NEW.project_id AND key = NEW.status)
+        BEGIN
+          SELECT RAISE(ABORT, 'status is not part of the project workflow');
+        END;
+        CREATE TRIGGER trg_tasks_status_update
+        BEFORE UPDATE OF status, project_id ON tasks
+        FOR EACH ROW
+        WHEN NOT EXISTS (SELECT 1 FROM workflow_statuses WHERE project_id = NEW.project_id AND key = NEW.status)
+        BEGIN
+          SELECT RAISE(ABORT, 'status is not part of the project workflow');
+        END;
+        CREATE INDEX idx_tasks_project_id ON tasks(project_id);
+        CREATE INDEX idx_tasks_status ON tasks(status);
+        CREATE INDEX idx_tasks_priority ON tasks(priority);
+        CREATE INDEX idx_tasks_created_at ON tasks(created_at);
+        CREATE INDEX idx_tasks_seq ON tasks(project_id, seq);
+        CREATE INDEX idx_tasks_deleted_at ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'custom_fields',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE custom_fields (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+          key TEXT NOT NULL,
+          label TEXT NOT NULL,
+          type TEXT NOT NULL CHECK(type IN ('text', 'number', 'enum', 'date', 'url')),
+          options TEXT,
+          position INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (project_id, key)
+        );
+        CREATE TABLE task_field_values (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          field_id TEXT NOT NULL REFERENCES custom_fields(id) ON DELETE CASCADE,
+          value TEXT NOT NULL,
+          PRIMARY KEY (task_id, field_id)
+        );
+        CREATE INDEX idx_task_field_values_field ON task_field_values(field_id, value);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'task_dates',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE tasks ADD COLUMN start_at TEXT;
+        ALTER TABLE tasks ADD COLUMN due_at TEXT;
+        CREATE INDEX idx_tasks_due_at ON tasks(due_at) WHERE due_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'task_estimates',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE projects ADD COLUMN estimate_unit TEXT NOT NULL DEFAULT 'points' CHECK(estimate_unit IN ('points', 'hours'));
+        ALTER TABLE tasks ADD COLUMN estimate REAL CHECK(estimate IS NULL OR estimate > 0);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'milestones',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE milestones (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          goal TEXT,
+          start_at TEXT,
+          end_at TEXT,
+          status TEXT NOT NULL DEFAULT 'planned' CHECK(status IN ('planned', 'active', 'closed')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          closed_at DATETIME,
+          UNIQUE (project_id, name)
+        );
+        ALTER TABLE tasks ADD COLUMN milestone_id TEXT REFERENCES milestones(id) ON DELETE SET NULL;
+        CREATE INDEX idx_tasks_milestone ON tasks(milestone_id) WHERE milestone_id IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'people',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE people (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL DEFAULT 'human' CHECK(kind IN ('human', 'agent')),
+          handle TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        ALTER TABLE tasks ADD COLUMN assignee_id TEXT REFERENCES people(id) ON DELETE SET NULL;
+        ALTER TABLE tasks ADD COLUMN reviewer_id TEXT REFERENCES people(id) ON DELETE SET NULL;
+        CREATE INDEX idx_tasks_assignee ON tasks(assignee_id) WHERE assignee_id IS NOT NULL;
+        CREATE INDEX idx_tasks_reviewer ON tasks(reviewer_id) WHERE reviewer_id IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'task_claims',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE task_claims (
+          task_id TEXT PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+          agent TEXT NOT NULL,
+          claimed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          expires_at DATETIME NOT NULL
+        );
+        CREATE INDEX idx_task_claims_expires ON task_claims(expires_at);
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'actor_attribution',
+    up: (db) => {
+      for (const table of ['tasks', 'notes', 'decisions', 'context', 'sessions']) {
+        db.exec(`
+          ALTER TABLE ${table} ADD COLUMN created_by TEXT;
+          ALTER TABLE ${table} ADD COLUMN updated_by TEXT;
+        `);
+      }
+      db.exec('ALTER TABLE task_history ADD COLUMN actor TEXT');
+    },
+  },
+  {
+    version: 18,
+    name: 'audit_log',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE audit_log (
+          id TEXT PRIMARY KEY,
+          project_id TEXT,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          action TEXT NOT NULL CHECK(action IN ('create', 'update', 'delete', 'restore')),
+          actor TEXT,
+          before TEXT,
+          after TEXT,
+          changes TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+        CREATE INDEX idx_audit_log_project ON audit_log(project_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'audit_operations',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE audit_log ADD COLUMN operation_id TEXT;
+        ALTER TABLE audit_log ADD COLUMN undone_by TEXT;
+        UPDATE audit_log SET operation_id = id;
+        CREATE INDEX idx_audit_log_operation ON audit_log(operation_id);
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: 'task_comments',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE task_comments (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id),
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          author TEXT NOT NULL,
+          body TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          edited_at DATETIME
+        );
+        CREATE INDEX idx_task_comments_task ON task_comments(task_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 21,
+    name: 'links',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE links (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL REFERENCES projects(id),
+          source_type TEXT NOT NULL CHECK(source_type IN ('task', 'note', 'decision', 'session')),
+          source_id TEXT NOT NULL,
+          target_type TEXT NOT NULL CHECK(target_type IN ('task', 'note', 'decision', 'session')),
+          target_id TEXT NOT NULL,
+          link_type TEXT NOT NULL CHECK(link_type IN ('relates_to', 'duplicates', 'implements', 'caused_by', 'supersedes')),
+          created_by TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(source_id, target_id, link_type)
+        );
+        CREATE INDEX idx_links_source ON links(source_id);
+        CREATE INDEX idx_links_target ON links(target_id);
+      `);
+    },
+  },
+  {
+    version: 22,
+    name: 'decision_status',
+    up: (db) => {
+      // Decisions logged so far were recorded as made, so they start out accepted
+      db.exec(`
+        ALTER TABLE decisions ADD COLUMN status TEXT NOT NULL DEFAULT 'accepted'
+          CHECK(status IN ('proposed', 'accepted', 'rejected', 'superseded', 'deprecated'));
+        ALTER TABLE decisions ADD COLUMN supersedes TEXT REFERENCES decisions(id);
+        CREATE INDEX idx_decisions_supersedes ON decisions(supersedes) WHERE supersedes IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 23,
+    name: 'decision_revisit',
+    up: (db) => {
+      // revisit_at is a YYYY-MM-DD date; revisit_when is free text ("past 10k users")
+      db.exec(`
+        ALTER TABLE decisions ADD COLUMN revisit_at TEXT;
+        ALTER TABLE decisions ADD COLUMN revisit_when TEXT;
+        CREATE INDEX idx_decisions_revisit_at ON decisions(revisit_at) WHERE revisit_at IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 24,
+    name: 'decision_adr_number',
+    up: (db) => {
+      // The number of the ADR file a decision was exported to or imported from
+      db.exec(`
+        ALTER TABLE decisions ADD COLUMN adr_number INTEGER;
+        CREATE UNIQUE INDEX idx_decisions_adr_number ON decisions(project_id, adr_number) WHERE adr_number IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 25,
+    name: 'note_revisions',
+    up: (db) => {
+      // Earlier versions of a note, saved when it is rewritten: `author` wrote this
+      // version, `replaced_by` rewrote it at `replaced_at`
+      db.exec(`
+        CREATE TABLE note_revisions (
+          id TEXT PRIMARY KEY,
+          note_id TEXT NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+          revision INTEGER NOT NULL,
+          content TEXT NOT NULL,
+          category TEXT,
+          author TEXT,
+          replaced_by TEXT,
+          replaced_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(note_id, revision)
+        );
+      `);
+    },
+  },
+  {
+    version: 26,
+    name: 'pinned_notes',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE notes ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+        CREATE INDEX idx_notes_pinned ON notes(project_id) WHERE pinned = 1;
+      `);
+    },
+  },
+  {
+    version: 27,
+    name: 'supersedes_links',
+    up: (db) => {
+      // Supersession is kept in decisions.supersedes only. Each supersedes link, oldest
+      // first, moves there and marks the older decision superseded, unless either side
+      // already has a supersession or it would close a loop; those become relates_to.
+      const links = db.prepare("SELECT id, source_id, target_id FROM links WHERE link_type = 'supersedes' ORDER BY created_at, rowid")
+        .all() as { id: string; source_id: string; target_id: string }[];
+      const supersedes = db.prepare('SELECT supersedes FROM decisions WHERE id = ?');
+      const replaced = db.prepare('SELECT 1 FROM decisions WHERE supersedes = ?');
+      for (const link of links) {
+        const current = supersedes.get(link.source_id) as { supersedes: string | null } | undefined;
+        let loop = false;
+        for (let id: string | null = link.target_id; id !== null && !loop; id = (supersedes.get(id) as { supersedes: string | null } | undefined)?.supersedes ?? null) {
+          loop = id === link.source_id;
+        }
+        if (current && current.supersedes === null && !replaced.get(link.target_id) && !loop) {
+          db.prepare('UPDATE decisions SET supersedes = ? WHERE id = ?').run(link.target_id, link.source_id);
+          db.prepare("UPDATE decisions SET status = 'superseded' WHERE id = ?").run(link.target_id);
+          db.prepare('DELETE FROM links WHERE id = ?').run(link.id);
+        } else {
+          db.prepare("UPDATE OR IGNORE links SET link_type = 'relates_to' WHERE id = ?").run(link.id);
+        }
+      }
+      db.exec("DELETE FROM links WHERE link_type = 'supersedes'");
+    },
+  },
+];
+
+function getAppliedVersions(db: Database.Database): Set<number> {
+  const table = db.prepare("SELECT name FROM sqlite_master WHERE type='table' AND name='schema_migrations'").get();
+  if (!table) return new Set();
+  const rows = db.prepare('SELECT version FROM schema_migrations').all() as { version: number }[];
+  return new Set(rows.map(r => r.version));
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction.
+ * With dryRun, nothing is written and the report lists what would run.
+ * Throws DatabaseTooNewError if the database has migrations this build doesn't know.
+ */
+export function runMigrations(
+  db: Database.Database,
+  options: { dryRun?: boolean; migrations?: Migration[] } = {},
+): MigrationReport {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const target = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  const appliedVersions = getAppliedVersions(db);
+  const current = appliedVersions.size > 0 ? Math.max(...appliedVersions) : 0;
+
+  if (current > target) {
+    throw new DatabaseTooNewError(current, target);
+  }
+
+  const pending = migrations.filter(m => !appliedVersions.has(m.version));
+  const report: MigrationReport = {
+    from_version: current,
+    to_version: current,
+    pending: pending.map(m => ({ version: m.version, name: m.name })),
+    dry_run: !!options.dryRun,
+  };
+  if (options.dryRun) return report;
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const record = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+  for (const migration of pending) {
+    if (migration.disableForeignKeys) db.pragma('foreign_keys = OFF');
+    try {
+      db.transaction(() => {
+        const violationsBefore = migration.disableForeignKeys ? (db.pragma('foreign_key_check') as unknown[]).length : 0;
+        migration.up(db);
+        if (migration.disableForeignKeys) {
+          const violationsAfter = (db.pragma('foreign_key_check') as unknown[]).length;
+          if (violationsAfter > violationsBefore) {
+            throw new Error(`Migration ${migration.version} (${migration.name}) introduced ${violationsAfter - violationsBefore} foreign key violation(s)`);
+          }
+        }
+        record.run(migration.version, migration.name);
+      })();
+    } finally {
+      if (migration.disableForeignKeys) db.pragma('foreign_keys = ON');
+    }
+    report.to_version = migration.version;
+  }
+
+  return report;
+}
@@ -0,0 +1,143 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { isIsoDate } from '../utils/dates.js';
+import { statusCategorySql, categoryListSql, CLOSED_CATEGORIES } from './workflow.js';
+import { recordTaskHistory } from './queries.js';
+import { audited, auditOperation } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+export const MILESTONE_STATUSES = ['planned', 'active', 'closed'] as const;
+export type MilestoneStatus = (typeof MILESTONE_STATUSES)[number];
+
+export interface Milestone {
+  id: string;
+  name: string;
+  goal: string | null;
+  start_at: string | null;
+  end_at: string | null;
+  status: MilestoneStatus;
+  created_at: string;
+  closed_at: string | null;
+}
+
+type Priority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface MilestoneProgress extends Milestone {
+  // Cancelled tasks count towards neither
+  done: number;
+  total: number;
+  remaining_by_priority: Record<Priority, number>;
+}
+
+const MILESTONE_ORDER = `CASE status WHEN 'active' THEN 0 WHEN 'planned' THEN 1 ELSE 2 END, COALESCE(end_at, '9999-12-31'), created_at`;
+
+// Look up a milestone of the project by ID or (case-insensitive) name.
+export function resolveMilestone(projectId: string, ref: string): Milestone | undefined {
+  return getDb().prepare(
+    'SELECT id, name, goal, start_at, end_at, status, created_at, closed_at FROM milestones WHERE project_id = ? AND (id = ? OR name = ? COLLATE NOCASE)'
+  ).get(projectId, ref, ref) as Milestone | undefined;
+}
+
+// The milestone tasks can be assigned to, or why they can't.
+export function resolveOpenMilestone(projectId: string, ref: string): { id: string } | { error: string } {
+  const milestone = resolveMilestone(projectId, ref);
+  if (!milestone) {
+    const open = (getDb().prepare(
+      `SELECT name FROM milestones WHERE project_id = ? AND status != 'closed' ORDER BY ${MILESTONE_ORDER}`
+    ).all(projectId) as { name: string }[]).map(m => m.name);
+    return { error: `Milestone "${ref}" not found. ${open.length > 0 ? `Open milestones: ${open.join(', ')}.` : 'Create one with create_milestone.'}` };
+  }
+  if (milestone.status === 'closed') return { error: `Milestone "${milestone.name}" is closed.` };
+  return { id: milestone.id };
+}
+
+function checkMilestoneDates(start_at: string | null, end_at: string | null): string | null {
+  for (const [key, value] of [['start_at', start_at], ['end_at', end_at]] as const) {
+    if (value !== null && !isIsoDate(value)) return `${key} must be a date like 2025-01-31.`;
+  }
+  if (start_at && end_at && start_at > end_at) return `start_at (${start_at}) is after end_at (${end_at}).`;
+  return null;
+}
+
+export function createMilestone(
+  projectId: string,
+  input: { name: string; goal?: string; start_at?: string; end_at?: string; status?: Exclude<MilestoneStatus, 'closed'> },
+): { milestone: Milestone } | { error: string } {
+  const name = input.name.trim();
+  if (!name) return { error: 'Milestone name must not be empty.' };
+  if (resolveMilestone(projectId, name)) return { error: `Milestone "${name}" already exists.` };
+  const datesError = checkMilestoneDates(input.start_at ?? null, input.end_at ?? null);
+  if (datesError) return { error: datesError };
+
+  const id = generateId();
+  getDb().prepare(
+    'INSERT INTO milestones (id, project_id, name, goal, start_at, end_at, status) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(id, projectId, name, input.goal ?? null, input.start_at ?? null, input.end_at ?? null, input.status ?? 'planned');
+  return { milestone: resolveMilestone(projectId, id)! };
+}
+
+// Milestones with task progress, current ones first.
+export function listMilestones(projectId: string, options: { includeClosed?: boolean } = {}): MilestoneProgress[] {
+  const db = getDb();
+  const milestones = db.prepare(
+    `SELECT id, name, goal, start_at, end_at, status, created_at, closed_at FROM milestones
+     WHERE project_id = ? ${options.includeClosed ? '' : "AND status != 'closed'"} ORDER BY ${MILESTONE_ORDER}`
+  ).all(projectId) as Milestone[];
+
+  const counts = db.prepare(
+    `SELECT t.milestone_id, t.priority, ${statusCategorySql('t')} AS category, COUNT(*) AS n
+     FROM tasks t WHERE t.project_id = ? AND t.milestone_id IS NOT NULL AND t.deleted_at IS NULL
+     GROUP BY t.milestone_id, t.priority, category`
+  ).all(projectId) as { milestone_id: string; priority: Priority; category: string; n: number }[];
+
+  return milestones.map(m => {
+    const progress: MilestoneProgress = {
+      ...m, done: 0, total: 0, remaining_by_priority: { critical: 0, high: 0, medium: 0, low: 0 },
+    };
+    for (const c of counts) {
+      if (c.milestone_id !== m.id || c.category === 'cancelled') continue;
+      progress.total += c.n;
+      if (c.category === 'done') progress.done += c.n;
+      else progress.remaining_by_priority[c.priority] += c.n;
+    }
+    return progress;
+  });
+}
+
+// Close a milestone. Its unfinished tasks move to `moveTo` when given, and
+// otherwise stay attached so the closed milestone shows what slipped.
+export function closeMilestone(
+  projectId: string,
+  ref: string,
+  moveTo?: string,
+): { milestone: Milestone; open_tasks: number; moved_to: string | null } | { error: string } {
+  const db = getDb();
+  const milestone = resolveMilestone(projectId, ref);
+  if (!milestone) return { error: `Milestone "${ref}" not found.` };
+  if (milestone.status === 'closed') return { error: `Milestone "${milestone.name}" is already closed.` };
+
+  let target: Milestone | undefined;
+  if (moveTo !== undefined) {
+    const resolved = resolveOpenMilestone(projectId, moveTo);
+    if ('error' in resolved) return resolved;
+    if (resolved.id === milestone.id) return { error: 'Open tasks must move to a different milestone.' };
+    target = resolveMilestone(projectId, resolved.id);
+  }
+
+  const openTasks = (db.prepare(
+    `SELECT id FROM tasks WHERE milestone_id = ? AND deleted_at IS NULL AND ${statusCategorySql('tasks')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}`
+  ).all(milestone.id) as { id: string }[]).map(t => t.id);
+  auditOperation(db.transaction(() => {
+    if (target) {
+      const move = db.prepare('UPDATE tasks SET milestone_id = ?, updated_by = ? WHERE id = ?');
+      for (const id of openTasks) {
+        audited('task', id, () => {
+          move.run(target.id, currentActor(), id);
+          recordTaskHistory(id, 'milestone_changed', milestone.id, target.id);
+        });
+      }
+    }
+    db.prepare("UPDATE milestones SET status = 'closed', closed_at = CURRENT_TIMESTAMP WHERE id = ?").run(milestone.id);
+  }));
+  return { milestone: resolveMilestone(projectId, milestone.id)!, open_tasks: openTasks.length, moved_to: target?.name ?? null };
+}
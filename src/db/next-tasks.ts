@@ -0,0 +1,110 @@
+import type Database from 'better-sqlite3';
+import { tagsSql } from './tags.js';
+import { statusCategorySql, categoryListSql, CLOSED_CATEGORIES, type StatusCategory } from './workflow.js';
+import { mineSql } from './people.js';
+import { claimedByOtherSql } from './claims.js';
+
+export interface RankedTask {
+  id: string;
+  short_id: string | null;
+  title: string;
+  status: string;
+  priority: string;
+  created_at: string;
+  score: number;
+  unblocks: string[];
+  why: string;
+}
+
+const PRIORITY_POINTS: Record<string, number> = { critical: 40, high: 30, medium: 20, low: 10 };
+const IN_PROGRESS_POINTS = 5;
+const POINTS_PER_UNBLOCKED = 5;
+const MAX_UNBLOCK_POINTS = 25;
+const AGE_POINTS_PER_WEEK = 1;
+const MAX_AGE_POINTS = 10;
+const AGE_MENTION_DAYS = 14;
+
+/**
+ * Ranks the open, unblocked tasks of a project by what to work on next:
+ * priority, then how much downstream work finishing the task frees up, then
+ * how long it has been waiting. Tasks with an unfinished blocker are excluded.
+ * With `personId`, only tasks assigned to that person (or awaiting their review) are ranked.
+ * Tasks leased to an agent other than `agent` (any agent, without one) are skipped.
+ */
+export function rankNextTasks(
+  db: Database.Database,
+  projectId: string,
+  limit: number,
+  options: { personId?: string; agent?: string } = {},
+): RankedTask[] {
+  type Row = Omit<RankedTask, 'score' | 'unblocks' | 'why'> & { age_days: number; category: StatusCategory };
+  const closed = categoryListSql(CLOSED_CATEGORIES);
+  const candidates = db.prepare(
+    `SELECT * FROM (
+       SELECT t.*, ${tagsSql('task', 't')} AS tags, p.slug || '-' || t.seq AS short_id,
+         julianday('now') - julianday(t.created_at) AS age_days, ${statusCategorySql('t')} AS category
+       FROM tasks t JOIN projects p ON t.project_id = p.id
+       WHERE t.project_id = @projectId AND t.deleted_at IS NULL${options.personId ? ` AND ${mineSql('t', 'personId')}` : ''}
+         AND NOT ${claimedByOtherSql('t')}
+         AND NOT EXISTS (
+           SELECT 1 FROM task_dependencies d JOIN tasks b ON b.id = d.blocked_by_id
+           WHERE d.task_id = t.id AND b.deleted_at IS NULL AND ${statusCategorySql('b')} NOT IN ${closed}
+         )
+     ) WHERE category IN ('not_started', 'active'${options.personId ? ", 'review'" : ''})`
+  ).all({ projectId, personId: options.personId ?? null, agent: options.agent ?? null }) as Row[];
+
+  // blocker -> open tasks waiting on it
+  const edges = db.prepare(
+    `SELECT d.blocked_by_id, d.task_id, p.slug || '-' || t.seq AS short_id
+     FROM task_dependencies d JOIN tasks t ON t.id = d.task_id JOIN projects p ON t.project_id = p.id
+     WHERE t.deleted_at IS NULL AND ${statusCategorySql('t')} NOT IN ${closed}`
+  ).all() as { blocked_by_id: string; task_id: string; short_id: string | null }[];
+  const dependents = new Map<string, { id: string; label: string }[]>();
+  for (const e of edges) {
+    if (!dependents.has(e.blocked_by_id)) dependents.set(e.blocked_by_id, []);
+    dependents.get(e.blocked_by_id)!.push({ id: e.task_id, label: e.short_id ?? e.task_id });
+  }
+
+  // Everything downstream of a task, not just its direct dependents
+  function downstream(taskId: string): string[] {
+    const seen = new Map<string, string>();
+    const queue = [taskId];
+    while (queue.length > 0) {
+      for (const next of dependents.get(queue.shift()!) ?? []) {
+        if (seen.has(next.id) || next.id === taskId) continue;
+        seen.set(next.id, next.label);
+        queue.push(next.id);
+      }
+    }
+    return [...seen.values()];
+  }
+
+  const ranked = candidates.map(({ age_days, category, ...task }) => {
+    const unblocks = downstream(task.id);
+    const ageDays = Math.max(0, Math.floor(age_days));
+    const reasons: string[] = [`${task.priority} priority`];
+    let score = PRIORITY_POINTS[task.priority] ?? 0;
+
+    if (category === 'active') {
+      score += IN_PROGRESS_POINTS;
+      reasons.push('already in progress');
+    }
+    if (category === 'review') {
+      reasons.push('waiting for your review');
+    }
+    if (unblocks.length > 0) {
+      score += Math.min(MAX_UNBLOCK_POINTS, unblocks.length * POINTS_PER_UNBLOCKED);
+      const shown = unblocks.slice(0, 3).join(', ');
+      reasons.push(`unblocks ${unblocks.length} task${unblocks.length > 1 ? 's' : ''} (${shown}${unblocks.length > 3 ? ', …' : ''})`);
+    }
+    score += Math.min(MAX_AGE_POINTS, Math.floor(ageDays / 7) * AGE_POINTS_PER_WEEK);
+    if (ageDays >= AGE_MENTION_DAYS) {
+      reasons.push(`waiting ${ageDays} days`);
+    }
+
+    return { ...task, score, unblocks, why: reasons.join('; ') };
+  });
+
+  ranked.sort((a, b) => b.score - a.score || a.created_at.localeCompare(b.created_at));
+  return ranked.slice(0, limit);
+}
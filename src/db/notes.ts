@@ -0,0 +1,101 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { setTags, tagsSql } from './tags.js';
+import { audited } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+export const NOTE_CATEGORIES = ['general', 'architecture', 'bug', 'idea', 'research', 'meeting', 'review'] as const;
+export type NoteCategory = typeof NOTE_CATEGORIES[number];
+
+export interface NoteChanges {
+  content?: string;
+  category?: NoteCategory;
+  task_id?: string | null;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+export interface NoteRevision {
+  revision: number;
+  content: string;
+  category: string | null;
+  author: string | null;
+  replaced_by: string | null;
+  replaced_at: string;
+}
+
+interface NoteRow {
+  id: string;
+  project_id: string;
+  content: string;
+  category: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+}
+
+function getNoteRow(id: string): NoteRow | undefined {
+  return getDb().prepare('SELECT id, project_id, content, category, created_by, updated_by FROM notes WHERE id = ? AND deleted_at IS NULL')
+    .get(id) as NoteRow | undefined;
+}
+
+// Edit a note in place. When the content or category changes, the version being
+// replaced is kept as a revision first, so a rewrite never loses the original.
+export function updateNote(id: string, changes: NoteChanges): { updated: string[]; revision: number } | { error: string } {
+  const current = getNoteRow(id);
+  if (!current) return { error: `Note "${id}" not found.` };
+  if (changes.content !== undefined && !changes.content.trim()) return { error: 'Note content is empty.' };
+  if (changes.category !== undefined && !NOTE_CATEGORIES.includes(changes.category)) {
+    return { error: `category must be one of: ${NOTE_CATEGORIES.join(', ')}` };
+  }
+  const db = getDb();
+  if (changes.task_id) {
+    const task = db.prepare('SELECT project_id FROM tasks WHERE id = ? AND deleted_at IS NULL').get(changes.task_id) as { project_id: string } | undefined;
+    if (!task) return { error: `Task "${changes.task_id}" not found.` };
+    if (task.project_id !== current.project_id) return { error: 'A note can only be attached to a task in its own project.' };
+  }
+
+  const columns: Record<string, unknown> = {};
+  for (const key of ['content', 'category', 'task_id'] as const) {
+    if (changes[key] !== undefined) columns[key] = changes[key];
+  }
+  if (changes.pinned !== undefined) columns.pinned = changes.pinned ? 1 : 0;
+  const updated = [...Object.keys(columns), ...(changes.tags !== undefined ? ['tags'] : [])];
+  if (updated.length === 0) return { error: 'Nothing to update.' };
+
+  const rewritten = (changes.content !== undefined && changes.content !== current.content)
+    || (changes.category !== undefined && changes.category !== current.category);
+  const actor = currentActor();
+  audited('note', id, db.transaction(() => {
+    if (rewritten) {
+      db.prepare(
+        `INSERT INTO note_revisions (id, note_id, revision, content, category, author, replaced_by)
+         VALUES (?, ?, (SELECT COUNT(*) + 1 FROM note_revisions WHERE note_id = ?), ?, ?, ?, ?)`
+      ).run(generateId(), id, id, current.content, current.category, current.updated_by ?? current.created_by, actor);
+    }
+    const assignments = Object.keys(columns).map(column => `${column} = @${column}`);
+    db.prepare(`UPDATE notes SET ${[...assignments, 'updated_by = @actor'].join(', ')} WHERE id = @id`)
+      .run({ ...columns, actor, id });
+    if (changes.tags !== undefined) setTags('note', id, current.project_id, changes.tags);
+  }));
+  return { updated, revision: countNoteRevisions(id) + 1 };
+}
+
+// Pinned notes for session context, newest first.
+export function pinnedNotes(projectId: string): { id: string; content: string; category: string; tags: string | null }[] {
+  return getDb().prepare(
+    `SELECT id, content, category, ${tagsSql('note', 'notes')} AS tags FROM notes
+     WHERE project_id = ? AND pinned = 1 AND deleted_at IS NULL ORDER BY created_at DESC, rowid DESC`
+  ).all(projectId) as { id: string; content: string; category: string; tags: string | null }[];
+}
+
+export function countNoteRevisions(id: string): number {
+  return (getDb().prepare('SELECT COUNT(*) AS n FROM note_revisions WHERE note_id = ?').get(id) as { n: number }).n;
+}
+
+// Earlier versions of a note, oldest first. The current text is the next revision.
+export function listNoteRevisions(id: string): NoteRevision[] | { error: string } {
+  if (!getNoteRow(id)) return { error: `Note "${id}" not found.` };
+  return getDb().prepare(
+    'SELECT revision, content, category, author, replaced_by, replaced_at FROM note_revisions WHERE note_id = ? ORDER BY revision'
+  ).all(id) as NoteRevision[];
+}
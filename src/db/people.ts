@@ -0,0 +1,103 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { statusCategorySql, categoryListSql, CLOSED_CATEGORIES } from './workflow.js';
+import { recordTaskHistory } from './queries.js';
+import { audited } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+export const PERSON_KINDS = ['human', 'agent'] as const;
+export type PersonKind = (typeof PERSON_KINDS)[number];
+
+export interface Person {
+  id: string;
+  name: string;
+  kind: PersonKind;
+  handle: string;
+  created_at: string;
+}
+
+const HANDLE_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+// Look up a person by ID, handle (with or without a leading "@") or, failing
+// that, a name that only one person has.
+export function resolvePerson(ref: string): Person | undefined {
+  const db = getDb();
+  const text = ref.trim().replace(/^@/, '');
+  const exact = db.prepare('SELECT * FROM people WHERE id = ? OR handle = ?').get(text, text) as Person | undefined;
+  if (exact) return exact;
+  const byName = db.prepare('SELECT * FROM people WHERE name = ? COLLATE NOCASE').all(text) as Person[];
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+// A person tasks can be given to, or why not.
+export function resolveAssignee(ref: string): { id: string } | { error: string } {
+  const person = resolvePerson(ref);
+  if (!person) {
+    const handles = (getDb().prepare('SELECT handle FROM people ORDER BY handle').all() as { handle: string }[]).map(p => p.handle);
+    return { error: `Person "${ref}" not found. ${handles.length > 0 ? `Known handles: ${handles.join(', ')}.` : 'Add people with add_person.'}` };
+  }
+  return { id: person.id };
+}
+
+export function createPerson(input: { name: string; kind?: PersonKind; handle: string }): { person: Person } | { error: string } {
+  const name = input.name.trim();
+  const handle = input.handle.trim().replace(/^@/, '');
+  if (!name) return { error: 'Name must not be empty.' };
+  if (!HANDLE_PATTERN.test(handle)) return { error: `Handle "${input.handle}" may only use letters, digits, ".", "_" and "-".` };
+  const kind = input.kind ?? 'human';
+  if (!PERSON_KINDS.includes(kind)) return { error: `Kind must be one of: ${PERSON_KINDS.join(', ')}.` };
+  if (getDb().prepare('SELECT 1 FROM people WHERE handle = ?').get(handle)) return { error: `Handle "${handle}" is taken.` };
+
+  const id = generateId();
+  getDb().prepare('INSERT INTO people (id, name, kind, handle) VALUES (?, ?, ?, ?)').run(id, name, kind, handle);
+  return { person: resolvePerson(id)! };
+}
+
+export function listPeople(): (Person & { open_tasks: number })[] {
+  return getDb().prepare(
+    `SELECT p.*, (SELECT COUNT(*) FROM tasks t WHERE t.assignee_id = p.id AND t.deleted_at IS NULL
+       AND ${statusCategorySql('t')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}) AS open_tasks
+     FROM people p ORDER BY p.kind DESC, p.name COLLATE NOCASE`
+  ).all() as (Person & { open_tasks: number })[];
+}
+
+// Set a task's assignee and/or reviewer (null clears), recording each change in its history.
+export function assignTask(
+  task: { id: string; assignee_id: string | null; reviewer_id: string | null },
+  changes: { assignee_id?: string | null; reviewer_id?: string | null },
+): void {
+  const db = getDb();
+  audited('task', task.id, db.transaction(() => {
+    for (const [column, event] of [['assignee_id', 'assignee_changed'], ['reviewer_id', 'reviewer_changed']] as const) {
+      const next = changes[column];
+      if (next === undefined || next === task[column]) continue;
+      db.prepare(`UPDATE tasks SET ${column} = ?, updated_by = ? WHERE id = ?`).run(next, currentActor(), task.id);
+      recordTaskHistory(task.id, event, task[column], next);
+    }
+  }));
+}
+
+// Who "mine" refers to: MINDPM_USER names the person this server works for;
+// otherwise an agent whose handle matches the connected MCP client's name.
+export function currentPerson(clientName?: string): Person | undefined {
+  const configured = process.env.MINDPM_USER?.trim();
+  if (configured) return resolvePerson(configured);
+  if (!clientName) return undefined;
+  return getDb().prepare("SELECT * FROM people WHERE kind = 'agent' AND handle = ?").get(clientName) as Person | undefined;
+}
+
+export function currentPersonError(): string {
+  return process.env.MINDPM_USER
+    ? `MINDPM_USER is set to "${process.env.MINDPM_USER}", but no such person exists. Add them with add_person.`
+    : 'mindpm does not know who you are. Set MINDPM_USER to your handle, or add an agent person whose handle is your MCP client name.';
+}
+
+// SQL matching tasks that are `param`'s to act on: assigned to them, or waiting on their review.
+export function mineSql(alias: string, param: string): string {
+  return `(${alias}.assignee_id = @${param} OR (${alias}.reviewer_id = @${param} AND ${statusCategorySql(alias)} = 'review'))`;
+}
+
+// SQL for the handle of the person a task column points at
+export function personHandleSql(column: string): string {
+  return `(SELECT handle FROM people WHERE id = ${column})`;
+}
@@ -1,6 +1,7 @@
 import { getDb } from './connection.js';
 import { generateId } from '../utils/ids.js';
 import { getSessionStartedProjects } from '../utils/session-state.js';
+import { currentActor } from '../utils/actor.js';
 
 // Helper to resolve a project by name or ID
 export function resolveProjectId(projectRef: string): string | null {
@@ -72,12 +73,14 @@ export function resolveProjectOrDefault(projectRef?: string): { id: string; name
   return getMostRecentProject();
 }
 
-// Resolve a task_id that may be a hex ID or a short_id like "zrdt-180"
-export function resolveTaskId(taskRef: string): string | null {
+// Resolve a task_id that may be a hex ID or a short_id like "zrdt-180".
+// Tasks in the trash are not found unless includeTrashed is set.
+export function resolveTaskId(taskRef: string, options: { includeTrashed?: boolean } = {}): string | null {
   const db = getDb();
+  const live = options.includeTrashed ? '' : ' AND t.deleted_at IS NULL';
 
   // Try direct hex ID first
-  const byId = db.prepare('SELECT id FROM tasks WHERE id = ?').get(taskRef) as { id: string } | undefined;
+  const byId = db.prepare(`SELECT t.id FROM tasks t WHERE t.id = ?${live}`).get(taskRef) as { id: string } | undefined;
   if (byId) return byId.id;
 
   // Try as short_id: slug-seq (e.g. "zrdt-180")
@@ -85,7 +88,7 @@ export function resolveTaskId(taskRef: string): string | null {
   if (match) {
     const [, slug, seqStr] = match;
     const row = db.prepare(
-      'SELECT t.id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE LOWER(p.slug) = LOWER(?) AND t.seq = ?'
+      `SELECT t.id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE LOWER(p.slug) = LOWER(?) AND t.seq = ?${live}`
     ).get(slug, parseInt(seqStr, 10)) as { id: string } | undefined;
     if (row) return row.id;
   }
@@ -101,8 +104,8 @@ export function recordTaskHistory(
 ): void {
   const db = getDb();
   db.prepare(
-    'INSERT INTO task_history (id, task_id, event, old_value, new_value) VALUES (?, ?, ?, ?, ?)'
-  ).run(generateId(), taskId, event, oldValue, newValue);
+    'INSERT INTO task_history (id, task_id, event, old_value, new_value, actor) VALUES (?, ?, ?, ?, ?, ?)'
+  ).run(generateId(), taskId, event, oldValue, newValue, currentActor());
 }
 
 export { generateId, getDb };
@@ -1,5 +1,4 @@
 import type Database from 'better-sqlite3';
-import { generateSlug, generateId } from '../utils/ids.js';
 
 export function createSchema(db: Database.Database): void {
   db.exec(`
@@ -131,109 +130,3 @@ export function createSchema(db: Database.Database): void {
     END;
   `);
 }
-
-// Idempotent migrations for columns added after initial release
-export function runMigrations(db: Database.Database): void {
-  // Add slug to projects if missing
-  const projectCols = (db.pragma('table_info(projects)') as { name: string }[]).map(c => c.name);
-  if (!projectCols.includes('slug')) {
-    db.exec('ALTER TABLE projects ADD COLUMN slug TEXT');
-    // Backfill slugs for existing projects, making each unique
-    const projects = db.prepare('SELECT id, name FROM projects').all() as { id: string; name: string }[];
-    const usedSlugs = new Set<string>();
-    for (const p of projects) {
-      let slug = generateSlug(p.name);
-      let candidate = slug;
-      let n = 2;
-      while (usedSlugs.has(candidate)) {
-        candidate = slug + n++;
-      }
-      usedSlugs.add(candidate);
-      db.prepare('UPDATE projects SET slug = ? WHERE id = ?').run(candidate, p.id);
-    }
-  }
-
-  // Add seq to tasks if missing
-  const taskCols = (db.pragma('table_info(tasks)') as { name: string }[]).map(c => c.name);
-  if (!taskCols.includes('seq')) {
-    db.exec('ALTER TABLE tasks ADD COLUMN seq INTEGER');
-    // Backfill seq per project ordered by created_at
-    const projects = db.prepare('SELECT id FROM projects').all() as { id: string }[];
-    for (const p of projects) {
-      const tasks = db.prepare(
-        'SELECT id FROM tasks WHERE project_id = ? ORDER BY created_at ASC, id ASC'
-      ).all(p.id) as { id: string }[];
-      tasks.forEach((t, i) => {
-        db.prepare('UPDATE tasks SET seq = ? WHERE id = ?').run(i + 1, t.id);
-      });
-    }
-  }
-
-  // Create idx_tasks_seq here (after seq column is guaranteed to exist)
-  if (!db.prepare("SELECT name FROM sqlite_master WHERE type='index' AND name='idx_tasks_seq'").get()) {
-    db.exec('CREATE INDEX idx_tasks_seq ON tasks(project_id, seq)');
-  }
-
-  // Add task_id to decisions if missing
-  const decisionCols = (db.pragma('table_info(decisions)') as { name: string }[]).map(c => c.name);
-  if (!decisionCols.includes('task_id')) {
-    db.exec('ALTER TABLE decisions ADD COLUMN task_id TEXT REFERENCES tasks(id)');
-  }
-
-  // Migrate tasks table CHECK constraint to add in_review status
-  const tasksSchemaSql = (db.prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name='tasks'").get() as { sql: string } | undefined)?.sql ?? '';
-  if (!tasksSchemaSql.includes('in_review')) {
-    db.pragma('foreign_keys = OFF');
-    db.transaction(() => {
-      db.exec(`
-        CREATE TABLE tasks_new (
-          id TEXT PRIMARY KEY,
-          project_id TEXT NOT NULL REFERENCES projects(id),
-          seq INTEGER,
-          title TEXT NOT NULL,
-          description TEXT,
-          status TEXT DEFAULT 'todo' CHECK(status IN ('todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled')),
-          priority TEXT DEFAULT 'medium' CHECK(priority IN ('critical', 'high', 'medium', 'low')),
-          tags TEXT,
-          parent_task_id TEXT REFERENCES tasks(id),
-          blocked_by TEXT,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          completed_at DATETIME
-        );
-        INSERT INTO tasks_new (id, project_id, seq, title, description, status, priority, tags, parent_task_id, blocked_by, created_at, updated_at, completed_at)
-        SELECT id, project_id, seq, title, description, status, priority, tags, parent_task_id, blocked_by, created_at, updated_at, completed_at FROM tasks;
-        DROP TABLE tasks;
-        ALTER TABLE tasks_new RENAME TO tasks;
-      `);
-    })();
-    db.pragma('foreign_keys = ON');
-    db.exec(`
-      CREATE TRIGGER IF NOT EXISTS trg_tasks_updated_at
-      AFTER UPDATE ON tasks
-      FOR EACH ROW
-      WHEN NEW.updated_at = OLD.updated_at
-      BEGIN
-        UPDATE tasks SET updated_at = CURRENT_TIMESTAMP WHERE id = NEW.id;
-      END;
-      CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
-      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-      CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks(priority);
-      CREATE INDEX IF NOT EXISTS idx_tasks_created_at ON tasks(created_at);
-      CREATE INDEX IF NOT EXISTS idx_tasks_seq ON tasks(project_id, seq);
-    `);
-  }
-
-  // Backfill task_history created events for existing tasks (run once)
-  const historyCount = (db.prepare('SELECT COUNT(*) as n FROM task_history').get() as { n: number }).n;
-  if (historyCount === 0) {
-    const tasks = db.prepare('SELECT id, status, priority, created_at FROM tasks').all() as { id: string; status: string; priority: string; created_at: string }[];
-    const insert = db.prepare('INSERT INTO task_history (id, task_id, event, new_value, created_at) VALUES (?, ?, ?, ?, ?)');
-    const insertMany = db.transaction(() => {
-      for (const t of tasks) {
-        insert.run(generateId(), t.id, 'created', JSON.stringify({ status: t.status, priority: t.priority }), t.created_at);
-      }
-    });
-    insertMany();
-  }
-}
@@ -0,0 +1,207 @@
+import { getDb } from './connection.js';
+import { generateId } from '../utils/ids.js';
+import { recordTaskHistory } from './queries.js';
+import { audited } from './audit.js';
+
+export type TaggedEntity = 'task' | 'note' | 'decision';
+
+// Join table and key column for each taggable entity
+const JOINS: Record<TaggedEntity, { table: string; column: string }> = {
+  task: { table: 'task_tags', column: 'task_id' },
+  note: { table: 'note_tags', column: 'note_id' },
+  decision: { table: 'decision_tags', column: 'decision_id' },
+};
+
+// Tags are compared case-insensitively with collapsed whitespace, so "Backend"
+// and " backend " end up as the same tag.
+export function normalizeTag(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function normalizeTags(names: string[]): string[] {
+  const result: string[] = [];
+  for (const name of names) {
+    const tag = normalizeTag(name);
+    if (tag && !result.includes(tag)) result.push(tag);
+  }
+  return result;
+}
+
+// JSON array of tag names for the row aliased as `alias` (NULL when it has none),
+// in the order they were attached. Keeps the `tags` field API consumers already read.
+export function tagsSql(entity: TaggedEntity, alias: string): string {
+  const { table, column } = JOINS[entity];
+  return `(SELECT CASE WHEN COUNT(*) > 0 THEN json_group_array(name) END FROM (SELECT g.name FROM ${table} j JOIN tags g ON g.id = j.tag_id WHERE j.${column} = ${alias}.id ORDER BY j.rowid))`;
+}
+
+// Matches rows carrying the tag bound as @tag (compare against normalizeTag(tag)).
+export function tagFilterSql(entity: TaggedEntity, alias: string): string {
+  const { table, column } = JOINS[entity];
+  return `EXISTS (SELECT 1 FROM ${table} j JOIN tags g ON g.id = j.tag_id WHERE j.${column} = ${alias}.id AND g.name = @tag)`;
+}
+
+// Replace the tags on a task, note or decision. Tags no longer used anywhere
+// in the project are dropped.
+export function setTags(entity: TaggedEntity, entityId: string, projectId: string, names: string[]): void {
+  const db = getDb();
+  const { table, column } = JOINS[entity];
+  const findTag = db.prepare('SELECT id FROM tags WHERE project_id = ? AND name = ?');
+  const insertTag = db.prepare('INSERT INTO tags (id, project_id, name) VALUES (?, ?, ?)');
+  const attach = db.prepare(`INSERT OR IGNORE INTO ${table} (${column}, tag_id) VALUES (?, ?)`);
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM ${table} WHERE ${column} = ?`).run(entityId);
+    for (const name of normalizeTags(names)) {
+      let tag = findTag.get(projectId, name) as { id: string } | undefined;
+      if (!tag) {
+        tag = { id: generateId() };
+        insertTag.run(tag.id, projectId, name);
+      }
+      attach.run(entityId, tag.id);
+    }
+    pruneUnusedTags(projectId);
+  })();
+}
+
+// Replace a task's tags, recording a `tags_changed` history event when the set
+// changes so burndowns scoped by tag know when tasks joined or left.
+export function retagTask(taskId: string, projectId: string, names: string[]): void {
+  const before = taskTagNames(taskId);
+  setTags('task', taskId, projectId, names);
+  const after = taskTagNames(taskId);
+  if (before.join('\n') !== after.join('\n')) {
+    recordTaskHistory(taskId, 'tags_changed', JSON.stringify(before), JSON.stringify(after));
+  }
+}
+
+function taskTagNames(taskId: string): string[] {
+  return (getDb().prepare(
+    'SELECT g.name FROM task_tags j JOIN tags g ON g.id = j.tag_id WHERE j.task_id = ? ORDER BY g.name'
+  ).all(taskId) as { name: string }[]).map(r => r.name);
+}
+
+// Run `change` to a set of tags and record a `tags_changed` event for every task
+// carrying one of them whose tag names it changed, as retagTask does.
+function retagTasksWith(tagIds: string[], change: () => void): void {
+  const taskIds = (getDb().prepare(`SELECT DISTINCT task_id FROM task_tags WHERE tag_id IN (${tagIds.map(() => '?').join(',')})`)
+    .all(...tagIds) as { task_id: string }[]).map(r => r.task_id);
+  const before = new Map(taskIds.map(id => [id, taskTagNames(id)]));
+  change();
+  for (const [taskId, names] of before) {
+    const after = taskTagNames(taskId);
+    if (names.join('\n') !== after.join('\n')) {
+      recordTaskHistory(taskId, 'tags_changed', JSON.stringify(names), JSON.stringify(after));
+    }
+  }
+}
+
+function pruneUnusedTags(projectId: string): void {
+  getDb().prepare(
+    `DELETE FROM tags WHERE project_id = ?
+       AND id NOT IN (SELECT tag_id FROM task_tags)
+       AND id NOT IN (SELECT tag_id FROM note_tags)
+       AND id NOT IN (SELECT tag_id FROM decision_tags)`
+  ).run(projectId);
+}
+
+export interface TagUsage {
+  name: string;
+  tasks: number;
+  notes: number;
+  decisions: number;
+  total: number;
+}
+
+export function listTags(projectId: string): TagUsage[] {
+  const db = getDb();
+  return db.prepare(
+    `SELECT name, tasks, notes, decisions, tasks + notes + decisions AS total FROM (
+       SELECT g.name,
+         (SELECT COUNT(*) FROM task_tags j JOIN tasks x ON x.id = j.task_id WHERE j.tag_id = g.id AND x.deleted_at IS NULL) AS tasks,
+         (SELECT COUNT(*) FROM note_tags j JOIN notes x ON x.id = j.note_id WHERE j.tag_id = g.id AND x.deleted_at IS NULL) AS notes,
+         (SELECT COUNT(*) FROM decision_tags j JOIN decisions x ON x.id = j.decision_id WHERE j.tag_id = g.id AND x.deleted_at IS NULL) AS decisions
+       FROM tags g WHERE g.project_id = ?
+     )
+     WHERE total > 0
+     ORDER BY total DESC, name`
+  ).all(projectId) as TagUsage[];
+}
+
+// Rename a tag within a project. Refuses if the new name is already a tag,
+// since that is a merge.
+export function renameTag(projectId: string, from: string, to: string): { renamed: number } | { error: string } {
+  const db = getDb();
+  const oldName = normalizeTag(from);
+  const newName = normalizeTag(to);
+  if (!newName) return { error: 'New tag name is empty.' };
+
+  const tag = db.prepare('SELECT id FROM tags WHERE project_id = ? AND name = ?').get(projectId, oldName) as { id: string } | undefined;
+  if (!tag) return { error: `Tag not found: ${from}` };
+  if (newName === oldName) return { renamed: 0 };
+  if (db.prepare('SELECT 1 FROM tags WHERE project_id = ? AND name = ?').get(projectId, newName)) {
+    return { error: `Tag "${newName}" already exists. Use merge_tags to combine them.` };
+  }
+
+  auditTagged([tag.id], db.transaction(() => retagTasksWith([tag.id], () => {
+    db.prepare('UPDATE tags SET name = ? WHERE id = ?').run(newName, tag.id);
+  })));
+  return { renamed: usageCount(tag.id) };
+}
+
+// Fold the source tags into `into` (created if needed). Items carrying several
+// of the merged tags end up with a single copy of the target.
+export function mergeTags(projectId: string, sources: string[], into: string): { merged: string[]; items: number } | { error: string } {
+  const db = getDb();
+  const target = normalizeTag(into);
+  if (!target) return { error: 'Target tag name is empty.' };
+
+  const findTag = db.prepare('SELECT id, name FROM tags WHERE project_id = ? AND name = ?');
+  const sourceTags: { id: string; name: string }[] = [];
+  const missing: string[] = [];
+  for (const name of normalizeTags(sources)) {
+    if (name === target) continue;
+    const tag = findTag.get(projectId, name) as { id: string; name: string } | undefined;
+    if (tag) sourceTags.push(tag);
+    else missing.push(name);
+  }
+  if (missing.length > 0) {
+    return { error: `Tag${missing.length > 1 ? 's' : ''} not found: ${missing.join(', ')}` };
+  }
+
+  let targetId = '';
+  auditTagged(sourceTags.map(t => t.id), db.transaction(() => retagTasksWith(sourceTags.map(t => t.id), () => {
+    const existing = findTag.get(projectId, target) as { id: string } | undefined;
+    targetId = existing?.id ?? generateId();
+    if (!existing) db.prepare('INSERT INTO tags (id, project_id, name) VALUES (?, ?, ?)').run(targetId, projectId, target);
+
+    for (const { table, column } of Object.values(JOINS)) {
+      const moveTo = db.prepare(`INSERT OR IGNORE INTO ${table} (${column}, tag_id) SELECT ${column}, ? FROM ${table} WHERE tag_id = ?`);
+      for (const source of sourceTags) moveTo.run(targetId, source.id);
+    }
+    // Join rows go with the tag through ON DELETE CASCADE
+    const remove = db.prepare('DELETE FROM tags WHERE id = ?');
+    for (const source of sourceTags) remove.run(source.id);
+  })));
+
+  return { merged: sourceTags.map(t => t.name), items: usageCount(targetId) };
+}
+
+// Run `fn` under audit for every task, note and decision carrying one of the tags.
+function auditTagged<T>(tagIds: string[], fn: () => T): T {
+  const db = getDb();
+  const run = (Object.entries(JOINS) as [TaggedEntity, { table: string; column: string }][]).reduce((inner, [entity, { table, column }]) => {
+    const ids = (db.prepare(`SELECT DISTINCT ${column} AS id FROM ${table} WHERE tag_id IN (${tagIds.map(() => '?').join(',')})`)
+      .all(...tagIds) as { id: string }[]).map(r => r.id);
+    return () => audited(entity, ids, inner);
+  }, fn);
+  return run();
+}
+
+function usageCount(tagId: string): number {
+  const db = getDb();
+  return (db.prepare(
+    `SELECT (SELECT COUNT(*) FROM task_tags WHERE tag_id = @id)
+          + (SELECT COUNT(*) FROM note_tags WHERE tag_id = @id)
+          + (SELECT COUNT(*) FROM decision_tags WHERE tag_id = @id) AS n`
+  ).get({ id: tagId }) as { n: number }).n;
+}
@@ -0,0 +1,155 @@
+import { getDb } from './connection.js';
+import { unblockDependents, type UnblockedTask } from './dependencies.js';
+import { audited } from './audit.js';
+import { deleteOrphanLinks } from './links.js';
+import { currentActor } from '../utils/actor.js';
+
+export type TrashItemType = 'task' | 'note' | 'decision';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const TABLES: Record<TrashItemType, string> = { task: 'tasks', note: 'notes', decision: 'decisions' };
+
+export interface TrashedItem {
+  type: TrashItemType;
+  id: string;
+  short_id: string | null;
+  title: string;
+  deleted_at: string;
+}
+
+// Move a task, all of its sub-tasks and their notes to the trash, stamped with
+// the same deleted_at so restoring the task brings the whole group back.
+// Tasks that were waiting only on the trashed tasks are unblocked.
+export function trashTask(taskId: string): { trashed: string[]; unblocked: UnblockedTask[] } {
+  const db = getDb();
+  const ids = (db.prepare(
+    `WITH RECURSIVE subtree(id) AS (
+       SELECT ?
+       UNION
+       SELECT t.id FROM tasks t JOIN subtree s ON t.parent_task_id = s.id WHERE t.deleted_at IS NULL
+     )
+     SELECT id FROM subtree`
+  ).all(taskId) as { id: string }[]).map(r => r.id);
+  const unblocked: UnblockedTask[] = [];
+  const noteIds = (db.prepare(
+    `SELECT id FROM notes WHERE deleted_at IS NULL AND task_id IN (${ids.map(() => '?').join(',')})`
+  ).all(...ids) as { id: string }[]).map(r => r.id);
+
+  audited('task', ids, () => audited('note', noteIds, db.transaction(() => {
+    const { now } = db.prepare('SELECT CURRENT_TIMESTAMP AS now').get() as { now: string };
+    const actor = currentActor();
+    const trashTaskRow = db.prepare('UPDATE tasks SET deleted_at = ?, updated_by = ? WHERE id = ?');
+    const trashNotes = db.prepare('UPDATE notes SET deleted_at = ?, updated_by = ? WHERE task_id = ? AND deleted_at IS NULL');
+    for (const id of ids) {
+      trashTaskRow.run(now, actor, id);
+      trashNotes.run(now, actor, id);
+    }
+    for (const id of ids) unblocked.push(...unblockDependents(id));
+  })));
+
+  return { trashed: ids, unblocked };
+}
+
+export function trashItem(type: 'note' | 'decision', id: string): boolean {
+  const db = getDb();
+  return audited(type, id, () =>
+    db.prepare(`UPDATE ${TABLES[type]} SET deleted_at = CURRENT_TIMESTAMP, updated_by = ? WHERE id = ? AND deleted_at IS NULL`).run(currentActor(), id).changes > 0);
+}
+
+export function listTrash(projectId: string): TrashedItem[] {
+  const db = getDb();
+  return db.prepare(
+    `SELECT 'task' AS type, t.id, p.slug || '-' || t.seq AS short_id, t.title, t.deleted_at
+       FROM tasks t JOIN projects p ON t.project_id = p.id
+       WHERE t.project_id = @projectId AND t.deleted_at IS NOT NULL
+     UNION ALL
+     SELECT 'note', id, NULL, substr(content, 1, 80), deleted_at
+       FROM notes WHERE project_id = @projectId AND deleted_at IS NOT NULL
+     UNION ALL
+     SELECT 'decision', id, NULL, title, deleted_at
+       FROM decisions WHERE project_id = @projectId AND deleted_at IS NOT NULL
+     ORDER BY deleted_at DESC, type, id`
+  ).all({ projectId }) as TrashedItem[];
+}
+
+// Bring an item back out of the trash. A task comes back together with the
+// sub-tasks and notes that were trashed with it. Items whose parent task is
+// still in the trash can't be restored on their own.
+export function restoreItem(type: TrashItemType, id: string): { restored: string[] } | { error: string } {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM ${TABLES[type]} WHERE id = ?`).get(id) as Record<string, any> | undefined;
+  if (!row) return { error: `${type} "${id}" not found.` };
+  if (!row.deleted_at) return { error: `${type} "${id}" is not in the trash.` };
+
+  const parentId = type === 'task' ? row.parent_task_id : row.task_id;
+  if (parentId) {
+    const parent = db.prepare('SELECT deleted_at FROM tasks WHERE id = ?').get(parentId) as { deleted_at: string | null } | undefined;
+    if (parent?.deleted_at) {
+      return { error: `Task ${parentId} is in the trash; restore it first.` };
+    }
+  }
+
+  if (type !== 'task') {
+    audited(type, id, () => db.prepare(`UPDATE ${TABLES[type]} SET deleted_at = NULL, updated_by = ? WHERE id = ?`).run(currentActor(), id));
+    return { restored: [id] };
+  }
+
+  const ids = (db.prepare(
+    `WITH RECURSIVE subtree(id) AS (
+       SELECT @id
+       UNION
+       SELECT t.id FROM tasks t JOIN subtree s ON t.parent_task_id = s.id WHERE t.deleted_at = @deletedAt
+     )
+     SELECT id FROM subtree`
+  ).all({ id, deletedAt: row.deleted_at }) as { id: string }[]).map(r => r.id);
+
+  const noteIds = (db.prepare(
+    `SELECT id FROM notes WHERE deleted_at = ? AND task_id IN (${ids.map(() => '?').join(',')})`
+  ).all(row.deleted_at, ...ids) as { id: string }[]).map(r => r.id);
+
+  audited('task', ids, () => audited('note', noteIds, db.transaction(() => {
+    const actor = currentActor();
+    const restoreTask = db.prepare('UPDATE tasks SET deleted_at = NULL, updated_by = ? WHERE id = ?');
+    const restoreNotes = db.prepare('UPDATE notes SET deleted_at = NULL, updated_by = ? WHERE task_id = ? AND deleted_at = ?');
+    for (const taskId of ids) {
+      restoreTask.run(actor, taskId);
+      restoreNotes.run(actor, taskId, row.deleted_at);
+    }
+  })));
+  return { restored: ids };
+}
+
+// Permanently delete everything that has been in the trash for longer than
+// `retentionDays`. Live rows that still point at a purged task or decision are
+// detached, and links to anything purged are dropped.
+export function purgeTrash(retentionDays: number): { tasks: number; notes: number; decisions: number } {
+  const db = getDb();
+  const cutoff = `datetime('now', '-' || @days || ' days')`;
+  const params = { days: retentionDays };
+
+  return db.transaction(() => {
+    const notes = db.prepare(`DELETE FROM notes WHERE deleted_at IS NOT NULL AND deleted_at <= ${cutoff}`).run(params).changes;
+    const expiredDecisions = `SELECT id FROM decisions WHERE deleted_at IS NOT NULL AND deleted_at <= ${cutoff}`;
+    db.prepare(`UPDATE decisions SET supersedes = NULL WHERE supersedes IN (${expiredDecisions})`).run(params);
+    const decisions = db.prepare(`DELETE FROM decisions WHERE id IN (${expiredDecisions})`).run(params).changes;
+
+    const expired = `SELECT id FROM tasks WHERE deleted_at IS NOT NULL AND deleted_at <= ${cutoff}`;
+    db.prepare(`UPDATE notes SET task_id = NULL WHERE task_id IN (${expired})`).run(params);
+    db.prepare(`UPDATE decisions SET task_id = NULL WHERE task_id IN (${expired})`).run(params);
+    db.prepare(`UPDATE tasks SET parent_task_id = NULL WHERE parent_task_id IN (${expired}) AND id NOT IN (${expired})`).run(params);
+    db.prepare(`DELETE FROM task_history WHERE task_id IN (${expired})`).run(params);
+    const tasks = db.prepare(`DELETE FROM tasks WHERE id IN (${expired})`).run(params).changes;
+    deleteOrphanLinks();
+
+    return { tasks, notes, decisions };
+  })();
+}
+
+// Retention in days from MINDPM_TRASH_RETENTION_DAYS; 0 or less keeps the trash forever.
+export function trashRetentionDays(): number {
+  const raw = process.env.MINDPM_TRASH_RETENTION_DAYS;
+  if (raw === undefined || raw.trim() === '') return DEFAULT_TRASH_RETENTION_DAYS;
+  const days = Number(raw);
+  return Number.isFinite(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
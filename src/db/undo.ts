@@ -0,0 +1,230 @@
+import { getDb } from './connection.js';
+import { recordTaskHistory } from './queries.js';
+import { audited, auditOperation, snapshotEntity, AUDIT_TABLES, type AuditAction, type AuditEntityType, type AuditSnapshot } from './audit.js';
+import { setTags, type TaggedEntity } from './tags.js';
+import { setDependencies } from './dependencies.js';
+import { setFieldValues } from './custom-fields.js';
+import { checkStatus } from './workflow.js';
+import { currentActor } from '../utils/actor.js';
+
+export interface UndoConflict {
+  entity_type: AuditEntityType;
+  entity_id: string;
+  reason: string;
+  // Fields whose current value is no longer what the undone operation left behind
+  fields: { field: string; expected: unknown; current: unknown }[];
+  changed_by: string | null;
+  changed_at: string | null;
+}
+
+export interface RevertedChange {
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  fields: string[];
+}
+
+interface StoredEntry {
+  seq: number;
+  operation_id: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: AuditAction;
+  before: string | null;
+  after: string | null;
+  changes: string;
+  undone_by: string | null;
+}
+
+// Task columns whose changes also belong in task_history, so metrics and the
+// timeline see what an undo did.
+const TASK_HISTORY_EVENTS: Record<string, string> = {
+  status: 'status_changed',
+  priority: 'priority_changed',
+  title: 'title_changed',
+  milestone_id: 'milestone_changed',
+  assignee_id: 'assignee_changed',
+  reviewer_id: 'reviewer_changed',
+};
+
+// Derived from join tables rather than columns; see snapshotEntity.
+const COMPOSITE_FIELDS = new Set(['tags', 'blocked_by', 'fields']);
+
+// Tables without an updated_by column
+const UNATTRIBUTED = new Set<AuditEntityType>(['project', 'comment', 'link']);
+
+class UndoConflictError extends Error {
+  constructor(public conflicts: UndoConflict[]) {
+    super('Undo conflicts');
+  }
+}
+
+// The most recent operations by `actor` that haven't been undone, newest first.
+// Operations that were themselves undos are skipped, so undoing twice doesn't redo.
+export function recentOperations(actor: string, count: number, projectId?: string): string[] {
+  return (getDb().prepare(
+    `SELECT operation_id FROM audit_log
+     WHERE actor = @actor AND undone_by IS NULL ${projectId ? 'AND project_id = @projectId' : ''}
+       AND operation_id NOT IN (SELECT undone_by FROM audit_log WHERE undone_by IS NOT NULL)
+     GROUP BY operation_id ORDER BY MAX(rowid) DESC LIMIT @count`
+  ).all({ actor, count, ...(projectId ? { projectId } : {}) }) as { operation_id: string }[]).map(r => r.operation_id);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function findConflict(entry: StoredEntry, excluded: string[], current: AuditSnapshot | null): UndoConflict | null {
+  const before = entry.before ? JSON.parse(entry.before) as AuditSnapshot : null;
+  const after = entry.after ? JSON.parse(entry.after) as AuditSnapshot : null;
+  let reason: string | null = null;
+  let fields: UndoConflict['fields'] = [];
+
+  if (!after) {
+    if (current) reason = 'It exists again.';
+  } else if (!current) {
+    reason = 'It no longer exists.';
+  } else if (!before && entry.entity_type === 'project') {
+    reason = 'Creating a project cannot be undone.';
+  } else {
+    // A created entity must be untouched; otherwise only the fields the operation changed matter
+    const checked = before ? Object.keys(JSON.parse(entry.changes)) : Object.keys(after);
+    fields = checked
+      .filter(field => !sameValue(current[field], after[field]))
+      .map(field => ({ field, expected: after[field] ?? null, current: current[field] ?? null }));
+    if (fields.length > 0) {
+      reason = 'It has been modified since.';
+    } else if (entry.entity_type === 'task' && before && checked.includes('status')
+      && checkStatus(current.project_id as string, before.status as string)) {
+      // The workflow changed since and no longer has the status to go back to
+      reason = `Status "${before.status}" is no longer part of the project workflow.`;
+    }
+  }
+  if (!reason) return null;
+
+  const later = getDb().prepare(
+    `SELECT actor, created_at FROM audit_log
+     WHERE entity_type = ? AND entity_id = ? AND rowid > ? AND operation_id NOT IN (${excluded.map(() => '?').join(',')})
+     ORDER BY rowid DESC LIMIT 1`
+  ).get(entry.entity_type, entry.entity_id, entry.seq, ...excluded) as { actor: string | null; created_at: string } | undefined;
+  return {
+    entity_type: entry.entity_type,
+    entity_id: entry.entity_id,
+    reason,
+    fields,
+    changed_by: later?.actor ?? null,
+    changed_at: later?.created_at ?? null,
+  };
+}
+
+function revertEntry(entry: StoredEntry): RevertedChange {
+  const db = getDb();
+  const { entity_type: type, entity_id: id } = entry;
+  const before = entry.before ? JSON.parse(entry.before) as AuditSnapshot : null;
+  const after = entry.after ? JSON.parse(entry.after) as AuditSnapshot : null;
+  const changed = Object.keys(JSON.parse(entry.changes));
+
+  audited(type, id, () => {
+    if (!after) {
+      // Undoing a permanent delete (only comments and links are deleted outright) puts the row back
+      const columns = Object.keys(before!).filter(field => !COMPOSITE_FIELDS.has(field));
+      db.prepare(`INSERT INTO ${AUDIT_TABLES[type]} (${columns.map(c => `"${c}"`).join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+        .run(...columns.map(c => before![c] ?? null));
+      return;
+    }
+    if (!before) {
+      // Undoing a create: tasks, notes and decisions go to the trash, the rest is deleted
+      if (type === 'task' || type === 'note' || type === 'decision') {
+        db.prepare(`UPDATE ${AUDIT_TABLES[type]} SET deleted_at = CURRENT_TIMESTAMP, updated_by = ? WHERE id = ?`).run(currentActor(), id);
+      } else {
+        db.prepare(`DELETE FROM ${AUDIT_TABLES[type]} WHERE id = ?`).run(id);
+      }
+      return;
+    }
+
+    const columns = changed.filter(field => !COMPOSITE_FIELDS.has(field));
+    if (columns.length > 0) {
+      const assignments = columns.map(column => `"${column}" = ?`);
+      const values = columns.map(column => before[column] ?? null);
+      if (!UNATTRIBUTED.has(type)) {
+        assignments.push('updated_by = ?');
+        values.push(currentActor());
+      }
+      db.prepare(`UPDATE ${AUDIT_TABLES[type]} SET ${assignments.join(', ')} WHERE id = ?`).run(...values, id);
+    }
+    const projectId = after.project_id as string;
+    if (changed.includes('tags')) setTags(type as TaggedEntity, id, projectId, before.tags as string[]);
+    if (changed.includes('blocked_by')) setDependencies(id, before.blocked_by as string[]);
+    if (changed.includes('fields')) {
+      const previous = before.fields as Record<string, string>;
+      const keys = new Set([...Object.keys(previous), ...Object.keys(after.fields as Record<string, string>)]);
+      setFieldValues(id, projectId, Object.fromEntries([...keys].map(key => [key, previous[key] ?? null])));
+    }
+
+    if (type === 'task') {
+      for (const field of changed) {
+        const event = field === 'tags' ? 'tags_changed' : TASK_HISTORY_EVENTS[field];
+        if (!event) continue;
+        const serialize = (value: unknown) => field === 'tags' ? JSON.stringify(value) : (value as string | null) ?? null;
+        recordTaskHistory(id, event, serialize(after[field]), serialize(before[field]));
+      }
+    }
+  });
+  return { entity_type: type, entity_id: id, action: entry.action, fields: before ? changed : [] };
+}
+
+// Revert every change made by the given operations, newest first, in one
+// transaction. Refuses, changing nothing, if any entity has been modified since
+// by something other than these operations.
+export function undoOperations(operationIds: string[]):
+  { operation_id: string; undone: string[]; reverted: RevertedChange[] } | { error: string; conflicts: UndoConflict[] } {
+  const db = getDb();
+  if (operationIds.length === 0) return { error: 'Nothing to undo.', conflicts: [] };
+  const placeholders = operationIds.map(() => '?').join(',');
+  const entries = db.prepare(
+    `SELECT rowid AS seq, operation_id, entity_type, entity_id, action, before, after, changes, undone_by
+     FROM audit_log WHERE operation_id IN (${placeholders}) ORDER BY rowid DESC`
+  ).all(...operationIds) as StoredEntry[];
+
+  const found = new Set(entries.map(e => e.operation_id));
+  const missing = operationIds.filter(id => !found.has(id));
+  if (missing.length > 0) return { error: `Operation not found: ${missing.join(', ')}`, conflicts: [] };
+  const undone = entries.find(e => e.undone_by);
+  if (undone) return { error: `Operation ${undone.operation_id} was already undone by ${undone.undone_by}.`, conflicts: [] };
+
+  try {
+    return auditOperation(operationId => db.transaction(() => {
+      const conflicts: UndoConflict[] = [];
+      const reverted: RevertedChange[] = [];
+      // Older entries for an entity that already conflicted would only repeat the report
+      const conflicted = new Set<string>();
+      for (const entry of entries) {
+        const key = `${entry.entity_type}:${entry.entity_id}`;
+        if (conflicted.has(key)) continue;
+        const conflict = findConflict(entry, operationIds, snapshotEntity(entry.entity_type, entry.entity_id));
+        if (conflict) {
+          conflicts.push(conflict);
+          conflicted.add(key);
+        } else {
+          reverted.push(revertEntry(entry));
+        }
+      }
+      if (conflicts.length > 0) throw new UndoConflictError(conflicts);
+      db.prepare(`UPDATE audit_log SET undone_by = ? WHERE operation_id IN (${placeholders})`).run(operationId, ...operationIds);
+      return { operation_id: operationId, undone: operationIds, reverted };
+    })());
+  } catch (e) {
+    if (!(e instanceof UndoConflictError)) throw e;
+    const count = e.conflicts.length;
+    return { error: `Nothing was undone: ${count} change${count > 1 ? 's have' : ' has'} been overwritten since.`, conflicts: e.conflicts };
+  }
+}
+
+// One line per conflict, for tool output.
+export function describeConflicts(conflicts: UndoConflict[]): string {
+  return conflicts.map(c => {
+    const fields = c.fields.map(f => `${f.field} is ${JSON.stringify(f.current)} (expected ${JSON.stringify(f.expected)})`).join(', ');
+    const by = c.changed_by ? ` Last changed by ${c.changed_by} at ${c.changed_at} UTC.` : '';
+    return `- ${c.entity_type} ${c.entity_id}: ${c.reason}${fields ? ` ${fields}.` : ''}${by}`;
+  }).join('\n');
+}
@@ -0,0 +1,178 @@
+import { getDb } from './connection.js';
+import { recordTaskHistory } from './queries.js';
+import { audited, auditOperation } from './audit.js';
+import { currentActor } from '../utils/actor.js';
+
+// Every workflow status maps to one of these, and everything that needs to know
+// whether a task is open, blocked or finished asks about the category, never the status name.
+export const STATUS_CATEGORIES = ['not_started', 'active', 'blocked', 'review', 'done', 'cancelled'] as const;
+export type StatusCategory = (typeof STATUS_CATEGORIES)[number];
+
+// Categories of a task that is finished one way or another
+export const CLOSED_CATEGORIES: StatusCategory[] = ['done', 'cancelled'];
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  category: StatusCategory;
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  // from status -> statuses it may move to; null when any move is allowed
+  transitions: Record<string, string[]> | null;
+}
+
+// Category of the status of the task aliased as `alias`, for use inside SQL.
+export function statusCategorySql(alias: string): string {
+  return `(SELECT ws.category FROM workflow_statuses ws WHERE ws.project_id = ${alias}.project_id AND ws.key = ${alias}.status)`;
+}
+
+// SQL list literal for a set of categories, e.g. "('done', 'cancelled')"
+export function categoryListSql(categories: StatusCategory[]): string {
+  return `(${categories.map(c => `'${c}'`).join(', ')})`;
+}
+
+export function getWorkflow(projectId: string): Workflow {
+  const db = getDb();
+  const statuses = db.prepare(
+    'SELECT key, label, category FROM workflow_statuses WHERE project_id = ? ORDER BY position'
+  ).all(projectId) as WorkflowStatus[];
+  const rows = db.prepare(
+    `SELECT t.from_status, t.to_status FROM workflow_transitions t
+     JOIN workflow_statuses s ON s.project_id = t.project_id AND s.key = t.to_status
+     WHERE t.project_id = ? ORDER BY s.position`
+  ).all(projectId) as { from_status: string; to_status: string }[];
+
+  let transitions: Record<string, string[]> | null = null;
+  if (rows.length > 0) {
+    transitions = Object.fromEntries(statuses.map(s => [s.key, [] as string[]]));
+    for (const row of rows) transitions[row.from_status].push(row.to_status);
+  }
+  return { statuses, transitions };
+}
+
+export function categoryOf(projectId: string, status: string): StatusCategory | null {
+  const db = getDb();
+  const row = db.prepare('SELECT category FROM workflow_statuses WHERE project_id = ? AND key = ?').get(projectId, status) as { category: StatusCategory } | undefined;
+  return row?.category ?? null;
+}
+
+// True if `status` is a done or cancelled status in the project's workflow
+export function isClosedStatus(projectId: string, status: string): boolean {
+  const category = categoryOf(projectId, status);
+  return category !== null && CLOSED_CATEGORIES.includes(category);
+}
+
+// First status (in workflow order) of the given category, or null if the workflow has none
+export function firstStatusIn(projectId: string, category: StatusCategory): string | null {
+  const db = getDb();
+  const row = db.prepare(
+    'SELECT key FROM workflow_statuses WHERE project_id = ? AND category = ? ORDER BY position LIMIT 1'
+  ).get(projectId, category) as { key: string } | undefined;
+  return row?.key ?? null;
+}
+
+// Status new tasks start in: the first "not started" status, else the first status
+export function initialStatus(projectId: string): string {
+  const db = getDb();
+  const row = db.prepare(
+    `SELECT key FROM workflow_statuses WHERE project_id = ?
+     ORDER BY CASE category WHEN 'not_started' THEN 0 ELSE 1 END, position LIMIT 1`
+  ).get(projectId) as { key: string } | undefined;
+  return row?.key ?? 'todo';
+}
+
+function unknownStatusError(workflow: Workflow, status: string): string | null {
+  if (workflow.statuses.some(s => s.key === status)) return null;
+  return `Unknown status "${status}". Valid statuses: ${workflow.statuses.map(s => s.key).join(', ')}.`;
+}
+
+// Error message if `status` is not part of the project's workflow, else null.
+export function checkStatus(projectId: string, status: string): string | null {
+  return unknownStatusError(getWorkflow(projectId), status);
+}
+
+// Error message if a task in `projectId` may not move from `from` to `to`, else null.
+export function checkStatusChange(projectId: string, from: string, to: string): string | null {
+  const workflow = getWorkflow(projectId);
+  const unknown = unknownStatusError(workflow, to);
+  if (unknown) return unknown;
+  if (from === to || !workflow.transitions) return null;
+  const allowed = workflow.transitions[from] ?? [];
+  if (!allowed.includes(to)) {
+    return `Cannot move from "${from}" to "${to}". Allowed from "${from}": ${allowed.length > 0 ? allowed.join(', ') : 'none'}.`;
+  }
+  return null;
+}
+
+const STATUS_KEY = /^[a-z][a-z0-9_]*$/;
+
+// Replace a project's workflow. Tasks in statuses that disappear must be moved
+// with `remap` (old status -> new status); otherwise the change is refused.
+export function setWorkflow(
+  projectId: string,
+  workflow: Workflow,
+  remap: Record<string, string> = {},
+): { workflow: Workflow } | { error: string } {
+  const db = getDb();
+  const keys = workflow.statuses.map(s => s.key);
+
+  if (keys.length === 0) return { error: 'A workflow needs at least one status.' };
+  const badKey = keys.find(k => !STATUS_KEY.test(k));
+  if (badKey !== undefined) return { error: `Invalid status key "${badKey}": use lowercase letters, digits and underscores.` };
+  const duplicate = keys.find((k, i) => keys.indexOf(k) !== i);
+  if (duplicate) return { error: `Duplicate status "${duplicate}".` };
+  const badCategory = workflow.statuses.find(s => !STATUS_CATEGORIES.includes(s.category));
+  if (badCategory) return { error: `Invalid category "${badCategory.category}" for "${badCategory.key}". Use one of: ${STATUS_CATEGORIES.join(', ')}.` };
+  for (const [from, tos] of Object.entries(workflow.transitions ?? {})) {
+    const unknown = [from, ...tos].find(k => !keys.includes(k));
+    if (unknown !== undefined) return { error: `Transition refers to unknown status "${unknown}".` };
+  }
+  for (const [from, to] of Object.entries(remap)) {
+    if (!keys.includes(to)) return { error: `Cannot remap "${from}" to unknown status "${to}".` };
+  }
+
+  const inUse = db.prepare(
+    'SELECT status, COUNT(*) AS n FROM tasks WHERE project_id = ? GROUP BY status'
+  ).all(projectId) as { status: string; n: number }[];
+  const stranded = inUse.filter(r => !keys.includes(r.status) && !remap[r.status]);
+  if (stranded.length > 0) {
+    return {
+      error: `Tasks still use removed statuses: ${stranded.map(r => `${r.status} (${r.n})`).join(', ')}. Pass remap to move them.`,
+    };
+  }
+
+  auditOperation(db.transaction(() => {
+    db.prepare('DELETE FROM workflow_transitions WHERE project_id = ?').run(projectId);
+    const upsert = db.prepare(
+      `INSERT INTO workflow_statuses (project_id, key, label, category, position) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, key) DO UPDATE SET label = excluded.label, category = excluded.category, position = excluded.position`
+    );
+    workflow.statuses.forEach((s, i) => upsert.run(projectId, s.key, s.label, s.category, i));
+
+    const tasksIn = db.prepare('SELECT id FROM tasks WHERE project_id = ? AND status = ?');
+    const moveTask = db.prepare('UPDATE tasks SET status = ?, updated_by = ? WHERE id = ?');
+    for (const { status } of inUse) {
+      if (keys.includes(status)) continue;
+      for (const { id } of tasksIn.all(projectId, status) as { id: string }[]) {
+        audited('task', id, () => {
+          moveTask.run(remap[status], currentActor(), id);
+          recordTaskHistory(id, 'status_changed', status, remap[status]);
+        });
+      }
+    }
+    db.prepare(
+      `DELETE FROM workflow_statuses WHERE project_id = ? AND key NOT IN (${keys.map(() => '?').join(',')})`
+    ).run(projectId, ...keys);
+
+    const insertTransition = db.prepare('INSERT OR IGNORE INTO workflow_transitions (project_id, from_status, to_status) VALUES (?, ?, ?)');
+    for (const [from, tos] of Object.entries(workflow.transitions ?? {})) {
+      for (const to of tos) {
+        if (to !== from) insertTransition.run(projectId, from, to);
+      }
+    }
+  }));
+
+  return { workflow: getWorkflow(projectId) };
+}
@@ -10,8 +10,22 @@ import { registerSessionTools } from './tools/sessions.js';
 import { registerQueryTools } from './tools/queries.js';
 import { registerMetaTools } from './tools/meta.js';
 import { registerDeliveryMetricsTools } from './tools/delivery-metrics.js';
-import { closeDb, ensureDbDirectory } from './db/connection.js';
+import { registerTagTools } from './tools/tags.js';
+import { registerTrashTools } from './tools/trash.js';
+import { registerWorkflowTools } from './tools/workflow.js';
+import { registerFieldTools } from './tools/fields.js';
+import { registerMilestoneTools } from './tools/milestones.js';
+import { registerPeopleTools } from './tools/people.js';
+import { registerClaimTools } from './tools/claims.js';
+import { registerAuditTools } from './tools/audit.js';
+import { registerCommentTools } from './tools/comments.js';
+import { registerLinkTools } from './tools/links.js';
+import { registerGraphTools } from './tools/graph.js';
+import { registerAdrTools } from './tools/adrs.js';
+import { closeDb, ensureDbDirectory, migrateDb } from './db/connection.js';
+import { purgeTrash, trashRetentionDays } from './db/trash.js';
 import { startHttpServer } from './server/http.js';
+import { setMcpClient } from './utils/actor.js';
 import { Server } from 'node:http';
 import { createRequire } from 'node:module';
 
@@ -30,6 +44,9 @@ const server = new McpServer(
   },
 );
 
+// Attribute writes to the connected client, as named in its initialize request
+server.server.oninitialized = () => setMcpClient(server.server.getClientVersion());
+
 // Register all tool groups
 registerProjectTools(server);
 registerTaskTools(server);
@@ -39,13 +56,50 @@ registerSessionTools(server);
 registerQueryTools(server);
 registerMetaTools(server);
 registerDeliveryMetricsTools(server);
+registerTagTools(server);
+registerTrashTools(server);
+registerWorkflowTools(server);
+registerFieldTools(server);
+registerMilestoneTools(server);
+registerPeopleTools(server);
+registerClaimTools(server);
+registerAuditTools(server);
+registerCommentTools(server);
+registerLinkTools(server);
+registerGraphTools(server);
+registerAdrTools(server);
 
 // Start the server
 let httpServer: Server | undefined;
 
 async function main() {
+  // `mindpm migrate [--dry-run]` applies or reports schema migrations and exits
+  if (process.argv[2] === 'migrate') {
+    const report = migrateDb({ dryRun: process.argv.includes('--dry-run') });
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    return;
+  }
+
   ensureDbDirectory();
 
+  // Permanently remove trashed items past the retention period, now and every few hours
+  const retentionDays = trashRetentionDays();
+  if (retentionDays > 0) {
+    // A failed purge is logged and retried on the next run rather than stopping the server
+    const purge = () => {
+      try {
+        const purged = purgeTrash(retentionDays);
+        if (purged.tasks + purged.notes + purged.decisions > 0) {
+          process.stderr.write(`[mindpm] Purged from trash: ${purged.tasks} task(s), ${purged.notes} note(s), ${purged.decisions} decision(s)\n`);
+        }
+      } catch (error) {
+        process.stderr.write(`[mindpm] Purging the trash failed: ${error instanceof Error ? error.message : String(error)}\n`);
+      }
+    };
+    purge();
+    setInterval(purge, 6 * 60 * 60 * 1000).unref();
+  }
+
   // Start HTTP server for Kanban UI
   const port = parseInt(process.env.MINDPM_PORT || '3131', 10);
   httpServer = startHttpServer(port);
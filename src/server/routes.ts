@@ -2,7 +2,25 @@ import { IncomingMessage, ServerResponse } from 'node:http';
 import { getDb, generateId, resolveProjectOrDefault, resolveProjectId, recordTaskHistory, resolveTaskId } from '../db/queries.js';
 import { generateSlug } from '../utils/ids.js';
 import { computeDeliveryMetrics } from '../db/metrics.js';
+import { getBurndown } from '../db/burndown.js';
+import { blockedBySql, resolveBlockers, setDependencies, addDependenciesAndBlock, autoBlockStatus, removeDependency, unblockDependents, unblockTasks, type UnblockedTask } from '../db/dependencies.js';
+import { listTags, retagTask, setTags, tagsSql } from '../db/tags.js';
+import { statusCategorySql, categoryListSql, categoryOf, checkStatusChange, getWorkflow, initialStatus, isClosedStatus, CLOSED_CATEGORIES } from '../db/workflow.js';
+import { checkTaskDates } from '../db/deadlines.js';
+import { checkEstimate, ESTIMATE_UNITS, type EstimateUnit } from '../db/estimates.js';
+import { listMilestones, resolveOpenMilestone } from '../db/milestones.js';
+import { assignTask, listPeople, personHandleSql, resolveAssignee } from '../db/people.js';
+import { fieldsSql, listFields, setFieldValues, validateFieldValues, type FieldInput } from '../db/custom-fields.js';
+import { listTrash, restoreItem, trashItem, trashTask, type TrashItemType } from '../db/trash.js';
+import { audited, auditOperation, queryAuditLog, AUDIT_ENTITY_TYPES, type AuditEntityType } from '../db/audit.js';
+import { recentOperations, undoOperations } from '../db/undo.js';
+import { addComment, deleteComment, editComment, getComment, listComments } from '../db/comments.js';
+import { createLink, deleteLink, listLinks, resolveEntity, LINK_TYPES, type LinkType, type LinkableType } from '../db/links.js';
+import { exploreGraph } from '../db/graph.js';
+import { supersededBySql } from '../db/decisions.js';
+import { listNoteRevisions, updateNote, type NoteCategory } from '../db/notes.js';
 import { matchRoute, parseBody, sendJson } from './http.js';
+import { KANBAN_UI_ACTOR, withActor } from '../utils/actor.js';
 
 type RouteHandler = (
   req: IncomingMessage,
@@ -25,8 +43,8 @@ const listProjects: RouteHandler = async (_req, res) => {
 
   const sql = `
     SELECT p.*,
-      (SELECT COUNT(*) FROM tasks WHERE project_id = p.id AND status NOT IN ('done','cancelled')) AS active_task_count,
-      (SELECT COUNT(*) FROM tasks WHERE project_id = p.id AND status = 'done') AS done_task_count
+      (SELECT COUNT(*) FROM tasks t WHERE t.project_id = p.id AND t.deleted_at IS NULL AND ${statusCategorySql('t')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}) AS active_task_count,
+      (SELECT COUNT(*) FROM tasks t WHERE t.project_id = p.id AND t.deleted_at IS NULL AND ${statusCategorySql('t')} = 'done') AS done_task_count
     FROM projects p
     ${status ? 'WHERE p.status = ?' : ''}
     ORDER BY p.updated_at DESC
@@ -46,7 +64,7 @@ const getProject: RouteHandler = async (_req, res, params) => {
   }
 
   const taskCounts = db
-    .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? GROUP BY status')
+    .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? AND deleted_at IS NULL GROUP BY status')
     .all(params.id);
 
   sendJson(res, 200, { ...project, task_counts: taskCounts });
@@ -77,6 +95,14 @@ const updateProject: RouteHandler = async (req, res, params) => {
     updates.push('status = ?');
     sqlParams.push(body.status);
   }
+  if (body.estimate_unit !== undefined) {
+    if (!ESTIMATE_UNITS.includes(body.estimate_unit as EstimateUnit)) {
+      sendJson(res, 400, { error: `estimate_unit must be one of: ${ESTIMATE_UNITS.join(', ')}` });
+      return;
+    }
+    updates.push('estimate_unit = ?');
+    sqlParams.push(body.estimate_unit);
+  }
 
   if (updates.length === 0) {
     sendJson(res, 400, { error: 'No updates provided' });
@@ -85,7 +111,7 @@ const updateProject: RouteHandler = async (req, res, params) => {
 
   sqlParams.push(params.id);
   try {
-    db.prepare(`UPDATE projects SET ${updates.join(', ')} WHERE id = ?`).run(...sqlParams);
+    audited('project', params.id as string, () => db.prepare(`UPDATE projects SET ${updates.join(', ')} WHERE id = ?`).run(...sqlParams));
   } catch (e: any) {
     if (e.message?.includes('UNIQUE constraint failed')) {
       sendJson(res, 409, { error: 'A project with that name already exists' });
@@ -100,14 +126,19 @@ const updateProject: RouteHandler = async (req, res, params) => {
 
 // --- Task handlers ---
 
+const TASK_COLUMNS_SQL = `t.*, ${tagsSql('task', 't')} AS tags, ${fieldsSql('t')} AS fields, ${blockedBySql()} AS blocked_by,
+  ${personHandleSql('t.assignee_id')} AS assignee, ${personHandleSql('t.reviewer_id')} AS reviewer`;
+
+const TASK_BY_ID_SQL = `SELECT ${TASK_COLUMNS_SQL}, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.id = ?`;
+
 const listTasks: RouteHandler = async (req, res, params) => {
   const db = getDb();
   const url = new URL(req.url || '/', 'http://localhost');
   const includeDone = url.searchParams.get('include_done') === 'true';
 
-  let sql = 'SELECT t.*, p.slug || \'-\' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.project_id = ?';
+  let sql = `SELECT ${TASK_COLUMNS_SQL}, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.project_id = ? AND t.deleted_at IS NULL`;
   if (!includeDone) {
-    sql += " AND t.status NOT IN ('done', 'cancelled')";
+    sql += ` AND ${statusCategorySql('t')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}`;
   }
   sql += " ORDER BY CASE t.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END, t.created_at DESC";
 
@@ -115,6 +146,13 @@ const listTasks: RouteHandler = async (req, res, params) => {
   sendJson(res, 200, rows);
 };
 
+// Validate the `fields` member of a task body against the project's custom fields.
+function parseFieldValues(projectId: string, raw: unknown): { values: Record<string, string | null> } | { error: string } | undefined {
+  if (raw === undefined) return undefined;
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) return { error: 'fields must be an object' };
+  return validateFieldValues(projectId, raw as FieldInput);
+}
+
 const createTask: RouteHandler = async (req, res, params) => {
   const db = getDb();
   const body = await parseBody(req);
@@ -130,28 +168,66 @@ const createTask: RouteHandler = async (req, res, params) => {
     sendJson(res, 404, { error: 'Project not found' });
     return;
   }
+  const fieldValues = parseFieldValues(params.pid as string, body.fields);
+  if (fieldValues && 'error' in fieldValues) {
+    sendJson(res, 400, { error: fieldValues.error });
+    return;
+  }
+  const dates = { start_at: (body.start_at as string | null | undefined) || null, due_at: (body.due_at as string | null | undefined) || null };
+  const datesError = checkTaskDates(dates);
+  if (datesError) {
+    sendJson(res, 400, { error: datesError });
+    return;
+  }
+  const estimate = body.estimate ?? null;
+  const estimateError = checkEstimate(estimate);
+  if (estimateError) {
+    sendJson(res, 400, { error: estimateError });
+    return;
+  }
+  const milestone = body.milestone_id ? resolveOpenMilestone(params.pid as string, String(body.milestone_id)) : undefined;
+  if (milestone && 'error' in milestone) {
+    sendJson(res, 400, { error: milestone.error });
+    return;
+  }
+  const assignee = body.assignee_id ? resolveAssignee(String(body.assignee_id)) : undefined;
+  if (assignee && 'error' in assignee) {
+    sendJson(res, 400, { error: assignee.error });
+    return;
+  }
 
   const id = generateId();
   const priority = (body.priority as string) || 'medium';
-  const tags = Array.isArray(body.tags) ? JSON.stringify(body.tags) : null;
+  const status = initialStatus(params.pid as string);
   const seqRow = db.prepare('SELECT COALESCE(MAX(seq), 0) + 1 AS next_seq FROM tasks WHERE project_id = ?').get(params.pid) as { next_seq: number };
   const seq = seqRow.next_seq;
 
-  db.prepare(
-    'INSERT INTO tasks (id, project_id, seq, title, description, priority, tags, parent_task_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-  ).run(
-    id,
-    params.pid,
-    seq,
-    body.title,
-    (body.description as string) ?? null,
-    priority,
-    tags,
-    (body.parent_task_id as string) ?? null,
-  );
-
-  const task = db.prepare('SELECT t.*, p.slug || \'-\' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.id = ?').get(id);
-  recordTaskHistory(id, 'created', null, JSON.stringify({ status: priority === 'medium' ? 'todo' : priority, priority }));
+  audited('task', id, db.transaction(() => {
+    db.prepare(
+      'INSERT INTO tasks (id, project_id, seq, title, description, status, priority, parent_task_id, start_at, due_at, estimate, milestone_id, assignee_id, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    ).run(
+      id,
+      params.pid,
+      seq,
+      body.title,
+      (body.description as string) ?? null,
+      status,
+      priority,
+      (body.parent_task_id as string) ?? null,
+      dates.start_at,
+      dates.due_at,
+      estimate,
+      milestone?.id ?? null,
+      assignee?.id ?? null,
+      KANBAN_UI_ACTOR,
+      KANBAN_UI_ACTOR,
+    );
+    if (Array.isArray(body.tags)) setTags('task', id, params.pid as string, body.tags.map(String));
+    if (fieldValues) setFieldValues(id, params.pid as string, fieldValues.values);
+  }));
+
+  const task = db.prepare(TASK_BY_ID_SQL).get(id);
+  recordTaskHistory(id, 'created', null, JSON.stringify({ status, priority }));
   sendJson(res, 201, task);
 };
 
@@ -170,6 +246,53 @@ const updateTask: RouteHandler = async (req, res, params) => {
     return;
   }
 
+  const projectId = existing.project_id as string;
+  if (body.status !== undefined) {
+    const statusError = checkStatusChange(projectId, existing.status as string, String(body.status));
+    if (statusError) {
+      sendJson(res, 400, { error: statusError });
+      return;
+    }
+  }
+  const fieldValues = parseFieldValues(projectId, body.fields);
+  if (fieldValues && 'error' in fieldValues) {
+    sendJson(res, 400, { error: fieldValues.error });
+    return;
+  }
+  // Empty strings from cleared date inputs mean "no date"
+  const dates: { start_at?: string | null; due_at?: string | null } = {};
+  if (body.start_at !== undefined) dates.start_at = (body.start_at as string | null) || null;
+  if (body.due_at !== undefined) dates.due_at = (body.due_at as string | null) || null;
+  const datesError = checkTaskDates(dates, existing as { start_at: string | null; due_at: string | null });
+  if (datesError) {
+    sendJson(res, 400, { error: datesError });
+    return;
+  }
+  const estimateError = body.estimate !== undefined ? checkEstimate(body.estimate) : null;
+  if (estimateError) {
+    sendJson(res, 400, { error: estimateError });
+    return;
+  }
+  // An empty milestone_id takes the task off its milestone. Only a change is
+  // checked, so tasks left on a closed milestone stay editable.
+  const milestoneChanged = body.milestone_id !== undefined && (body.milestone_id || null) !== existing.milestone_id;
+  const milestone = milestoneChanged && body.milestone_id ? resolveOpenMilestone(projectId, String(body.milestone_id)) : undefined;
+  if (milestone && 'error' in milestone) {
+    sendJson(res, 400, { error: milestone.error });
+    return;
+  }
+  // Empty assignee_id/reviewer_id clear them
+  const people: { assignee_id?: string | null; reviewer_id?: string | null } = {};
+  for (const column of ['assignee_id', 'reviewer_id'] as const) {
+    if (body[column] === undefined) continue;
+    const person = body[column] ? resolveAssignee(String(body[column])) : { id: null };
+    if ('error' in person) {
+      sendJson(res, 400, { error: person.error });
+      return;
+    }
+    people[column] = person.id;
+  }
+
   const updates: string[] = [];
   const sqlParams: unknown[] = [];
 
@@ -178,80 +301,232 @@ const updateTask: RouteHandler = async (req, res, params) => {
   if (body.status !== undefined) {
     updates.push('status = ?');
     sqlParams.push(body.status);
-    if (body.status === 'done') {
+    if (categoryOf(projectId, body.status as string) === 'done') {
       updates.push('completed_at = CURRENT_TIMESTAMP');
     } else {
       updates.push('completed_at = NULL');
     }
   }
   if (body.priority !== undefined) { updates.push('priority = ?'); sqlParams.push(body.priority); }
-  if (body.tags !== undefined) {
-    updates.push('tags = ?');
-    sqlParams.push(Array.isArray(body.tags) ? JSON.stringify(body.tags) : null);
-  }
+  if (dates.start_at !== undefined) { updates.push('start_at = ?'); sqlParams.push(dates.start_at); }
+  if (dates.due_at !== undefined) { updates.push('due_at = ?'); sqlParams.push(dates.due_at); }
+  if (body.estimate !== undefined) { updates.push('estimate = ?'); sqlParams.push(body.estimate); }
+  if (milestoneChanged) { updates.push('milestone_id = ?'); sqlParams.push(milestone?.id ?? null); }
+  const tags = body.tags === undefined ? undefined : Array.isArray(body.tags) ? body.tags.map(String) : [];
+  let blockerIds: string[] | undefined;
+  let blockedStatus: string | null = null;
   if (body.blocked_by !== undefined) {
-    updates.push('blocked_by = ?');
-    sqlParams.push(Array.isArray(body.blocked_by) ? JSON.stringify(body.blocked_by) : null);
-    if (Array.isArray(body.blocked_by) && body.blocked_by.length > 0 && body.status === undefined) {
-      updates.push("status = 'blocked'");
+    const refs = Array.isArray(body.blocked_by) ? body.blocked_by.map(String) : [];
+    const resolvedBlockers = resolveBlockers(resolvedId, refs);
+    if ('error' in resolvedBlockers) {
+      sendJson(res, 400, { error: resolvedBlockers.error });
+      return;
     }
+    blockerIds = resolvedBlockers.ids;
+    if (body.status === undefined) blockedStatus = autoBlockStatus(resolvedId, blockerIds);
+    if (blockedStatus !== null) { updates.push('status = ?'); sqlParams.push(blockedStatus); }
   }
 
-  if (updates.length === 0) {
+  if (updates.length === 0 && blockerIds === undefined && tags === undefined && fieldValues === undefined && Object.keys(people).length === 0) {
     sendJson(res, 400, { error: 'No updates provided' });
     return;
   }
 
-  sqlParams.push(resolvedId);
-  db.prepare(`UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`).run(...sqlParams);
+  let unblocked: UnblockedTask[] = [];
+  auditOperation(() => {
+    audited('task', resolvedId, db.transaction(() => {
+      if (blockerIds !== undefined) setDependencies(resolvedId, blockerIds);
+      if (tags !== undefined) {
+        retagTask(resolvedId, projectId, tags);
+      }
+      if (fieldValues !== undefined) setFieldValues(resolvedId, projectId, fieldValues.values);
+      if ((tags !== undefined || fieldValues !== undefined) && updates.length === 0) {
+        updates.push('updated_at = CURRENT_TIMESTAMP');
+      }
+      if (updates.length > 0) {
+        updates.push('updated_by = ?');
+        sqlParams.push(KANBAN_UI_ACTOR);
+        db.prepare(`UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`).run(...sqlParams, resolvedId);
+      }
+      assignTask(existing as { id: string; assignee_id: string | null; reviewer_id: string | null }, people);
+    }));
+
+    // Record history for meaningful field changes
+    const newStatus = (body.status as string | undefined) ?? blockedStatus ?? existing.status as string;
+    if (newStatus !== existing.status) {
+      recordTaskHistory(resolvedId, 'status_changed', existing.status as string, newStatus);
+      if (isClosedStatus(projectId, newStatus)) {
+        unblocked = unblockDependents(resolvedId);
+      }
+    }
+    // Replacing the blockers may have left none open
+    if (blockerIds !== undefined && body.status === undefined) {
+      unblocked = [...unblockTasks([resolvedId]), ...unblocked];
+    }
+    if (body.priority !== undefined && body.priority !== existing.priority) {
+      recordTaskHistory(resolvedId, 'priority_changed', existing.priority as string, body.priority as string);
+    }
+    if (body.title !== undefined && body.title !== existing.title) {
+      recordTaskHistory(resolvedId, 'title_changed', existing.title as string, body.title as string);
+    }
+    if (milestoneChanged) {
+      recordTaskHistory(resolvedId, 'milestone_changed', existing.milestone_id as string | null, milestone?.id ?? null);
+    }
+  });
+
+  const updated = db.prepare(TASK_BY_ID_SQL).get(resolvedId) as Record<string, unknown>;
+  sendJson(res, 200, { ...updated, unblocked });
+};
+
+// Deleting moves the task, its sub-tasks and their notes to the trash; see restoreTrashItem.
+const deleteTask: RouteHandler = async (_req, res, params) => {
+  const resolvedId = resolveTaskId(params.id as string);
+  if (!resolvedId) {
+    sendJson(res, 404, { error: 'Task not found' });
+    return;
+  }
+
+  const { trashed, unblocked } = trashTask(resolvedId);
+  sendJson(res, 200, { message: 'Task moved to trash', trashed, unblocked });
+};
+
+// --- Dependency handlers ---
+
+const addTaskDependency: RouteHandler = async (req, res, params) => {
+  const db = getDb();
+  const body = await parseBody(req);
 
-  // Record history for meaningful field changes
-  if (body.status !== undefined && body.status !== existing.status) {
-    recordTaskHistory(resolvedId, 'status_changed', existing.status as string, body.status as string);
+  const resolvedId = resolveTaskId(params.id as string);
+  if (!resolvedId) {
+    sendJson(res, 404, { error: 'Task not found' });
+    return;
   }
-  if (body.priority !== undefined && body.priority !== existing.priority) {
-    recordTaskHistory(resolvedId, 'priority_changed', existing.priority as string, body.priority as string);
+  const refs = Array.isArray(body.blocked_by) ? body.blocked_by.map(String) : typeof body.blocked_by === 'string' ? [body.blocked_by] : [];
+  if (refs.length === 0) {
+    sendJson(res, 400, { error: 'blocked_by is required' });
+    return;
   }
-  if (body.title !== undefined && body.title !== existing.title) {
-    recordTaskHistory(resolvedId, 'title_changed', existing.title as string, body.title as string);
+  const resolvedBlockers = resolveBlockers(resolvedId, refs);
+  if ('error' in resolvedBlockers) {
+    sendJson(res, 400, { error: resolvedBlockers.error });
+    return;
   }
 
-  const updated = db.prepare('SELECT t.*, p.slug || \'-\' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.id = ?').get(resolvedId);
-  sendJson(res, 200, updated);
+  addDependenciesAndBlock(resolvedId, resolvedBlockers.ids);
+  sendJson(res, 200, db.prepare(TASK_BY_ID_SQL).get(resolvedId));
 };
 
-const deleteTask: RouteHandler = async (_req, res, params) => {
+const removeTaskDependency: RouteHandler = async (_req, res, params) => {
   const db = getDb();
+  const resolvedId = resolveTaskId(params.id as string);
+  const blockerId = resolveTaskId(params.blockerId as string);
+  const removed = resolvedId && blockerId ? removeDependency(resolvedId, blockerId) : null;
+  if (!removed) {
+    sendJson(res, 404, { error: 'Dependency not found' });
+    return;
+  }
+  sendJson(res, 200, { ...db.prepare(TASK_BY_ID_SQL).get(resolvedId) as Record<string, unknown>, unblocked: removed.unblocked });
+};
 
+// --- Comment handlers ---
+
+const listTaskComments: RouteHandler = async (_req, res, params) => {
   const resolvedId = resolveTaskId(params.id as string);
   if (!resolvedId) {
     sendJson(res, 404, { error: 'Task not found' });
     return;
   }
+  sendJson(res, 200, listComments(resolvedId));
+};
 
-  const existing = db.prepare('SELECT * FROM tasks WHERE id = ?').get(resolvedId);
-  if (!existing) {
+const createTaskComment: RouteHandler = async (req, res, params) => {
+  const body = await parseBody(req);
+  const resolvedId = resolveTaskId(params.id as string);
+  if (!resolvedId) {
     sendJson(res, 404, { error: 'Task not found' });
     return;
   }
+  const result = addComment(resolvedId, typeof body.body === 'string' ? body.body : '');
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, 201, result);
+};
 
-  const deleteTransaction = db.transaction((taskId: string) => {
-    // Get subtask IDs
-    const subtasks = db.prepare('SELECT id FROM tasks WHERE parent_task_id = ?').all(taskId) as { id: string }[];
-    for (const sub of subtasks) {
-      db.prepare('DELETE FROM task_history WHERE task_id = ?').run(sub.id);
-      db.prepare('DELETE FROM notes WHERE task_id = ?').run(sub.id);
-      db.prepare('DELETE FROM tasks WHERE id = ?').run(sub.id);
-    }
-    // Delete history and notes linked to this task
-    db.prepare('DELETE FROM task_history WHERE task_id = ?').run(taskId);
-    db.prepare('DELETE FROM notes WHERE task_id = ?').run(taskId);
-    // Delete the task
-    db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
-  });
+const updateComment: RouteHandler = async (req, res, params) => {
+  const body = await parseBody(req);
+  const result = editComment(params.id as string, typeof body.body === 'string' ? body.body : '');
+  if ('error' in result) {
+    sendJson(res, getComment(params.id as string) ? 400 : 404, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result);
+};
+
+// The board belongs to the project owner, who may remove anyone's comment.
+const removeComment: RouteHandler = async (_req, res, params) => {
+  const result = deleteComment(params.id as string, { anyAuthor: true });
+  if ('error' in result) {
+    sendJson(res, 404, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result);
+};
+
+// --- Link handlers ---
+
+const listTaskLinks: RouteHandler = async (_req, res, params) => {
+  const resolvedId = resolveTaskId(params.id as string);
+  if (!resolvedId) {
+    sendJson(res, 404, { error: 'Task not found' });
+    return;
+  }
+  sendJson(res, 200, listLinks(resolvedId));
+};
+
+const createLinkHandler: RouteHandler = async (req, res) => {
+  const body = await parseBody(req);
+  if (typeof body.from !== 'string' || typeof body.to !== 'string' || !LINK_TYPES.includes(body.type as LinkType)) {
+    sendJson(res, 400, { error: `from, to and a type (${LINK_TYPES.join(', ')}) are required` });
+    return;
+  }
+  const result = createLink(body.from, body.to, body.type as LinkType);
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, result.created ? 201 : 200, result.link);
+};
 
-  deleteTransaction(resolvedId);
-  sendJson(res, 200, { message: 'Task deleted' });
+const removeLink: RouteHandler = async (_req, res, params) => {
+  const result = deleteLink(params.id as string);
+  if ('error' in result) {
+    sendJson(res, 404, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result);
+};
+
+// --- Graph handler ---
+
+const getGraph: RouteHandler = async (req, res, params) => {
+  if (!resolveEntity(params.id as string)) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+  const url = new URL(req.url || '/', 'http://localhost');
+  const depth = url.searchParams.get('depth');
+  const kinds = url.searchParams.get('kinds');
+  const result = exploreGraph(params.id as string, {
+    depth: depth ? Number(depth) : undefined,
+    kinds: kinds ? kinds.split(',') as LinkableType[] : undefined,
+  });
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result);
 };
 
 // --- Task history handler ---
@@ -284,6 +559,29 @@ const getMetrics: RouteHandler = async (req, res, params) => {
   sendJson(res, 200, metrics);
 };
 
+const getProjectBurndown: RouteHandler = async (req, res, params) => {
+  const db = getDb();
+  const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(params.pid);
+  if (!project) {
+    sendJson(res, 404, { error: 'Project not found' });
+    return;
+  }
+  const url = new URL(req.url || '/', 'http://localhost');
+  const query = (key: string) => url.searchParams.get(key) || undefined;
+  const result = getBurndown(params.pid as string, {
+    tag: query('tag'),
+    parent: query('parent'),
+    milestone: query('milestone'),
+    start_date: query('start'),
+    target_date: query('target'),
+  });
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result);
+};
+
 // --- Session handlers ---
 
 const createSession: RouteHandler = async (req, res, params) => {
@@ -302,9 +600,9 @@ const createSession: RouteHandler = async (req, res, params) => {
   }
 
   const id = generateId();
-  db.prepare(
-    'INSERT INTO sessions (id, project_id, summary, next_steps) VALUES (?, ?, ?, ?)',
-  ).run(id, params.pid, body.summary, (body.next_steps as string) ?? null);
+  audited('session', id, () => db.prepare(
+    'INSERT INTO sessions (id, project_id, summary, next_steps, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?)',
+  ).run(id, params.pid, body.summary, (body.next_steps as string) ?? null, KANBAN_UI_ACTOR, KANBAN_UI_ACTOR));
 
   const session = db.prepare('SELECT * FROM sessions WHERE id = ?').get(id);
   sendJson(res, 201, session);
@@ -312,20 +610,187 @@ const createSession: RouteHandler = async (req, res, params) => {
 
 // --- Note handlers ---
 
+const NOTE_COLUMNS = `n.*, ${tagsSql('note', 'n')} AS tags, (SELECT COUNT(*) FROM note_revisions r WHERE r.note_id = n.id) AS revision_count`;
+
 const listNotes: RouteHandler = async (_req, res, params) => {
   const db = getDb();
-  const rows = db.prepare('SELECT * FROM notes WHERE project_id = ? ORDER BY created_at DESC').all(params.pid);
+  const rows = db.prepare(`SELECT ${NOTE_COLUMNS} FROM notes n WHERE n.project_id = ? AND n.deleted_at IS NULL ORDER BY n.pinned DESC, n.created_at DESC`).all(params.pid);
   sendJson(res, 200, rows);
 };
 
+const patchNote: RouteHandler = async (req, res, params) => {
+  const db = getDb();
+  const body = await parseBody(req);
+  if (!db.prepare('SELECT 1 FROM notes WHERE id = ? AND deleted_at IS NULL').get(params.id)) {
+    sendJson(res, 404, { error: 'Note not found' });
+    return;
+  }
+  let taskId: string | null | undefined;
+  if (body.task_id === null || body.task_id === '') {
+    taskId = null;
+  } else if (body.task_id !== undefined) {
+    taskId = resolveTaskId(String(body.task_id));
+    if (!taskId) {
+      sendJson(res, 400, { error: `Task "${body.task_id}" not found` });
+      return;
+    }
+  }
+
+  const result = updateNote(params.id as string, {
+    content: typeof body.content === 'string' ? body.content : undefined,
+    category: typeof body.category === 'string' ? body.category as NoteCategory : undefined,
+    task_id: taskId,
+    tags: Array.isArray(body.tags) ? body.tags.map(String) : undefined,
+    pinned: typeof body.pinned === 'boolean' ? body.pinned : undefined,
+  });
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, db.prepare(`SELECT ${NOTE_COLUMNS} FROM notes n WHERE n.id = ?`).get(params.id));
+};
+
+// Deleting moves the note to the trash; see restoreTrashItem.
+const deleteNote: RouteHandler = async (_req, res, params) => {
+  if (!trashItem('note', params.id as string)) {
+    sendJson(res, 404, { error: 'Note not found' });
+    return;
+  }
+  sendJson(res, 200, { message: 'Note moved to trash' });
+};
+
+const getNoteRevisions: RouteHandler = async (_req, res, params) => {
+  const revisions = listNoteRevisions(params.id as string);
+  if ('error' in revisions) {
+    sendJson(res, 404, { error: revisions.error });
+    return;
+  }
+  sendJson(res, 200, revisions);
+};
+
 // --- Decision handlers ---
 
 const listDecisions: RouteHandler = async (_req, res, params) => {
   const db = getDb();
-  const rows = db.prepare('SELECT * FROM decisions WHERE project_id = ? ORDER BY created_at DESC').all(params.pid);
+  const rows = db.prepare(`SELECT d.*, ${tagsSql('decision', 'd')} AS tags, ${supersededBySql('d')} AS superseded_by FROM decisions d WHERE d.project_id = ? AND d.deleted_at IS NULL ORDER BY d.created_at DESC`).all(params.pid);
   sendJson(res, 200, rows);
 };
 
+// Deleting moves the decision to the trash; see restoreTrashItem.
+const deleteDecision: RouteHandler = async (_req, res, params) => {
+  if (!trashItem('decision', params.id as string)) {
+    sendJson(res, 404, { error: 'Decision not found' });
+    return;
+  }
+  sendJson(res, 200, { message: 'Decision moved to trash' });
+};
+
+// --- Trash handlers ---
+
+const listProjectTrash: RouteHandler = async (_req, res, params) => {
+  sendJson(res, 200, listTrash(params.pid as string));
+};
+
+const restoreTrashItem: RouteHandler = async (_req, res, params) => {
+  if (!['task', 'note', 'decision'].includes(params.type)) {
+    sendJson(res, 400, { error: 'type must be task, note or decision' });
+    return;
+  }
+  const id = params.type === 'task' ? resolveTaskId(params.id, { includeTrashed: true }) ?? params.id : params.id;
+  const result = restoreItem(params.type as TrashItemType, id);
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result);
+};
+
+// --- Audit log handlers ---
+
+const getProjectAuditLog: RouteHandler = async (req, res, params) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const query = (key: string) => url.searchParams.get(key) || undefined;
+  const entityType = query('entity_type');
+  if (entityType && !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+    sendJson(res, 400, { error: `entity_type must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}` });
+    return;
+  }
+  const entityId = query('entity_id');
+  const result = queryAuditLog({
+    projectId: params.pid as string,
+    entityType: entityType as AuditEntityType | undefined,
+    entityId: entityType === 'task' && entityId ? resolveTaskId(entityId, { includeTrashed: true }) ?? entityId : entityId,
+    actor: query('actor'),
+    since: query('since'),
+    until: query('until'),
+    limit: Math.min(500, Math.max(1, parseInt(query('limit') || '100', 10) || 100)),
+  });
+  if ('error' in result) {
+    sendJson(res, 400, { error: result.error });
+    return;
+  }
+  sendJson(res, 200, result.entries);
+};
+
+// Body: { operation_id } or { actor, count }. Conflicts come back as 409 with the details.
+const undoAuditOperations: RouteHandler = async (req, res) => {
+  const body = await parseBody(req);
+  let operations: string[];
+  if (typeof body.operation_id === 'string' && body.operation_id) {
+    operations = [body.operation_id];
+  } else if (typeof body.actor === 'string' && body.actor) {
+    const count = Math.min(100, Math.max(1, Number(body.count) || 1));
+    operations = recentOperations(body.actor, count, typeof body.project_id === 'string' ? body.project_id : undefined);
+  } else {
+    sendJson(res, 400, { error: 'operation_id or actor is required' });
+    return;
+  }
+
+  const result = undoOperations(operations);
+  if ('error' in result) {
+    sendJson(res, result.conflicts.length > 0 ? 409 : 400, result);
+    return;
+  }
+  sendJson(res, 200, result);
+};
+
+// --- Tag handlers ---
+
+const listProjectTags: RouteHandler = async (_req, res, params) => {
+  sendJson(res, 200, listTags(params.pid as string));
+};
+
+// --- Custom field handlers ---
+
+const listProjectFields: RouteHandler = async (_req, res, params) => {
+  sendJson(res, 200, listFields(params.pid as string));
+};
+
+// --- Milestone handlers ---
+
+const listProjectMilestones: RouteHandler = async (req, res, params) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  sendJson(res, 200, listMilestones(params.pid as string, { includeClosed: url.searchParams.get('include_closed') === 'true' }));
+};
+
+// --- People handlers ---
+
+const listPeopleHandler: RouteHandler = async (_req, res) => {
+  sendJson(res, 200, listPeople());
+};
+
+// --- Workflow handlers ---
+
+const getProjectWorkflow: RouteHandler = async (_req, res, params) => {
+  const db = getDb();
+  const project = db.prepare('SELECT id FROM projects WHERE id = ?').get(params.pid);
+  if (!project) {
+    sendJson(res, 404, { error: 'Project not found' });
+    return;
+  }
+  sendJson(res, 200, getWorkflow(params.pid as string));
+};
+
 // --- Route table ---
 
 const routes: Route[] = [
@@ -334,13 +799,37 @@ const routes: Route[] = [
   { method: 'PATCH', pattern: '/api/projects/:id', handler: updateProject },
   { method: 'POST', pattern: '/api/projects/:pid/sessions', handler: createSession },
   { method: 'GET', pattern: '/api/projects/:pid/notes', handler: listNotes },
+  { method: 'PATCH', pattern: '/api/notes/:id', handler: patchNote },
+  { method: 'DELETE', pattern: '/api/notes/:id', handler: deleteNote },
+  { method: 'GET', pattern: '/api/notes/:id/revisions', handler: getNoteRevisions },
   { method: 'GET', pattern: '/api/projects/:pid/decisions', handler: listDecisions },
+  { method: 'DELETE', pattern: '/api/decisions/:id', handler: deleteDecision },
+  { method: 'GET', pattern: '/api/projects/:pid/tags', handler: listProjectTags },
+  { method: 'GET', pattern: '/api/projects/:pid/trash', handler: listProjectTrash },
+  { method: 'GET', pattern: '/api/projects/:pid/audit', handler: getProjectAuditLog },
+  { method: 'POST', pattern: '/api/audit/undo', handler: undoAuditOperations },
+  { method: 'GET', pattern: '/api/projects/:pid/workflow', handler: getProjectWorkflow },
+  { method: 'GET', pattern: '/api/projects/:pid/fields', handler: listProjectFields },
+  { method: 'GET', pattern: '/api/projects/:pid/milestones', handler: listProjectMilestones },
+  { method: 'GET', pattern: '/api/people', handler: listPeopleHandler },
+  { method: 'POST', pattern: '/api/trash/:type/:id/restore', handler: restoreTrashItem },
   { method: 'GET', pattern: '/api/projects/:pid/metrics', handler: getMetrics },
+  { method: 'GET', pattern: '/api/projects/:pid/burndown', handler: getProjectBurndown },
   { method: 'GET', pattern: '/api/projects/:pid/tasks', handler: listTasks },
   { method: 'POST', pattern: '/api/projects/:pid/tasks', handler: createTask },
   { method: 'PATCH', pattern: '/api/tasks/:id', handler: updateTask },
   { method: 'DELETE', pattern: '/api/tasks/:id', handler: deleteTask },
   { method: 'GET', pattern: '/api/tasks/:id/history', handler: getTaskHistory },
+  { method: 'GET', pattern: '/api/tasks/:id/comments', handler: listTaskComments },
+  { method: 'POST', pattern: '/api/tasks/:id/comments', handler: createTaskComment },
+  { method: 'PATCH', pattern: '/api/comments/:id', handler: updateComment },
+  { method: 'DELETE', pattern: '/api/comments/:id', handler: removeComment },
+  { method: 'GET', pattern: '/api/tasks/:id/links', handler: listTaskLinks },
+  { method: 'POST', pattern: '/api/links', handler: createLinkHandler },
+  { method: 'DELETE', pattern: '/api/links/:id', handler: removeLink },
+  { method: 'GET', pattern: '/api/graph/:id', handler: getGraph },
+  { method: 'POST', pattern: '/api/tasks/:id/dependencies', handler: addTaskDependency },
+  { method: 'DELETE', pattern: '/api/tasks/:id/dependencies/:blockerId', handler: removeTaskDependency },
 ];
 
 export async function handleApiRequest(
@@ -354,7 +843,8 @@ export async function handleApiRequest(
     if (route.method !== method) continue;
     const params = matchRoute(route.pattern, url.pathname);
     if (params) {
-      await route.handler(req, res, params);
+      // Writes made while handling the request are attributed to the Kanban UI
+      await withActor(KANBAN_UI_ACTOR, () => route.handler(req, res, params));
       return;
     }
   }
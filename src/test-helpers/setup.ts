@@ -1,6 +1,6 @@
 import Database from 'better-sqlite3';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { createSchema } from '../db/schema.js';
+import { runMigrations } from '../db/migrations.js';
 import { resetAutoSession } from '../tools/auto-session.js';
 
 let testDb: Database.Database | null = null;
@@ -10,7 +10,7 @@ export function createTestDb(): Database.Database {
   testDb = new Database(':memory:');
   testDb.pragma('journal_mode = WAL');
   testDb.pragma('foreign_keys = ON');
-  createSchema(testDb);
+  runMigrations(testDb);
   return testDb;
 }
 
@@ -51,6 +51,21 @@ export function seedProject(
   return id;
 }
 
+function seedTags(
+  db: Database.Database,
+  projectId: string,
+  joinTable: string,
+  column: string,
+  entityId: string,
+  tags: string[] = [],
+): void {
+  for (const name of tags) {
+    db.prepare('INSERT OR IGNORE INTO tags (id, project_id, name) VALUES (?, ?, ?)').run(`tag-${projectId}-${name}`, projectId, name);
+    const tag = db.prepare('SELECT id FROM tags WHERE project_id = ? AND name = ?').get(projectId, name) as { id: string };
+    db.prepare(`INSERT INTO ${joinTable} (${column}, tag_id) VALUES (?, ?)`).run(entityId, tag.id);
+  }
+}
+
 export function seedTask(
   db: Database.Database,
   projectId: string,
@@ -60,14 +75,16 @@ export function seedTask(
     description: string;
     status: string;
     priority: string;
-    tags: string;
+    tags: string[];
     parent_task_id: string;
-    blocked_by: string;
+    blocked_by: string[];
+    start_at: string;
+    due_at: string;
   }> = {},
 ): string {
   const id = overrides.id ?? 'task0001';
   db.prepare(
-    `INSERT INTO tasks (id, project_id, title, description, status, priority, tags, parent_task_id, blocked_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO tasks (id, project_id, title, description, status, priority, parent_task_id, start_at, due_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
   ).run(
     id,
     projectId,
@@ -75,10 +92,14 @@ export function seedTask(
     overrides.description ?? null,
     overrides.status ?? 'todo',
     overrides.priority ?? 'medium',
-    overrides.tags ?? null,
     overrides.parent_task_id ?? null,
-    overrides.blocked_by ?? null,
+    overrides.start_at ?? null,
+    overrides.due_at ?? null,
   );
+  seedTags(db, projectId, 'task_tags', 'task_id', id, overrides.tags);
+  for (const blockerId of overrides.blocked_by ?? []) {
+    db.prepare('INSERT INTO task_dependencies (task_id, blocked_by_id) VALUES (?, ?)').run(id, blockerId);
+  }
   return id;
 }
 
@@ -91,12 +112,12 @@ export function seedDecision(
     decision: string;
     reasoning: string;
     alternatives: string;
-    tags: string;
+    tags: string[];
   }> = {},
 ): string {
   const id = overrides.id ?? 'dec00001';
   db.prepare(
-    `INSERT INTO decisions (id, project_id, title, decision, reasoning, alternatives, tags) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO decisions (id, project_id, title, decision, reasoning, alternatives) VALUES (?, ?, ?, ?, ?, ?)`,
   ).run(
     id,
     projectId,
@@ -104,8 +125,8 @@ export function seedDecision(
     overrides.decision ?? 'We decided X',
     overrides.reasoning ?? null,
     overrides.alternatives ?? null,
-    overrides.tags ?? null,
   );
+  seedTags(db, projectId, 'decision_tags', 'decision_id', id, overrides.tags);
   return id;
 }
 
@@ -117,20 +138,20 @@ export function seedNote(
     task_id: string;
     content: string;
     category: string;
-    tags: string;
+    tags: string[];
   }> = {},
 ): string {
   const id = overrides.id ?? 'note0001';
   db.prepare(
-    `INSERT INTO notes (id, project_id, task_id, content, category, tags) VALUES (?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO notes (id, project_id, task_id, content, category) VALUES (?, ?, ?, ?, ?)`,
   ).run(
     id,
     projectId,
     overrides.task_id ?? null,
     overrides.content ?? 'Test note content',
     overrides.category ?? 'general',
-    overrides.tags ?? null,
   );
+  seedTags(db, projectId, 'note_tags', 'note_id', id, overrides.tags);
   return id;
 }
 
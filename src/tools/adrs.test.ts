@@ -0,0 +1,158 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedDecision,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerAdrTools } from './adrs.js';
+import { supersedeDecision } from '../db/decisions.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+let repo: string;
+
+beforeEach(() => {
+  createTestDb();
+  repo = mkdtempSync(join(tmpdir(), 'mindpm-adr-'));
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerAdrTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+  rmSync(repo, { recursive: true, force: true });
+});
+
+const NYGARD_ADR = `# 1. Record architecture decisions
+
+Date: 2024-03-01
+
+## Status
+
+Superseded by [2. Use MADR](0002-use-madr.md)
+
+## Context
+
+We need to record the architectural decisions made on this project.
+
+## Decision
+
+We will use Architecture Decision Records, as described by Michael Nygard.
+
+## Consequences
+
+See Michael Nygard's article.
+`;
+
+const MADR_ADR = `---
+status: accepted
+date: 2024-05-10
+---
+
+# Use MADR
+
+## Context and Problem Statement
+
+Nygard's format has no place for the options we weighed.
+
+## Considered Options
+
+* Nygard
+* Y-statements
+
+## Decision Outcome
+
+Write new ADRs in MADR.
+
+### Consequences
+
+* Good, because options are recorded
+`;
+
+describe('export_adrs', () => {
+  it('writes numbered ADRs with status, alternatives and supersede links', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P', repo_path: repo });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Use MySQL', decision: 'MySQL for storage', alternatives: JSON.stringify(['SQLite']) });
+    supersedeDecision('d1', { title: 'Use Postgres', decision: 'Postgres for storage', reasoning: 'We need JSONB' });
+
+    const result = parseToolResult(await callTool('export_adrs', { project: 'P', format: 'nygard' }));
+    expect(result.written.map((w: any) => w.file)).toEqual(['0001-use-mysql.md', '0002-use-postgres.md']);
+
+    const dir = join(repo, 'docs/adr');
+    const first = readFileSync(join(dir, '0001-use-mysql.md'), 'utf8');
+    expect(first).toContain('# 1. Use MySQL');
+    expect(first).toContain('Superseded by [ADR-0002](0002-use-postgres.md)');
+    expect(first).toContain('## Alternatives Considered\n\n* SQLite');
+    expect(readFileSync(join(dir, '0002-use-postgres.md'), 'utf8')).toContain('## Context\n\nWe need JSONB');
+
+    // Numbers stick: a renamed decision is written over its old file, and new ones come after
+    db.prepare("UPDATE decisions SET title = 'Use MySQL 8' WHERE id = 'd1'").run();
+    seedDecision(db, 'p1', { id: 'd3', title: 'Cache in Redis' });
+    const again = parseToolResult(await callTool('export_adrs', { project: 'P' }));
+    expect(again.written.map((w: any) => [w.number, w.file])).toEqual([
+      [1, '0001-use-mysql.md'], [2, '0002-use-postgres.md'], [3, '0003-cache-in-redis.md'],
+    ]);
+    expect(readdirSync(dir)).toHaveLength(3);
+    expect(readFileSync(join(dir, '0001-use-mysql.md'), 'utf8')).toContain('status: superseded by ADR-0002');
+  });
+
+  it('needs a repo_path or an absolute directory', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1' });
+    expect((await callTool('export_adrs', { project: 'P' })).isError).toBe(true);
+
+    const result = parseToolResult(await callTool('export_adrs', { project: 'P', directory: join(repo, 'adr') }));
+    expect(result.written).toHaveLength(1);
+  });
+});
+
+describe('import_adrs', () => {
+  it('reads Nygard and MADR files into decisions without duplicating them', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P', repo_path: repo });
+    const dir = join(repo, 'docs/adr');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, '0001-record-architecture-decisions.md'), NYGARD_ADR);
+    writeFileSync(join(dir, '0002-use-madr.md'), MADR_ADR);
+    writeFileSync(join(dir, 'README.md'), '# Decisions\n');
+
+    const result = parseToolResult(await callTool('import_adrs', { project: 'P' }));
+    expect(result.imported.map((i: any) => i.number)).toEqual([1, 2]);
+    expect(result.skipped).toEqual([{ file: 'README.md', reason: 'not a numbered ADR file' }]);
+
+    const rows = db.prepare('SELECT id, title, decision, alternatives, status, supersedes, adr_number, created_at FROM decisions ORDER BY adr_number').all() as any[];
+    expect(rows.map(r => [r.title, r.status, r.created_at])).toEqual([
+      ['Record architecture decisions', 'superseded', '2024-03-01 00:00:00'],
+      ['Use MADR', 'accepted', '2024-05-10 00:00:00'],
+    ]);
+    expect(rows[1]).toMatchObject({ decision: 'Write new ADRs in MADR.', alternatives: JSON.stringify(['Nygard', 'Y-statements']), supersedes: rows[0].id });
+
+    writeFileSync(join(dir, '0003-use-postgres.md'), '# 3. Use Postgres\n\n## Status\n\nProposed\n\n## Decision\n\nPostgres.\n');
+    const again = parseToolResult(await callTool('import_adrs', { project: 'P' }));
+    expect(again.imported.map((i: any) => i.file)).toEqual(['0003-use-postgres.md']);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM decisions').get()).toEqual({ n: 3 });
+  });
+
+  it('skips ADRs that were exported from mindpm', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P', repo_path: repo });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Use SQLite' });
+    await callTool('export_adrs', { project: 'P' });
+
+    const result = parseToolResult(await callTool('import_adrs', { project: 'P' }));
+    expect(result.imported).toEqual([]);
+    expect(result.skipped[0].reason).toContain('d1');
+    expect((await callTool('import_adrs', { project: 'P', directory: 'missing' })).isError).toBe(true);
+  });
+});
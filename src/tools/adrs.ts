@@ -0,0 +1,76 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { adrDirectory, exportAdrs, importAdrs, ADR_DIRECTORY } from '../db/adrs.js';
+import { ADR_FORMATS } from '../utils/adr.js';
+
+export function registerAdrTools(server: McpServer): void {
+  server.registerTool(
+    'export_adrs',
+    {
+      title: 'Export ADRs',
+      description:
+        `Write a project's decisions as Architecture Decision Records, one numbered Markdown file each (e.g. 0003-use-postgres.md), in ${ADR_DIRECTORY} under the project's repo_path. Includes status, alternatives and supersede links. Each decision keeps its number across exports and its file is overwritten with the current decision.`,
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        format: z.enum(ADR_FORMATS).optional().describe('"madr" (default) or "nygard", the adr-tools format'),
+        directory: z.string().optional().describe(`Directory to write to, relative to repo_path or absolute (default: ${ADR_DIRECTORY})`),
+      },
+    },
+    async ({ project, format, directory }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      if (format !== undefined && !ADR_FORMATS.includes(format)) {
+        return { content: [{ type: 'text' as const, text: `format must be one of: ${ADR_FORMATS.join(', ')}` }], isError: true };
+      }
+      const dir = adrDirectory(resolved.id, directory);
+      if (typeof dir !== 'string') {
+        return { content: [{ type: 'text' as const, text: dir.error }], isError: true };
+      }
+
+      const { written } = exportAdrs(resolved.id, dir, format ?? 'madr');
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ directory: dir, written, message: `Wrote ${written.length} ADR(s) to ${dir}` }, null, 2),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'import_adrs',
+    {
+      title: 'Import ADRs',
+      description:
+        `Read an existing ADR directory (MADR or Nygard/adr-tools Markdown files named like 0003-use-postgres.md) into decisions, keeping each ADR's number, date, status, alternatives and supersede links. ADRs already imported or exported are skipped, so it is safe to run again after new ADRs are added.`,
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        directory: z.string().optional().describe(`Directory to read, relative to repo_path or absolute (default: ${ADR_DIRECTORY})`),
+      },
+    },
+    async ({ project, directory }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      const dir = adrDirectory(resolved.id, directory);
+      if (typeof dir !== 'string') {
+        return { content: [{ type: 'text' as const, text: dir.error }], isError: true };
+      }
+
+      const result = importAdrs(resolved.id, dir);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ directory: dir, ...result, message: `Imported ${result.imported.length} ADR(s), skipped ${result.skipped.length}` }, null, 2),
+        }],
+      };
+    },
+  );
+}
@@ -0,0 +1,183 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerAuditTools } from './audit.js';
+import { registerTaskTools } from './tasks.js';
+import { registerNoteTools } from './notes.js';
+import { trashTask, restoreItem } from '../db/trash.js';
+import { getWorkflow, setWorkflow } from '../db/workflow.js';
+import { KANBAN_UI_ACTOR, setMcpClient, withActor } from '../utils/actor.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerAuditTools(server);
+  registerTaskTools(server);
+  registerNoteTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  setMcpClient(undefined);
+  closeTestDb();
+});
+
+describe('audit log', () => {
+  it('records before and after values for every changed task field', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', title: 'Blocker' });
+    const { task_id } = parseToolResult(await callTool('create_task', { project: 'P', title: 'Ship it', tags: ['api'] }));
+
+    await callTool('update_task', { task_id, description: 'Spec first', tags: ['api', 'docs'], blocked_by: ['t1'] });
+
+    const { entries } = parseToolResult(await callTool('get_audit_log', { project: 'P', entity_id: task_id }));
+    expect(entries.map((e: any) => e.action)).toEqual(['update', 'create']);
+    expect(entries[0].changes).toEqual({
+      description: { before: null, after: 'Spec first' },
+      tags: { before: ['api'], after: ['api', 'docs'] },
+      blocked_by: { before: [], after: ['t1'] },
+      status: { before: 'todo', after: 'blocked' },
+    });
+    expect(entries[0].actor).toBe('mcp');
+    expect(entries[1].changes.title).toEqual({ before: null, after: 'Ship it' });
+  });
+
+  it('logs trash and restore, and the dependents they unblock', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', status: 'blocked', blocked_by: ['t1'] });
+
+    withActor(KANBAN_UI_ACTOR, () => trashTask('t1'));
+    restoreItem('task', 't1');
+
+    const { entries } = parseToolResult(await callTool('get_audit_log', { project: 'P', entity_type: 'task' }));
+    expect(entries.map((e: any) => [e.entity_id, e.action, e.actor])).toEqual([
+      ['t1', 'restore', 'mcp'],
+      ['t1', 'delete', KANBAN_UI_ACTOR],
+      ['t2', 'update', KANBAN_UI_ACTOR],
+    ]);
+    expect(entries[2].changes.status).toEqual({ before: 'blocked', after: 'todo' });
+  });
+
+  it('keeps the entity ID of context entries across upserts and skips no-op writes', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_context', { project: 'P', key: 'db', value: 'sqlite' });
+    await callTool('set_context', { project: 'P', key: 'db', value: 'postgres' });
+    await callTool('set_context', { project: 'P', key: 'db', value: 'postgres' });
+
+    const { entries } = parseToolResult(await callTool('get_audit_log', { project: 'P', entity_type: 'context' }));
+    expect(entries).toHaveLength(2);
+    expect(entries[0].entity_id).toBe(entries[1].entity_id);
+    expect(entries[0].changes).toEqual({ value: { before: 'sqlite', after: 'postgres' } });
+  });
+
+  it('filters by actor and time', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('add_note', { project: 'P', content: 'From the agent' });
+    await withActor(KANBAN_UI_ACTOR, () => callTool('add_note', { project: 'P', content: 'From the board' }));
+    db.prepare("UPDATE audit_log SET created_at = '2026-01-10 12:00:00' WHERE actor = 'mcp'").run();
+
+    const board = parseToolResult(await callTool('get_audit_log', { project: 'P', actor: KANBAN_UI_ACTOR }));
+    expect(board.entries.map((e: any) => e.changes.content.after)).toEqual(['From the board']);
+    const january = parseToolResult(await callTool('get_audit_log', { project: 'P', since: '2026-01-10', until: '2026-01-10' }));
+    expect(january.entries.map((e: any) => e.changes.content.after)).toEqual(['From the agent']);
+
+    const bad = await callTool('get_audit_log', { project: 'P', since: 'last week' });
+    expect(bad.isError).toBe(true);
+  });
+});
+
+describe('undo', () => {
+  it("reverts an agent's last writes and records the reverts", async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', title: 'One' });
+    seedTask(db, 'p1', { id: 't2', title: 'Two' });
+    seedTask(db, 'p1', { id: 't3', title: 'Three' });
+    setMcpClient({ name: 'agent-x' });
+    for (const id of ['t1', 't2', 't3']) await callTool('update_task', { task_id: id, title: 'Oops' });
+    setMcpClient(undefined);
+
+    const result = parseToolResult(await callTool('undo', { actor: 'agent-x', count: 2 }));
+    expect(result.reverted.map((r: any) => r.entity_id)).toEqual(['t3', 't2']);
+    const titles = db.prepare('SELECT id, title FROM tasks ORDER BY id').all();
+    expect(titles).toEqual([{ id: 't1', title: 'Oops' }, { id: 't2', title: 'Two' }, { id: 't3', title: 'Three' }]);
+    expect(db.prepare("SELECT old_value, new_value, actor FROM task_history WHERE task_id = 't3' ORDER BY rowid DESC LIMIT 1").get())
+      .toEqual({ old_value: 'Oops', new_value: 'Three', actor: 'mcp' });
+
+    const next = parseToolResult(await callTool('undo', { actor: 'agent-x' }));
+    expect(next.reverted.map((r: any) => r.entity_id)).toEqual(['t1']);
+  });
+
+  it('reverts a whole operation, including the dependents it unblocked', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', status: 'blocked', blocked_by: ['t1'] });
+    await callTool('update_task', { task_id: 't1', status: 'done' });
+
+    const { entries } = parseToolResult(await callTool('get_audit_log', { project: 'P', entity_id: 't1' }));
+    await callTool('undo', { operation_id: entries[0].operation_id });
+
+    const statuses = db.prepare('SELECT id, status, completed_at FROM tasks ORDER BY id').all();
+    expect(statuses).toEqual([{ id: 't1', status: 'todo', completed_at: null }, { id: 't2', status: 'blocked', completed_at: null }]);
+    const again = await callTool('undo', { operation_id: entries[0].operation_id });
+    expect(again.isError).toBe(true);
+    expect(again.content[0].text).toContain('already undone');
+  });
+
+  it('trashes what an undone operation created', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    const { task_id } = parseToolResult(await callTool('create_task', { project: 'P', title: 'Junk' }));
+
+    await callTool('undo', {});
+    expect(db.prepare('SELECT deleted_at IS NOT NULL AS trashed FROM tasks WHERE id = ?').get(task_id)).toEqual({ trashed: 1 });
+  });
+
+  it('refuses, changing nothing, when someone else has modified the row since', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    setMcpClient({ name: 'agent-x' });
+    await callTool('set_context', { project: 'P', key: 'db', value: 'sqlite' });
+    await callTool('set_context', { project: 'P', key: 'db', value: 'mongodb' });
+    await callTool('add_note', { project: 'P', content: 'Switched to mongodb' });
+    await withActor(KANBAN_UI_ACTOR, () => callTool('set_context', { project: 'P', key: 'db', value: 'postgres' }));
+
+    const result = await callTool('undo', { actor: 'agent-x', count: 2 });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Nothing was undone');
+    expect(result.content[0].text).toContain('value is "postgres" (expected "mongodb"). Last changed by kanban-ui');
+    expect(db.prepare('SELECT value FROM context').get()).toEqual({ value: 'postgres' });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM notes WHERE deleted_at IS NULL').get()).toEqual({ n: 1 });
+  });
+
+  it('reports a conflict when the status to go back to was removed from the workflow', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', status: 'in_review' });
+    await callTool('update_task', { task_id: 't1', status: 'in_progress' });
+    const { statuses } = getWorkflow('p1');
+    expect(setWorkflow('p1', { statuses: statuses.filter(s => s.key !== 'in_review'), transitions: null })).not.toHaveProperty('error');
+
+    const result = await callTool('undo', {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('task t1: Status "in_review" is no longer part of the project workflow.');
+    expect(db.prepare("SELECT status FROM tasks WHERE id = 't1'").get()).toEqual({ status: 'in_progress' });
+  });
+});
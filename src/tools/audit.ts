@@ -0,0 +1,95 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError, resolveTaskId } from '../db/queries.js';
+import { queryAuditLog, AUDIT_ENTITY_TYPES } from '../db/audit.js';
+import { describeConflicts, recentOperations, undoOperations } from '../db/undo.js';
+import { currentActor } from '../utils/actor.js';
+
+export function registerAuditTools(server: McpServer): void {
+  server.registerTool(
+    'get_audit_log',
+    {
+      title: 'Get Audit Log',
+      description:
+        'Browse the audit log: every create, update, delete and restore of projects, tasks, notes, decisions, context, sessions, comments and links, with who made it and the before/after value of each changed field. Newest first.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        entity_type: z.enum(AUDIT_ENTITY_TYPES).optional().describe('Only changes to this kind of entity'),
+        entity_id: z.string().optional().describe('Only changes to this entity (tasks also accept short IDs like "zrdt-180")'),
+        actor: z.string().optional().describe('Only changes made by this actor, e.g. "kanban-ui" or "claude-code"'),
+        since: z.string().optional().describe('Only changes on or after this date (YYYY-MM-DD) or UTC datetime'),
+        until: z.string().optional().describe('Only changes on or before this date (YYYY-MM-DD) or UTC datetime'),
+        limit: z.number().int().min(1).max(500).optional().describe('Max entries to return (default: 50)'),
+      },
+    },
+    async ({ project, entity_type, entity_id, actor, since, until, limit }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      if (entity_type !== undefined && !AUDIT_ENTITY_TYPES.includes(entity_type)) {
+        return { content: [{ type: 'text' as const, text: `entity_type must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}` }], isError: true };
+      }
+
+      const entityId = entity_id && (entity_type === undefined || entity_type === 'task')
+        ? resolveTaskId(entity_id, { includeTrashed: true }) ?? entity_id
+        : entity_id;
+      const result = queryAuditLog({ projectId: resolved.id, entityType: entity_type, entityId, actor, since, until, limit });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ project: resolved.name, entries: result.entries }) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'undo',
+    {
+      title: 'Undo',
+      description:
+        'Revert writes recorded in the audit log: one operation (see operation_id in get_audit_log), or the last `count` operations by an actor (default: your own last one). Everything is reverted in one transaction; if something has been changed since by someone else, nothing is undone and the conflicts are listed.',
+      inputSchema: {
+        operation_id: z.string().optional().describe('Operation to undo, from get_audit_log'),
+        actor: z.string().optional().describe('Undo the latest operations of this actor, e.g. "claude-code" (default: you)'),
+        count: z.number().int().min(1).max(100).optional().describe('How many of the actor\'s latest operations to undo (default: 1)'),
+        project: z.string().optional().describe('Only count operations in this project (name or ID)'),
+      },
+    },
+    async ({ operation_id, actor, count = 1, project }) => {
+      let operations: string[];
+      if (operation_id) {
+        operations = [operation_id];
+      } else {
+        if (!Number.isInteger(count) || count < 1 || count > 100) {
+          return { content: [{ type: 'text' as const, text: 'count must be a whole number from 1 to 100.' }], isError: true };
+        }
+        const resolved = project ? resolveProjectOrDefault(project) : undefined;
+        if (project && !resolved) {
+          return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+        }
+        const who = actor ?? currentActor();
+        operations = recentOperations(who, count, resolved?.id);
+        if (operations.length === 0) {
+          return { content: [{ type: 'text' as const, text: `No operations by ${who} left to undo.` }], isError: true };
+        }
+      }
+
+      const result = undoOperations(operations);
+      if ('error' in result) {
+        const details = result.conflicts.length > 0 ? `\n${describeConflicts(result.conflicts)}` : '';
+        return { content: [{ type: 'text' as const, text: `${result.error}${details}` }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            ...result,
+            message: `Undid ${result.undone.length} operation${result.undone.length > 1 ? 's' : ''} (${result.reverted.length} change${result.reverted.length === 1 ? '' : 's'}).`,
+          }),
+        }],
+      };
+    },
+  );
+}
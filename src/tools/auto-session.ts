@@ -1,7 +1,15 @@
 import type Database from 'better-sqlite3';
 import { getDb, generateId } from '../db/queries.js';
+import { blockedBySql } from '../db/dependencies.js';
+import { tagsSql } from '../db/tags.js';
+import { statusCategorySql, categoryListSql, CLOSED_CATEGORIES } from '../db/workflow.js';
+import { getDeadlines } from '../db/deadlines.js';
+import { recentDecisions, decisionsDueForReview } from '../db/decisions.js';
+import { pinnedNotes } from '../db/notes.js';
 import { getHttpPort } from '../server/http.js';
 import { markSessionStarted, getSessionStartedProjects, resetAutoSession } from '../utils/session-state.js';
+import { audited } from '../db/audit.js';
+import { currentActor } from '../utils/actor.js';
 
 export { markSessionStarted, getSessionStartedProjects, resetAutoSession };
 
@@ -15,16 +23,16 @@ interface ActivityItem {
 function getActivitySince(db: Database.Database, projectId: string, cutoffTime: string): ActivityItem[] {
   return db.prepare(`
     SELECT 'task_created' as type, id, title, created_at as timestamp
-    FROM tasks WHERE project_id = ? AND created_at > ?
+    FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND created_at > ?
     UNION ALL
     SELECT 'task_updated' as type, id, title, updated_at as timestamp
-    FROM tasks WHERE project_id = ? AND updated_at > ? AND updated_at != created_at
+    FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND updated_at > ? AND updated_at != created_at
     UNION ALL
     SELECT 'decision' as type, id, title, created_at as timestamp
-    FROM decisions WHERE project_id = ? AND created_at > ?
+    FROM decisions WHERE project_id = ? AND deleted_at IS NULL AND created_at > ?
     UNION ALL
     SELECT 'note' as type, id, substr(content, 1, 80) as title, created_at as timestamp
-    FROM notes WHERE project_id = ? AND created_at > ?
+    FROM notes WHERE project_id = ? AND deleted_at IS NULL AND created_at > ?
     ORDER BY timestamp DESC
   `).all(
     projectId, cutoffTime,
@@ -34,7 +42,52 @@ function getActivitySince(db: Database.Database, projectId: string, cutoffTime:
   ) as ActivityItem[];
 }
 
-export function buildSessionText(projectId: string): string {
+// Characters (as JSON) of pinned notes and project context entries to put in a
+// session's text; tasks, decisions and activity are not counted against it.
+// Pinned notes go in first and always appear: one that doesn't fit in what is left
+// is cut short and marked truncated. Context entries that don't fit are skipped and
+// counted so the agent knows to look them up, and smaller ones after them still go in.
+export const SESSION_CONTEXT_BUDGET = 8000;
+
+// The least of a pinned note's content kept when it has to be cut short
+const PINNED_NOTE_MIN_LENGTH = 200;
+
+type PinnedNote = ReturnType<typeof pinnedNotes>[number];
+
+function withinBudget(pinned: PinnedNote[], context: unknown[], budget: number): {
+  pinned: (PinnedNote & { truncated?: true })[];
+  context: unknown[];
+  omitted: { pinned_notes_truncated: number; context: number };
+} {
+  let left = budget;
+  let truncated = 0;
+  const keptPinned = pinned.map(note => {
+    const size = JSON.stringify(note).length;
+    if (size <= left) {
+      left -= size;
+      return note;
+    }
+    truncated++;
+    const room = Math.max(left - (size - note.content.length), PINNED_NOTE_MIN_LENGTH);
+    const cut = { ...note, content: `${note.content.slice(0, room)}…`, truncated: true as const };
+    left = Math.max(0, left - JSON.stringify(cut).length);
+    return cut;
+  });
+  const keptContext: unknown[] = [];
+  for (const item of context) {
+    const size = JSON.stringify(item).length;
+    if (size > left) continue;
+    keptContext.push(item);
+    left -= size;
+  }
+  return {
+    pinned: keptPinned,
+    context: keptContext,
+    omitted: { pinned_notes_truncated: truncated, context: context.length - keptContext.length },
+  };
+}
+
+export function buildSessionText(projectId: string, options: { includeSuperseded?: boolean } = {}): string {
   const db = getDb();
   const projectRow = db.prepare('SELECT * FROM projects WHERE id = ?').get(projectId);
 
@@ -56,15 +109,18 @@ export function buildSessionText(projectId: string): string {
     )];
 
     const syntheticId = generateId();
-    db.prepare(
-      `INSERT INTO sessions (id, project_id, summary, tasks_worked_on, decisions_made) VALUES (?, ?, ?, ?, ?)`,
+    const actor = currentActor();
+    audited('session', syntheticId, () => db.prepare(
+      `INSERT INTO sessions (id, project_id, summary, tasks_worked_on, decisions_made, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?, ?)`,
     ).run(
       syntheticId,
       projectId,
       `Auto-generated: ${recentActivity.length} activities since last session`,
       taskIds.length > 0 ? JSON.stringify(taskIds) : null,
       decisionIds.length > 0 ? JSON.stringify(decisionIds) : null,
-    );
+      actor,
+      actor,
+    ));
 
     lastSession = db
       .prepare('SELECT * FROM sessions WHERE project_id = ? ORDER BY created_at DESC LIMIT 1')
@@ -73,27 +129,26 @@ export function buildSessionText(projectId: string): string {
 
   const activeTasks = db
     .prepare(
-      `SELECT id, title, status, priority, tags FROM tasks
-       WHERE project_id = ? AND status NOT IN ('done', 'cancelled')
+      `SELECT id, title, status, priority, ${tagsSql('task', 'tasks')} AS tags FROM tasks
+       WHERE project_id = ? AND deleted_at IS NULL AND ${statusCategorySql('tasks')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}
        ORDER BY CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END`
     )
     .all(projectId);
 
   const blockedTasks = db
-    .prepare("SELECT id, title, blocked_by FROM tasks WHERE project_id = ? AND status = 'blocked'")
+    .prepare(`SELECT t.id, t.title, ${blockedBySql()} AS blocked_by FROM tasks t WHERE t.project_id = ? AND t.deleted_at IS NULL AND ${statusCategorySql('t')} = 'blocked'`)
     .all(projectId);
 
-  const recentDecisions = db
-    .prepare('SELECT id, title, decision, created_at FROM decisions WHERE project_id = ? ORDER BY created_at DESC LIMIT 5')
-    .all(projectId);
+  const { overdue, due_soon } = getDeadlines({ projectId });
 
   const taskCounts = db
-    .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? GROUP BY status')
+    .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? AND deleted_at IS NULL GROUP BY status')
     .all(projectId);
 
   const contextItems = db
     .prepare('SELECT key, value, category FROM context WHERE project_id = ? ORDER BY category, key')
     .all(projectId);
+  const budgeted = withinBudget(pinnedNotes(projectId), contextItems, SESSION_CONTEXT_BUDGET);
 
   db.prepare('UPDATE projects SET status = status WHERE id = ?').run(projectId);
 
@@ -101,6 +156,7 @@ export function buildSessionText(projectId: string): string {
   const kanbanUrl = port ? `http://localhost:${port}?project=${projectId}` : null;
 
   const result = {
+    pinned_notes: budgeted.pinned,
     kanban_url: kanbanUrl,
     project: projectRow,
     last_session: lastSession
@@ -114,8 +170,14 @@ export function buildSessionText(projectId: string): string {
     task_summary: taskCounts,
     active_tasks: activeTasks,
     blocked_tasks: blockedTasks,
-    recent_decisions: recentDecisions,
-    context: contextItems,
+    overdue,
+    due_soon,
+    recent_decisions: recentDecisions(projectId, { includeSuperseded: options.includeSuperseded }),
+    decisions_to_review: decisionsDueForReview(projectId),
+    context: budgeted.context,
+    ...(budgeted.omitted.pinned_notes_truncated + budgeted.omitted.context > 0
+      ? { omitted: { ...budgeted.omitted, hint: 'Over the session size budget; use search_notes and get_context for the full text.' } }
+      : {}),
   };
 
   const kanbanLine = kanbanUrl
@@ -0,0 +1,111 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerClaimTools } from './claims.js';
+import { registerTaskTools } from './tasks.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerClaimTools(server);
+  registerTaskTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+function expireClaim(taskId: string) {
+  getTestDb().prepare("UPDATE task_claims SET expires_at = datetime('now', '-1 minute') WHERE task_id = ?").run(taskId);
+}
+
+describe('claim_task', () => {
+  it('gives a task to one agent at a time', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+
+    const first = parseToolResult(await callTool('claim_task', { task_id: 't1', agent: 'agent-a', ttl_minutes: 10 }));
+    expect(first).toMatchObject({ task_id: 't1', agent: 'agent-a' });
+
+    const second = await callTool('claim_task', { task_id: 't1', agent: 'agent-b' });
+    expect(second.isError).toBe(true);
+    expect(second.content[0].text).toContain('claimed by agent-a');
+
+    const again = await callTool('claim_task', { task_id: 't1', agent: 'agent-a' });
+    expect(again.isError).toBeUndefined();
+  });
+
+  it('lets another agent take over an expired lease', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    await callTool('claim_task', { task_id: 't1', agent: 'agent-a' });
+    expireClaim('t1');
+
+    const taken = parseToolResult(await callTool('claim_task', { task_id: 't1', agent: 'agent-b' }));
+    expect(taken.agent).toBe('agent-b');
+    const renew = await callTool('renew_claim', { task_id: 't1', agent: 'agent-a' });
+    expect(renew.isError).toBe(true);
+    expect(renew.content[0].text).toContain('claimed by agent-b');
+  });
+
+  it('refuses finished tasks and bad TTLs', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', status: 'done' });
+    seedTask(db, 'p1', { id: 't2' });
+
+    expect((await callTool('claim_task', { task_id: 't1', agent: 'agent-a' })).isError).toBe(true);
+    expect((await callTool('claim_task', { task_id: 't2', agent: 'agent-a', ttl_minutes: 0 })).isError).toBe(true);
+  });
+});
+
+describe('renew_claim and release_claim', () => {
+  it('extends and gives up a lease held by the agent', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    await callTool('claim_task', { task_id: 't1', agent: 'agent-a', ttl_minutes: 5 });
+
+    const renewed = parseToolResult(await callTool('renew_claim', { task_id: 't1', agent: 'agent-a', ttl_minutes: 60 }));
+    const minutesLeft = (Date.parse(`${renewed.expires_at}Z`) - Date.now()) / 60_000;
+    expect(minutesLeft).toBeGreaterThan(55);
+
+    expect((await callTool('release_claim', { task_id: 't1', agent: 'agent-b' })).isError).toBe(true);
+    expect((await callTool('release_claim', { task_id: 't1', agent: 'agent-a' })).isError).toBeUndefined();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM task_claims').get()).toEqual({ n: 0 });
+  });
+});
+
+describe('get_next_tasks with claims', () => {
+  it("skips tasks other agents hold, but not the caller's or expired ones", async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', priority: 'critical' });
+    seedTask(db, 'p1', { id: 't2', priority: 'high' });
+    seedTask(db, 'p1', { id: 't3', priority: 'low' });
+    await callTool('claim_task', { task_id: 't1', agent: 'agent-a' });
+    await callTool('claim_task', { task_id: 't3', agent: 'agent-c' });
+    expireClaim('t3');
+
+    const forB = parseToolResult(await callTool('get_next_tasks', { project: 'P', agent: 'agent-b' }));
+    expect(forB.next_tasks.map((t: any) => t.id)).toEqual(['t2', 't3']);
+    const forA = parseToolResult(await callTool('get_next_tasks', { project: 'P', agent: 'agent-a' }));
+    expect(forA.next_tasks.map((t: any) => t.id)).toEqual(['t1', 't2', 't3']);
+    const anonymous = parseToolResult(await callTool('get_next_tasks', { project: 'P' }));
+    expect(anonymous.next_tasks.map((t: any) => t.id)).toEqual(['t2', 't3']);
+  });
+});
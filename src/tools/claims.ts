@@ -0,0 +1,93 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveTaskId } from '../db/queries.js';
+import { claimTask, renewClaim, releaseClaim, DEFAULT_CLAIM_TTL_MINUTES, MAX_CLAIM_TTL_MINUTES } from '../db/claims.js';
+
+const agentSchema = z.string().min(1).describe('Identifier unique to this agent run (e.g. "claude-code-worktree-2")');
+const ttlSchema = z.number().int().min(1).max(MAX_CLAIM_TTL_MINUTES).optional()
+  .describe(`Lease length in minutes (default: ${DEFAULT_CLAIM_TTL_MINUTES})`);
+
+export function registerClaimTools(server: McpServer): void {
+  server.registerTool(
+    'claim_task',
+    {
+      title: 'Claim Task',
+      description:
+        'Take a lease on a task before working on it, so parallel agents sharing this database don\'t pick it too. Fails if another agent holds an unexpired lease. Leases expire after `ttl_minutes`; call renew_claim while still working and release_claim when done.',
+      inputSchema: {
+        task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
+        agent: agentSchema,
+        ttl_minutes: ttlSchema,
+      },
+    },
+    async ({ task_id, agent, ttl_minutes }) => {
+      const resolvedId = resolveTaskId(task_id);
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      const result = claimTask(resolvedId, agent, ttl_minutes);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result.claim, message: `Claimed by ${agent} until ${result.claim.expires_at} UTC.` }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'renew_claim',
+    {
+      title: 'Renew Claim',
+      description: 'Extend your lease on a task you are still working on.',
+      inputSchema: {
+        task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
+        agent: agentSchema,
+        ttl_minutes: ttlSchema,
+      },
+    },
+    async ({ task_id, agent, ttl_minutes }) => {
+      const resolvedId = resolveTaskId(task_id);
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      const result = renewClaim(resolvedId, agent, ttl_minutes);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result.claim, message: `Lease renewed until ${result.claim.expires_at} UTC.` }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'release_claim',
+    {
+      title: 'Release Claim',
+      description: 'Give up your lease on a task, e.g. when it is done or you stop working on it, so other agents can pick it up.',
+      inputSchema: {
+        task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
+        agent: agentSchema,
+      },
+    },
+    async ({ task_id, agent }) => {
+      const resolvedId = resolveTaskId(task_id, { includeTrashed: true });
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      if (!releaseClaim(resolvedId, agent)) {
+        return { content: [{ type: 'text' as const, text: `${agent} holds no claim on task "${task_id}".` }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ task_id: resolvedId, message: 'Claim released.' }) }],
+      };
+    },
+  );
+}
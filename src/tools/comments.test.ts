@@ -0,0 +1,91 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerCommentTools } from './comments.js';
+import { registerTaskTools } from './tasks.js';
+import { registerAuditTools } from './audit.js';
+import { deleteComment } from '../db/comments.js';
+import { KANBAN_UI_ACTOR, setMcpClient, withActor } from '../utils/actor.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerCommentTools(server);
+  registerTaskTools(server);
+  registerAuditTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  setMcpClient(undefined);
+  closeTestDb();
+});
+
+describe('comments', () => {
+  it('keeps a thread per task, oldest first, with authors', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    setMcpClient({ name: 'claude-code' });
+    await callTool('add_comment', { task_id: 't1', body: 'Should this cover refunds?' });
+    await withActor(KANBAN_UI_ACTOR, () => callTool('add_comment', { task_id: 't1', body: 'Yes, partial ones too.' }));
+
+    const { comments } = parseToolResult(await callTool('list_comments', { task_id: 't1' }));
+    expect(comments.map((c: any) => [c.author, c.body])).toEqual([
+      ['claude-code', 'Should this cover refunds?'],
+      [KANBAN_UI_ACTOR, 'Yes, partial ones too.'],
+    ]);
+    expect((await callTool('add_comment', { task_id: 't1', body: '  ' })).isError).toBe(true);
+  });
+
+  it('lets only the author edit or delete, except from the board', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    setMcpClient({ name: 'agent-a' });
+    const { comment } = parseToolResult(await callTool('add_comment', { task_id: 't1', body: 'Done in 2h' }));
+
+    const edited = parseToolResult(await callTool('edit_comment', { comment_id: comment.id, body: 'Done in 3h' }));
+    expect(edited.comment).toMatchObject({ body: 'Done in 3h', author: 'agent-a' });
+    expect(edited.comment.edited_at).not.toBeNull();
+
+    setMcpClient({ name: 'agent-b' });
+    expect((await callTool('edit_comment', { comment_id: comment.id, body: 'Hijacked' })).isError).toBe(true);
+    expect((await callTool('delete_comment', { comment_id: comment.id })).isError).toBe(true);
+    expect(withActor(KANBAN_UI_ACTOR, () => deleteComment(comment.id, { anyAuthor: true }))).toEqual({ deleted: comment.id });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM task_comments').get()).toEqual({ n: 0 });
+  });
+
+  it('shows the latest comments in get_task', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    for (let i = 1; i <= 7; i++) await callTool('add_comment', { task_id: 't1', body: `Comment ${i}` });
+
+    const parsed = parseToolResult(await callTool('get_task', { task_id: 't1' }));
+    expect(parsed.comments.total).toBe(7);
+    expect(parsed.comments.latest.map((c: any) => c.body)).toEqual(['Comment 3', 'Comment 4', 'Comment 5', 'Comment 6', 'Comment 7']);
+  });
+
+  it('can undo a deleted comment', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    const { comment } = parseToolResult(await callTool('add_comment', { task_id: 't1', body: 'Keep me' }));
+    await callTool('delete_comment', { comment_id: comment.id });
+
+    await callTool('undo', {});
+    expect(db.prepare('SELECT id, body FROM task_comments').all()).toEqual([{ id: comment.id, body: 'Keep me' }]);
+  });
+});
@@ -0,0 +1,93 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveTaskId } from '../db/queries.js';
+import { addComment, deleteComment, editComment, listComments } from '../db/comments.js';
+
+export function registerCommentTools(server: McpServer): void {
+  server.registerTool(
+    'add_comment',
+    {
+      title: 'Add Comment',
+      description:
+        'Comment on a task: questions, progress updates, review feedback and other discussion. Use add_note for knowledge worth keeping (architecture, research, bugs).',
+      inputSchema: {
+        task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
+        body: z.string().describe('Comment text'),
+      },
+    },
+    async ({ task_id, body }) => {
+      const resolvedId = resolveTaskId(task_id);
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      const result = addComment(resolvedId, body);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ comment: result, message: `Comment added to task ${task_id}.` }) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'list_comments',
+    {
+      title: 'List Comments',
+      description: 'The comment thread on a task, oldest first.',
+      inputSchema: {
+        task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
+      },
+    },
+    async ({ task_id }) => {
+      const resolvedId = resolveTaskId(task_id);
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ task_id: resolvedId, comments: listComments(resolvedId) }, null, 2) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'edit_comment',
+    {
+      title: 'Edit Comment',
+      description: 'Change the text of a comment you wrote.',
+      inputSchema: {
+        comment_id: z.string().describe('Comment ID'),
+        body: z.string().describe('New comment text'),
+      },
+    },
+    async ({ comment_id, body }) => {
+      const result = editComment(comment_id, body);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ comment: result, message: 'Comment updated.' }) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'delete_comment',
+    {
+      title: 'Delete Comment',
+      description: 'Delete a comment you wrote.',
+      inputSchema: {
+        comment_id: z.string().describe('Comment ID'),
+      },
+    },
+    async ({ comment_id }) => {
+      const result = deleteComment(comment_id);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ ...result, message: 'Comment deleted.' }) }],
+      };
+    },
+  );
+}
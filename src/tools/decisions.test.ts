@@ -45,7 +45,10 @@ describe('log_decision', () => {
     expect(row.title).toBe('Auth strategy');
     expect(row.decision).toBe('Use JWT');
     expect(JSON.parse(row.alternatives)).toEqual(['Sessions', 'OAuth']);
-    expect(JSON.parse(row.tags)).toEqual(['auth', 'architecture']);
+    const tags = db.prepare(
+      'SELECT g.name FROM decision_tags j JOIN tags g ON g.id = j.tag_id WHERE j.decision_id = ? ORDER BY j.rowid'
+    ).all(parsed.decision_id) as { name: string }[];
+    expect(tags.map(t => t.name)).toEqual(['auth', 'architecture']);
   });
 
   it('stores alternatives as JSON array', async () => {
@@ -90,12 +93,13 @@ describe('list_decisions', () => {
   it('filters by tag', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
-    seedDecision(db, 'p1', { id: 'd1', tags: '["auth"]' });
-    seedDecision(db, 'p1', { id: 'd2', tags: '["db"]' });
+    seedDecision(db, 'p1', { id: 'd1', tags: ['auth'] });
+    seedDecision(db, 'p1', { id: 'd2', tags: ['db'] });
 
     const result = await callTool('list_decisions', { project: 'P', tag: 'auth' });
     const parsed = parseToolResult(result);
     expect(parsed.decisions).toHaveLength(1);
+    expect(JSON.parse(parsed.decisions[0].tags)).toEqual(['auth']);
   });
 
   it('respects limit parameter', async () => {
@@ -122,3 +126,99 @@ describe('list_decisions', () => {
     expect(parsed.decisions).toHaveLength(20);
   });
 });
+
+describe('decision lifecycle', () => {
+  it('logs proposed decisions and moves them through their statuses', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    const { decision_id } = parseToolResult(await callTool('log_decision', { title: 'Cache sessions', decision: 'Use Redis', status: 'proposed' }));
+
+    const updated = parseToolResult(await callTool('update_decision', { decision_id, status: 'accepted', reasoning: 'Benchmarks' }));
+    expect(updated.updated).toEqual(['reasoning', 'status']);
+    expect(db.prepare('SELECT status, reasoning FROM decisions WHERE id = ?').get(decision_id)).toEqual({ status: 'accepted', reasoning: 'Benchmarks' });
+
+    expect((await callTool('update_decision', { decision_id, status: 'superseded' })).isError).toBe(true);
+    expect((await callTool('update_decision', { decision_id })).isError).toBe(true);
+    expect((await callTool('log_decision', { title: 'X', decision: 'Y', status: 'superseded' })).isError).toBe(true);
+  });
+
+  it('supersedes a decision with a new one and keeps the chain', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Use MySQL' });
+
+    const first = parseToolResult(await callTool('supersede_decision', { decision_id: 'd1', title: 'Use Postgres', decision: 'Switch to Postgres', reasoning: 'JSONB' }));
+    const second = parseToolResult(await callTool('supersede_decision', { decision_id: first.decision_id, title: 'Use SQLite', decision: 'Embed SQLite' }));
+    expect(second.chain.map((d: any) => [d.title, d.status])).toEqual([
+      ['Use MySQL', 'superseded'],
+      ['Use Postgres', 'superseded'],
+      ['Use SQLite', 'accepted'],
+    ]);
+
+    expect((await callTool('supersede_decision', { decision_id: 'd1', title: 'Again', decision: 'No' })).isError).toBe(true);
+    expect((await callTool('update_decision', { decision_id: 'd1', status: 'accepted' })).isError).toBe(true);
+
+    const { decisions } = parseToolResult(await callTool('list_decisions', { project: 'P', status: 'superseded' }));
+    expect(decisions.map((d: any) => [d.title, d.superseded_by])).toEqual(
+      expect.arrayContaining([['Use MySQL', first.decision_id], ['Use Postgres', second.decision_id]]),
+    );
+    expect(db.prepare('SELECT COUNT(*) AS n FROM decisions').get()).toEqual({ n: 3 });
+  });
+
+  it('supersedes with an existing decision, refusing loops', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'REST' });
+    seedDecision(db, 'p1', { id: 'd2', title: 'GraphQL' });
+
+    const result = parseToolResult(await callTool('supersede_decision', { decision_id: 'd1', by: 'd2' }));
+    expect(result).toMatchObject({ decision_id: 'd2', supersedes: 'd1' });
+    expect(db.prepare("SELECT status FROM decisions WHERE id = 'd1'").get()).toEqual({ status: 'superseded' });
+
+    expect((await callTool('supersede_decision', { decision_id: 'd2', by: 'd1' })).isError).toBe(true);
+    expect((await callTool('supersede_decision', { decision_id: 'd2', by: 'd2' })).isError).toBe(true);
+    expect((await callTool('supersede_decision', { decision_id: 'd2' })).isError).toBe(true);
+  });
+});
+
+describe('decision review', () => {
+  function daysFromNow(days: number): string {
+    return new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+  }
+
+  it('lists decisions whose revisit date has come, and those waiting on a condition', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    const log = async (title: string, extra: Record<string, unknown>) =>
+      parseToolResult(await callTool('log_decision', { title, decision: title, ...extra })).decision_id;
+    await log('Overdue', { revisit_at: daysFromNow(-3) });
+    await log('Soon', { revisit_at: daysFromNow(2), revisit_when: 'or past 10k users' });
+    await log('Later', { revisit_at: daysFromNow(60) });
+    await log('Conditional', { revisit_when: 'when the free tier ends' });
+    const settled = await log('Settled', { revisit_at: daysFromNow(-1) });
+    await callTool('update_decision', { decision_id: settled, status: 'deprecated' });
+
+    const review = parseToolResult(await callTool('list_decisions_due_for_review', { project: 'P' }));
+    expect(review.due.map((d: any) => [d.title, d.days_left])).toEqual([['Overdue', -3], ['Soon', 2]]);
+    expect(review.on_condition.map((d: any) => [d.title, d.revisit_when])).toEqual([['Conditional', 'when the free tier ends']]);
+
+    const wider = parseToolResult(await callTool('list_decisions_due_for_review', { project: 'P', days: 90 }));
+    expect(wider.due.map((d: any) => d.title)).toEqual(['Overdue', 'Soon', 'Later']);
+  });
+
+  it('validates and clears revisit dates', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'SQLite for now' });
+
+    expect((await callTool('log_decision', { title: 'X', decision: 'Y', revisit_at: 'Q3' })).isError).toBe(true);
+    expect((await callTool('update_decision', { decision_id: 'd1', revisit_at: '2025-02-30' })).isError).toBe(true);
+
+    await callTool('update_decision', { decision_id: 'd1', revisit_at: daysFromNow(0) });
+    expect(parseToolResult(await callTool('list_decisions_due_for_review', { project: 'P' })).due).toHaveLength(1);
+
+    await callTool('update_decision', { decision_id: 'd1', revisit_at: null });
+    expect(db.prepare("SELECT revisit_at FROM decisions WHERE id = 'd1'").get()).toEqual({ revisit_at: null });
+    expect(parseToolResult(await callTool('list_decisions_due_for_review', { project: 'P' })).due).toHaveLength(0);
+  });
+});
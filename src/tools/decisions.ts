@@ -1,8 +1,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
-import { getDb, generateId, resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { getDb, resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { normalizeTag, tagFilterSql, tagsSql } from '../db/tags.js';
+import {
+  insertDecision, supersedeDecision, supersededBySql, supersessionChain, updateDecision, checkRevisitAt, decisionsDueForReview,
+  DECISION_STATUSES, REVIEW_AHEAD_DAYS, type DecisionStatus,
+} from '../db/decisions.js';
+import { trashItem } from '../db/trash.js';
 import { maybeAutoSession } from './auto-session.js';
 
+// Statuses a decision can be logged or edited into; superseded is set by supersede_decision
+const SETTABLE_STATUSES = DECISION_STATUSES.filter((s): s is Exclude<DecisionStatus, 'superseded'> => s !== 'superseded');
+
 export function registerDecisionTools(server: McpServer): void {
   server.registerTool(
     'log_decision',
@@ -18,28 +27,25 @@ export function registerDecisionTools(server: McpServer): void {
         reasoning: z.string().optional().describe('Why this was decided'),
         alternatives: z.array(z.string()).optional().describe('Rejected alternatives'),
         tags: z.array(z.string()).optional().describe('Tags like "architecture", "database", "api"'),
+        status: z.enum(SETTABLE_STATUSES).optional().describe('"proposed" while still under discussion (default: "accepted")'),
+        revisit_at: z.string().optional().describe('Date to review a temporary decision (YYYY-MM-DD)'),
+        revisit_when: z.string().optional().describe('Condition for reviewing it, e.g. "past 10k users"'),
       },
     },
-    async ({ project, task_id, title, decision, reasoning, alternatives, tags }) => {
+    async ({ project, task_id, title, decision, reasoning, alternatives, tags, status, revisit_at, revisit_when }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
       }
+      if (status !== undefined && !SETTABLE_STATUSES.includes(status)) {
+        return { content: [{ type: 'text' as const, text: `status must be one of: ${SETTABLE_STATUSES.join(', ')}` }], isError: true };
+      }
+      const dateError = checkRevisitAt(revisit_at);
+      if (dateError) {
+        return { content: [{ type: 'text' as const, text: dateError }], isError: true };
+      }
 
-      const db = getDb();
-      const id = generateId();
-      db.prepare(
-        `INSERT INTO decisions (id, project_id, task_id, title, decision, reasoning, alternatives, tags) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-      ).run(
-        id,
-        resolved.id,
-        task_id ?? null,
-        title,
-        decision,
-        reasoning ?? null,
-        alternatives ? JSON.stringify(alternatives) : null,
-        tags ? JSON.stringify(tags) : null,
-      );
+      const id = insertDecision(resolved.id, { task_id, title, decision, reasoning, alternatives, tags, status, revisit_at, revisit_when });
 
       const scope = task_id ? `task ${task_id} in ${resolved.name}` : resolved.name;
       return {
@@ -55,14 +61,15 @@ export function registerDecisionTools(server: McpServer): void {
     'list_decisions',
     {
       title: 'List Decisions',
-      description: 'List decisions for a project. Filter by tags to find specific decisions.',
+      description: 'List decisions for a project, newest first, with their status and what superseded them. Filter by tags or status to find specific decisions.',
       inputSchema: {
         project: z.string().optional().describe('Project name or ID'),
         tag: z.string().optional().describe('Filter by tag'),
+        status: z.enum(DECISION_STATUSES).optional().describe('Only decisions with this status'),
         limit: z.number().optional().describe('Max number of decisions to return (default: 20)'),
       },
     },
-    async ({ project, tag, limit }) => {
+    async ({ project, tag, status, limit }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
@@ -70,18 +77,20 @@ export function registerDecisionTools(server: McpServer): void {
 
       const sessionPreamble = maybeAutoSession(resolved.id);
       const db = getDb();
-      let sql: string;
-      const params: any[] = [resolved.id];
+      const conditions = ['d.project_id = @projectId', 'd.deleted_at IS NULL'];
+      const params: Record<string, any> = { projectId: resolved.id, limit: limit ?? 20 };
 
       if (tag) {
-        sql = `SELECT * FROM decisions WHERE project_id = ? AND tags LIKE ? ORDER BY created_at DESC LIMIT ?`;
-        params.push(`%"${tag}"%`, limit ?? 20);
-      } else {
-        sql = `SELECT * FROM decisions WHERE project_id = ? ORDER BY created_at DESC LIMIT ?`;
-        params.push(limit ?? 20);
+        conditions.push(tagFilterSql('decision', 'd'));
+        params.tag = normalizeTag(tag);
+      }
+      if (status) {
+        conditions.push('d.status = @status');
+        params.status = status;
       }
 
-      const rows = db.prepare(sql).all(...params);
+      const sql = `SELECT d.*, ${tagsSql('decision', 'd')} AS tags, ${supersededBySql('d')} AS superseded_by FROM decisions d WHERE ${conditions.join(' AND ')} ORDER BY d.created_at DESC LIMIT @limit`;
+      const rows = db.prepare(sql).all(params);
 
       const resultText = JSON.stringify({ project: resolved.name, decisions: rows }, null, 2);
       return {
@@ -89,4 +98,119 @@ export function registerDecisionTools(server: McpServer): void {
       };
     },
   );
+
+  server.registerTool(
+    'list_decisions_due_for_review',
+    {
+      title: 'List Decisions Due for Review',
+      description:
+        'Decisions still in force whose revisit date is past or within `days`, soonest first, plus those that only name a condition for revisiting ("past 10k users"). Bring them up with the user; then record the outcome with update_decision (a new revisit_at, or null once settled) or supersede_decision.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        days: z.number().int().min(0).optional().describe(`How far ahead to look (default: ${REVIEW_AHEAD_DAYS})`),
+      },
+    },
+    async ({ project, days }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const sessionPreamble = maybeAutoSession(resolved.id);
+      const review = decisionsDueForReview(resolved.id, { days });
+
+      const resultText = JSON.stringify({ project: resolved.name, ...review }, null, 2);
+      return {
+        content: [{ type: 'text' as const, text: sessionPreamble ? `${sessionPreamble}\n\n---\n\n${resultText}` : resultText }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'update_decision',
+    {
+      title: 'Update Decision',
+      description:
+        'Edit a decision or move it through its lifecycle: proposed → accepted, or rejected, or deprecated once it no longer applies. To replace a decision with a new one, use supersede_decision instead.',
+      inputSchema: {
+        decision_id: z.string().describe('Decision ID'),
+        status: z.enum(SETTABLE_STATUSES).optional().describe('New status'),
+        title: z.string().optional().describe('New title'),
+        decision: z.string().optional().describe('New statement of what was decided'),
+        reasoning: z.string().optional().describe('New reasoning'),
+        alternatives: z.array(z.string()).optional().describe('Rejected alternatives (replaces the list)'),
+        tags: z.array(z.string()).optional().describe('Tags (replaces the list)'),
+        revisit_at: z.string().nullable().optional().describe('Date to review it (YYYY-MM-DD); null clears it'),
+        revisit_when: z.string().nullable().optional().describe('Condition for reviewing it; null clears it'),
+      },
+    },
+    async ({ decision_id, status, title, decision, reasoning, alternatives, tags, revisit_at, revisit_when }) => {
+      const result = updateDecision(decision_id, { status, title, decision, reasoning, alternatives, tags, revisit_at, revisit_when });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ decision_id, updated: result.updated, message: 'Decision updated.' }) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'supersede_decision',
+    {
+      title: 'Supersede Decision',
+      description:
+        'Replace a decision that has been reversed or revised. Either pass `by` (an existing decision) or the new decision\'s title and text to log it. The old decision is marked superseded and drops out of start_session context; the new one points back at it.',
+      inputSchema: {
+        decision_id: z.string().describe('The decision being replaced'),
+        by: z.string().optional().describe('ID of an existing decision that replaces it'),
+        title: z.string().optional().describe('Title of the new decision'),
+        decision: z.string().optional().describe('What is now decided'),
+        reasoning: z.string().optional().describe('Why it changed'),
+        alternatives: z.array(z.string()).optional().describe('Rejected alternatives'),
+        tags: z.array(z.string()).optional().describe('Tags for the new decision'),
+        revisit_at: z.string().optional().describe('Date to review the new decision (YYYY-MM-DD)'),
+        revisit_when: z.string().optional().describe('Condition for reviewing the new decision'),
+      },
+    },
+    async ({ decision_id, by, title, decision, reasoning, alternatives, tags, revisit_at, revisit_when }) => {
+      if (!by && (!title || !decision)) {
+        return { content: [{ type: 'text' as const, text: 'Pass `by`, or a title and decision for the new decision.' }], isError: true };
+      }
+      const old = getDb().prepare('SELECT task_id FROM decisions WHERE id = ?').get(decision_id) as { task_id: string | null } | undefined;
+      const result = supersedeDecision(decision_id, by ? { by } : { task_id: old?.task_id, title: title!, decision: decision!, reasoning, alternatives, tags, revisit_at, revisit_when });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            ...result,
+            chain: supersessionChain(result.decision_id),
+            message: `Decision ${decision_id} superseded by ${result.decision_id}.`,
+          }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'delete_decision',
+    {
+      title: 'Delete Decision',
+      description: 'Move a decision to the trash, e.g. one logged by mistake. It can be brought back with restore_item until the trash is purged. To record that a decision was reversed, use supersede_decision instead.',
+      inputSchema: {
+        decision_id: z.string().describe('Decision ID'),
+      },
+    },
+    async ({ decision_id }) => {
+      if (!trashItem('decision', decision_id)) {
+        return { content: [{ type: 'text' as const, text: `Decision "${decision_id}" not found.` }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ decision_id, message: 'Decision moved to trash.' }) }],
+      };
+    },
+  );
 }
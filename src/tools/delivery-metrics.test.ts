@@ -25,14 +25,14 @@ afterEach(() => {
   closeTestDb();
 });
 
-function seedCompletedTask(projectId: string, leadDays: number, daysAgo: number, id: string) {
+function seedCompletedTask(projectId: string, leadDays: number, daysAgo: number, id: string, estimate: number | null = null) {
   const db = getTestDb();
   const completedAt = `datetime('now', '-${daysAgo} days')`;
   const createdAt = `datetime('now', '-${daysAgo + leadDays} days')`;
   db.prepare(
-    `INSERT INTO tasks (id, project_id, title, status, priority, created_at, updated_at, completed_at)
-     VALUES (?, ?, ?, 'done', 'medium', ${createdAt}, ${completedAt}, ${completedAt})`,
-  ).run(id, projectId, `Task ${id}`);
+    `INSERT INTO tasks (id, project_id, title, status, priority, estimate, created_at, updated_at, completed_at)
+     VALUES (?, ?, ?, 'done', 'medium', ?, ${createdAt}, ${completedAt}, ${completedAt})`,
+  ).run(id, projectId, `Task ${id}`, estimate);
 }
 
 function seedHistoryEvent(
@@ -157,4 +157,113 @@ describe('get_delivery_metrics', () => {
     expect(parsed.throughput.tasks_completed).toBe(1);
     expect(parsed.period).toBe('last 7 days');
   });
+
+  it('reports points throughput and lead time per size bucket', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedCompletedTask('p1', 1, 2, 't1', 1);
+    seedCompletedTask('p1', 1, 3, 't2', 1);
+    seedCompletedTask('p1', 3, 4, 't3', 3);
+    seedCompletedTask('p1', 20, 5, 't4', 8);
+    seedCompletedTask('p1', 2, 6, 't5');
+
+    const parsed = parseToolResult(await callTool('get_delivery_metrics', { project: 'P', days: 28 }));
+    expect(parsed.throughput.points_completed).toBe(13);
+    expect(parsed.throughput.points_per_week_avg).toBe(3.3);
+    expect(parsed.estimation).toMatchObject({ unit: 'points', estimated_tasks: 4, unestimated_tasks: 1, bias: null });
+    // One day per point is the median pace; the 8-pointer took 2.5 times that
+    expect(parsed.estimation.buckets.map((b: any) => [b.size, b.tasks, b.ratio])).toEqual([
+      ['≤1', 2, 1],
+      ['≤3', 1, 1],
+      ['≤8', 1, 2.5],
+    ]);
+    expect(parsed.insights.some((s: string) => s.includes('≤8'))).toBe(true);
+  });
+
+  it('flags consistently optimistic hour estimates', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    db.prepare("UPDATE projects SET estimate_unit = 'hours' WHERE id = 'p1'").run();
+    seedCompletedTask('p1', 3, 2, 't1', 6);
+    seedCompletedTask('p1', 6, 3, 't2', 12);
+
+    const parsed = parseToolResult(await callTool('get_delivery_metrics', { project: 'P', days: 30 }));
+    expect(parsed.throughput.points_completed).toBeUndefined();
+    expect(parsed.estimation.bias).toBe('optimistic');
+    expect(parsed.estimation.buckets[0]).toMatchObject({ size: '≤8', expected_days: 1, ratio: 3 });
+  });
 });
+
+describe('get_burndown', () => {
+  function day(offset: number): string {
+    return new Date(Date.now() + offset * 86_400_000).toISOString().slice(0, 10);
+  }
+
+  function seedScopedTask(id: string, createdDaysAgo: number, tags: string[], status = 'todo') {
+    const db = getTestDb();
+    seedTask(db, 'p1', { id, title: `Task ${id}`, tags, status });
+    db.prepare(`UPDATE tasks SET created_at = datetime('now', '-${createdDaysAgo} days') WHERE id = ?`).run(id);
+  }
+
+  function seedEvent(taskId: string, event: string, oldValue: string, newValue: string, daysAgo: number) {
+    getTestDb().prepare(
+      `INSERT INTO task_history (id, task_id, event, old_value, new_value, created_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now', '-${daysAgo} days'))`,
+    ).run(`${taskId}-${event}-${daysAgo}`, taskId, event, oldValue, newValue);
+  }
+
+  it('tracks progress and scope changes of a tag scope day by day', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedScopedTask('t1', 5, ['release'], 'done');
+    seedEvent('t1', 'status_changed', 'todo', 'done', 3);
+    seedScopedTask('t2', 5, ['release']);
+    seedScopedTask('t3', 2, ['release']);
+    seedScopedTask('t4', 5, []);
+    seedEvent('t4', 'tags_changed', '["release"]', '[]', 1);
+    seedScopedTask('t5', 5, ['other']);
+    seedScopedTask('t6', 5, ['release'], 'cancelled');
+    seedEvent('t6', 'status_changed', 'todo', 'cancelled', 2);
+
+    const parsed = parseToolResult(await callTool('get_burndown', {
+      project: 'P', tag: 'Release', start_date: day(-4), target_date: day(3),
+    }));
+    expect(parsed.scope).toEqual({ type: 'tag', name: 'release' });
+    expect(parsed.series.map((p: any) => [p.scope, p.done, p.remaining])).toEqual([
+      [4, 0, 4], [4, 1, 3], [4, 1, 3], [3, 1, 2], [3, 1, 2],
+    ]);
+    expect(parsed.series[4].ideal).toBe(1.7);
+    expect(parsed.scope_changes.map((c: any) => [c.date, c.task_id, c.change])).toEqual([
+      [day(-2), 't3', 'added'],
+      [day(-2), 't6', 'removed'],
+      [day(-1), 't4', 'removed'],
+    ]);
+    expect(parsed.forecast).toEqual({ done_per_day: 0.25, projected_finish: day(8), on_track: false });
+  });
+
+  it("defaults to a milestone's dates and follows tasks moved onto it", async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    db.prepare("INSERT INTO milestones (id, project_id, name, start_at, end_at) VALUES ('m1', 'p1', 'Sprint', ?, ?)").run(day(-2), day(5));
+    seedScopedTask('t1', 3, []);
+    seedScopedTask('t2', 3, []);
+    db.prepare("UPDATE tasks SET milestone_id = 'm1' WHERE id IN ('t1', 't2')").run();
+    seedEvent('t2', 'milestone_changed', '', 'm1', 1);
+
+    const parsed = parseToolResult(await callTool('get_burndown', { project: 'P', milestone: 'Sprint' }));
+    expect(parsed.start_date).toBe(day(-2));
+    expect(parsed.target_date).toBe(day(5));
+    expect(parsed.series.map((p: any) => p.scope)).toEqual([1, 2, 2]);
+  });
+
+  it('needs exactly one scope and a target date', async () => {
+    seedProject(getTestDb(), { id: 'p1', name: 'P' });
+
+    const noScope = await callTool('get_burndown', { project: 'P', target_date: day(3) });
+    expect(noScope.isError).toBe(true);
+    const noTarget = await callTool('get_burndown', { project: 'P', tag: 'release' });
+    expect(noTarget.isError).toBe(true);
+    expect(noTarget.content[0].text).toContain('target_date');
+  });
+});
+
@@ -2,6 +2,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
 import { getDb, resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
 import { computeDeliveryMetrics } from '../db/metrics.js';
+import { getBurndown } from '../db/burndown.js';
 
 export function registerDeliveryMetricsTools(server: McpServer): void {
   server.registerTool(
@@ -29,4 +30,33 @@ export function registerDeliveryMetricsTools(server: McpServer): void {
       return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
     },
   );
+
+  server.registerTool(
+    'get_burndown',
+    {
+      title: 'Get Burndown',
+      description:
+        'Daily burndown/burnup for a time-boxed scope — the tasks with a tag, the sub-tasks of a parent, or a milestone — up to a target date. Includes scope added or removed along the way and a forecast of whether the scope will be finished in time.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID (defaults to most recent active project)'),
+        tag: z.string().optional().describe('Scope: tasks carrying this tag'),
+        parent_task_id: z.string().optional().describe('Scope: sub-tasks of this task'),
+        milestone: z.string().optional().describe("Scope: a milestone's tasks (its dates are the defaults)"),
+        target_date: z.string().optional().describe('Date the scope should be done by (YYYY-MM-DD); required unless the milestone has an end date'),
+        start_date: z.string().optional().describe('First day of the chart (default: milestone start or when the first task was created)'),
+      },
+    },
+    async ({ project, tag, parent_task_id, milestone, target_date, start_date }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = getBurndown(resolved.id, { tag, parent: parent_task_id, milestone, target_date, start_date });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+    },
+  );
 }
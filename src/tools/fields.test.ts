@@ -0,0 +1,135 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerFieldTools } from './fields.js';
+import { registerTaskTools } from './tasks.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerFieldTools(server);
+  registerTaskTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+async function defineFields() {
+  seedProject(getTestDb(), { id: 'p1', name: 'P' });
+  await callTool('define_field', { project: 'P', key: 'customer', type: 'text' });
+  await callTool('define_field', { project: 'P', key: 'estimate', type: 'number' });
+  await callTool('define_field', { project: 'P', key: 'component', type: 'enum', options: ['api', 'ui'] });
+  await callTool('define_field', { project: 'P', key: 'due', type: 'date' });
+  await callTool('define_field', { project: 'P', key: 'pr_url', label: 'PR URL', type: 'url' });
+}
+
+describe('define_field', () => {
+  it('adds fields in order and lists them', async () => {
+    await defineFields();
+
+    const parsed = parseToolResult(await callTool('list_fields', { project: 'P' }));
+    expect(parsed.fields.map((f: any) => f.key)).toEqual(['customer', 'estimate', 'component', 'due', 'pr_url']);
+    expect(parsed.fields[2]).toEqual({ key: 'component', label: 'component', type: 'enum', options: ['api', 'ui'] });
+  });
+
+  it('refuses to drop enum options still in use', async () => {
+    await defineFields();
+    seedTask(getTestDb(), 'p1', { id: 't1' });
+    await callTool('update_task', { task_id: 't1', fields: { component: 'ui' } });
+
+    const result = await callTool('define_field', { project: 'P', key: 'component', type: 'enum', options: ['api'] });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('ui');
+  });
+
+  it('refuses to change the type of a field with values', async () => {
+    await defineFields();
+    seedTask(getTestDb(), 'p1', { id: 't1' });
+    await callTool('update_task', { task_id: 't1', fields: { customer: 'Acme' } });
+
+    const result = await callTool('define_field', { project: 'P', key: 'customer', type: 'number' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('field values on tasks', () => {
+  it('stores normalized values and returns them with the task', async () => {
+    await defineFields();
+    const created = parseToolResult(await callTool('create_task', {
+      project: 'P',
+      title: 'Fix login',
+      fields: { customer: ' Acme ', estimate: '3.50', component: 'api', pr_url: 'https://github.com/x/y/pull/1' },
+    }));
+
+    const { task } = parseToolResult(await callTool('get_task', { task_id: created.task_id }));
+    expect(JSON.parse(task.fields)).toEqual({
+      customer: 'Acme', estimate: 3.5, component: 'api', pr_url: 'https://github.com/x/y/pull/1',
+    });
+  });
+
+  it('rejects values that do not fit the field', async () => {
+    await defineFields();
+    seedTask(getTestDb(), 'p1', { id: 't1' });
+
+    for (const [fields, message] of [
+      [{ estimate: 'lots' }, 'number'],
+      [{ component: 'db' }, 'api, ui'],
+      [{ due: '2025-02-30' }, 'date'],
+      [{ pr_url: 'ftp://example.com' }, 'http'],
+      [{ owner: 'me' }, 'Unknown field "owner"'],
+    ] as const) {
+      const result = await callTool('update_task', { task_id: 't1', fields });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+    }
+  });
+
+  it('clears a value with null', async () => {
+    await defineFields();
+    seedTask(getTestDb(), 'p1', { id: 't1' });
+    await callTool('update_task', { task_id: 't1', fields: { customer: 'Acme', due: '2025-03-01' } });
+    await callTool('update_task', { task_id: 't1', fields: { customer: null } });
+
+    const { task } = parseToolResult(await callTool('get_task', { task_id: 't1' }));
+    expect(JSON.parse(task.fields)).toEqual({ due: '2025-03-01' });
+  });
+
+  it('filters list_tasks by field values', async () => {
+    await defineFields();
+    const db = getTestDb();
+    seedTask(db, 'p1', { id: 't1', title: 'Acme API' });
+    seedTask(db, 'p1', { id: 't2', title: 'Acme UI' });
+    seedTask(db, 'p1', { id: 't3', title: 'Other API' });
+    await callTool('update_task', { task_id: 't1', fields: { customer: 'Acme', component: 'api', estimate: 2 } });
+    await callTool('update_task', { task_id: 't2', fields: { customer: 'Acme', component: 'ui' } });
+    await callTool('update_task', { task_id: 't3', fields: { customer: 'Other', component: 'api' } });
+
+    const acmeApi = parseToolResult(await callTool('list_tasks', { project: 'P', fields: { customer: 'Acme', component: 'api' } }));
+    expect(acmeApi.tasks.map((t: any) => t.id)).toEqual(['t1']);
+    const byEstimate = parseToolResult(await callTool('list_tasks', { project: 'P', fields: { estimate: '2.0' } }));
+    expect(byEstimate.tasks.map((t: any) => t.id)).toEqual(['t1']);
+  });
+
+  it('drops values when the field is deleted', async () => {
+    await defineFields();
+    seedTask(getTestDb(), 'p1', { id: 't1' });
+    await callTool('update_task', { task_id: 't1', fields: { customer: 'Acme' } });
+
+    const parsed = parseToolResult(await callTool('delete_field', { project: 'P', key: 'customer' }));
+    expect(parsed.removed).toBe(1);
+    expect(getTestDb().prepare('SELECT COUNT(*) AS n FROM task_field_values').get()).toEqual({ n: 0 });
+  });
+});
@@ -0,0 +1,91 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { defineField, deleteField, listFields, FIELD_TYPES } from '../db/custom-fields.js';
+
+export function registerFieldTools(server: McpServer): void {
+  server.registerTool(
+    'list_fields',
+    {
+      title: 'List Custom Fields',
+      description: 'List the custom task fields defined for a project, with their types and enum options.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+      },
+    },
+    async ({ project }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ project: resolved.name, fields: listFields(resolved.id) }, null, 2) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'define_field',
+    {
+      title: 'Define Custom Field',
+      description:
+        'Add a custom task field to a project (e.g. customer, component, estimate, pr_url), or update the label or enum options of an existing one. Set values with the `fields` argument of create_task/update_task.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        key: z.string().describe('Field key, lowercase with underscores, e.g. "pr_url"'),
+        label: z.string().optional().describe('Display label (default: the key)'),
+        type: z.enum(FIELD_TYPES).describe('Value type: text, number, enum, date (YYYY-MM-DD) or url'),
+        options: z.array(z.string()).optional().describe('Allowed values for enum fields'),
+      },
+    },
+    async ({ project, key, label, type, options }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = defineField(resolved.id, { key, label, type, options });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            field: result.field,
+            message: `Field "${key}" ${result.created ? 'added to' : 'updated in'} ${resolved.name}`,
+          }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'delete_field',
+    {
+      title: 'Delete Custom Field',
+      description: 'Remove a custom field from a project, along with its value on every task.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        key: z.string().describe('Field key'),
+      },
+    },
+    async ({ project, key }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = deleteField(resolved.id, key);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, message: `Field "${key}" deleted (${result.removed} value${result.removed === 1 ? '' : 's'} removed)` }),
+        }],
+      };
+    },
+  );
+}
@@ -0,0 +1,80 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask, seedDecision, seedNote,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerGraphTools } from './graph.js';
+import { createLink } from '../db/links.js';
+import { trashItem } from '../db/trash.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerGraphTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+// epic ← task1 (blocked by task2) ← decision (explained by note)
+function seedGraph() {
+  const db = getTestDb();
+  seedProject(db, { id: 'p1', name: 'P' });
+  seedTask(db, 'p1', { id: 'epic0001', title: 'Rate limiting' });
+  seedTask(db, 'p1', { id: 'task0002', title: 'Shared Redis client' });
+  seedTask(db, 'p1', { id: 'task0001', title: 'Token bucket middleware', parent_task_id: 'epic0001', blocked_by: ['task0002'] });
+  seedDecision(db, 'p1', { id: 'dec00001', title: 'Token bucket over fixed window' });
+  db.prepare("UPDATE decisions SET task_id = 'task0001' WHERE id = 'dec00001'").run();
+  seedNote(db, 'p1', { id: 'note0001', content: 'Fixed windows let bursts through at the boundary' });
+  createLink('note0001', 'dec00001', 'relates_to');
+  return db;
+}
+
+describe('explore_graph', () => {
+  it('returns the neighborhood with the edge each node was reached by', async () => {
+    seedGraph();
+    const graph = parseToolResult(await callTool('explore_graph', { id: 'task0001', depth: 1 }));
+
+    expect(graph.root).toBe('task0001');
+    const reached = Object.fromEntries(graph.nodes.map((n: any) => [n.id, [n.depth, n.via?.edge ?? null]]));
+    expect(reached).toEqual({
+      task0001: [0, null],
+      epic0001: [1, 'subtask_of'],
+      task0002: [1, 'blocked_by'],
+      dec00001: [1, 'has_decision'],
+    });
+    expect(graph.edges).toContainEqual({ from: 'dec00001', to: 'task0001', type: 'decision_for' });
+  });
+
+  it('walks from a task to its decisions and the notes behind them', async () => {
+    seedGraph();
+    const graph = parseToolResult(await callTool('explore_graph', { id: 'task0001', depth: 2, kinds: ['task', 'decision', 'note'] }));
+    const note = graph.nodes.find((n: any) => n.id === 'note0001');
+    expect(note).toMatchObject({ type: 'note', depth: 2, via: { from: 'dec00001', edge: 'relates_to' } });
+
+    const decisionsOnly = parseToolResult(await callTool('explore_graph', { id: 'task0001', depth: 3, kinds: ['decision', 'note'] }));
+    expect(decisionsOnly.nodes.map((n: any) => n.id).sort()).toEqual(['dec00001', 'note0001', 'task0001']);
+  });
+
+  it('skips trashed entities and rejects unknown starts', async () => {
+    seedGraph();
+    trashItem('decision', 'dec00001');
+    const graph = parseToolResult(await callTool('explore_graph', { id: 'task0001', depth: 3 }));
+    expect(graph.nodes.map((n: any) => n.id)).not.toContain('dec00001');
+    expect(graph.nodes.map((n: any) => n.id)).not.toContain('note0001');
+
+    expect((await callTool('explore_graph', { id: 'dec00001' })).isError).toBe(true);
+    expect((await callTool('explore_graph', { id: 'task0001', depth: 9 })).isError).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { exploreGraph, GRAPH_MAX_DEPTH } from '../db/graph.js';
+import { LINKABLE_TYPES } from '../db/links.js';
+
+export function registerGraphTools(server: McpServer): void {
+  server.registerTool(
+    'explore_graph',
+    {
+      title: 'Explore Graph',
+      description:
+        'Walk the relationships around a task, note or decision: parent and sub-tasks, blockers, the notes and decisions attached to a task, and links. Returns each entity within `depth` steps with the edge it was reached by (e.g. has_decision, blocked_by, implemented_by), plus every edge found. Use it to answer "why is this built this way" by going from a task to its decisions and the notes behind them.',
+      inputSchema: {
+        id: z.string().describe('Where to start: a task (hex or short ID like "zrdt-180"), note, decision or session ID'),
+        depth: z.number().int().min(1).max(GRAPH_MAX_DEPTH).optional().describe('How many steps to walk (default: 2)'),
+        kinds: z.array(z.enum(LINKABLE_TYPES)).optional().describe('Only visit these kinds of entity (default: all)'),
+      },
+    },
+    async ({ id, depth, kinds }) => {
+      const result = exploreGraph(id, { depth, kinds });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+      };
+    },
+  );
+}
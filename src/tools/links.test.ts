@@ -0,0 +1,120 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask, seedDecision, seedNote,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerLinkTools } from './links.js';
+import { registerTaskTools } from './tasks.js';
+import { registerAuditTools } from './audit.js';
+import { trashItem, purgeTrash } from '../db/trash.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerLinkTools(server);
+  registerTaskTools(server);
+  registerAuditTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+function seedGraph() {
+  const db = getTestDb();
+  seedProject(db, { id: 'p1', name: 'P' });
+  seedTask(db, 'p1', { id: 'task0001', title: 'Add rate limiting' });
+  seedTask(db, 'p1', { id: 'task0002', title: 'Requests dropped under load' });
+  seedDecision(db, 'p1', { id: 'dec00001', title: 'Use a token bucket' });
+  seedNote(db, 'p1', { id: 'note0001', content: 'Bucket sizes were measured in staging', category: 'research' });
+  return db;
+}
+
+describe('link', () => {
+  it('shows links on both ends in get_task', async () => {
+    seedGraph();
+    await callTool('link', { from: 'task0001', to: 'dec00001', type: 'implements' });
+    await callTool('link', { from: 'task0002', to: 'task0001', type: 'caused_by' });
+    await callTool('link', { from: 'note0001', to: 'task0001', type: 'relates_to' });
+
+    const { links } = parseToolResult(await callTool('get_task', { task_id: 'task0001' }));
+    expect(links.map((l: any) => [l.type, l.direction, l.entity.type, l.entity.title])).toEqual([
+      ['implements', 'outgoing', 'decision', 'Use a token bucket'],
+      ['caused', 'incoming', 'task', 'Requests dropped under load'],
+      ['relates_to', 'incoming', 'note', 'Bucket sizes were measured in staging'],
+    ]);
+
+    const bug = parseToolResult(await callTool('get_task', { task_id: 'task0002' }));
+    expect(bug.links).toEqual([expect.objectContaining({ type: 'caused_by', direction: 'outgoing' })]);
+  });
+
+  it('enforces which kinds each link type connects', async () => {
+    const db = seedGraph();
+    seedProject(db, { id: 'p2', name: 'Other' });
+    seedTask(db, 'p2', { id: 'task0009' });
+    seedDecision(db, 'p1', { id: 'dec00002' });
+
+    const invalid = [
+      { from: 'dec00001', to: 'task0001', type: 'implements' },
+      { from: 'dec00002', to: 'dec00001', type: 'supersedes' },
+      { from: 'task0001', to: 'note0001', type: 'duplicates' },
+      { from: 'task0001', to: 'task0001', type: 'relates_to' },
+      { from: 'task0001', to: 'task0009', type: 'relates_to' },
+      { from: 'task0001', to: 'nope', type: 'relates_to' },
+    ];
+    for (const args of invalid) {
+      expect((await callTool('link', args)).isError).toBe(true);
+    }
+    expect(db.prepare('SELECT COUNT(*) AS n FROM links').get()).toEqual({ n: 0 });
+    const supersedes = await callTool('link', { from: 'dec00002', to: 'dec00001', type: 'supersedes' });
+    expect(supersedes.content[0].text).toContain('supersede_decision');
+  });
+
+  it('does not link the same pair twice', async () => {
+    const db = seedGraph();
+    const first = parseToolResult(await callTool('link', { from: 'task0001', to: 'task0002', type: 'relates_to' }));
+    const again = parseToolResult(await callTool('link', { from: 'task0002', to: 'task0001', type: 'relates_to' }));
+    expect(again.link.id).toBe(first.link.id);
+
+    await callTool('link', { from: 'task0002', to: 'task0001', type: 'duplicates' });
+    expect((await callTool('link', { from: 'task0001', to: 'task0002', type: 'duplicates' })).isError).toBe(true);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM links').get()).toEqual({ n: 2 });
+  });
+
+  it('unlinks by ID or by endpoints, and undo restores the link', async () => {
+    const db = seedGraph();
+    const { link } = parseToolResult(await callTool('link', { from: 'task0001', to: 'dec00001', type: 'implements' }));
+    await callTool('link', { from: 'task0001', to: 'task0002', type: 'relates_to' });
+
+    await callTool('unlink', { link_id: link.id });
+    await callTool('unlink', { from: 'task0002', to: 'task0001', type: 'relates_to' });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM links').get()).toEqual({ n: 0 });
+    expect((await callTool('unlink', { from: 'task0001' })).isError).toBe(true);
+
+    await callTool('undo', { count: 2 });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM links').get()).toEqual({ n: 2 });
+  });
+
+  it('hides links to trashed entities and drops them when purged', async () => {
+    const db = seedGraph();
+    await callTool('link', { from: 'task0001', to: 'dec00001', type: 'implements' });
+    trashItem('decision', 'dec00001');
+
+    const { links } = parseToolResult(await callTool('get_task', { task_id: 'task0001' }));
+    expect(links).toEqual([]);
+
+    db.prepare("UPDATE decisions SET deleted_at = datetime('now', '-60 days')").run();
+    purgeTrash(30);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM links').get()).toEqual({ n: 0 });
+  });
+});
@@ -0,0 +1,67 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { createLink, deleteLink, findLink, resolveEntity, LINK_TYPES } from '../db/links.js';
+
+export function registerLinkTools(server: McpServer): void {
+  server.registerTool(
+    'link',
+    {
+      title: 'Link',
+      description:
+        'Record a typed relationship between two tasks, notes, decisions or sessions of a project: relates_to (anything), duplicates (same kind), implements (task → decision), caused_by (bug task or note → task that caused it). To replace a decision, use supersede_decision instead. Links show up on both ends in get_task.',
+      inputSchema: {
+        from: z.string().describe('Source ID: a task (hex or short ID like "zrdt-180"), note, decision or session'),
+        to: z.string().describe('Target ID, same forms as `from`'),
+        type: z.enum(LINK_TYPES).describe('Relationship, read as "<from> <type> <to>"'),
+      },
+    },
+    async ({ from, to, type }) => {
+      const result = createLink(from, to, type);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ link: result.link, message: result.created ? `Linked: ${from} ${type} ${to}.` : 'Already linked.' }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'unlink',
+    {
+      title: 'Unlink',
+      description: 'Remove a link, by its ID or by the same from/to/type it was created with.',
+      inputSchema: {
+        link_id: z.string().optional().describe('Link ID, as shown in get_task'),
+        from: z.string().optional().describe('Source ID'),
+        to: z.string().optional().describe('Target ID'),
+        type: z.enum(LINK_TYPES).optional().describe('Relationship'),
+      },
+    },
+    async ({ link_id, from, to, type }) => {
+      let id = link_id;
+      if (!id) {
+        if (!from || !to || !type) {
+          return { content: [{ type: 'text' as const, text: 'Pass link_id, or all of from, to and type.' }], isError: true };
+        }
+        const source = resolveEntity(from);
+        const target = resolveEntity(to);
+        id = source && target ? findLink(source.id, target.id, type)?.id : undefined;
+        if (!id) {
+          return { content: [{ type: 'text' as const, text: `No ${type} link from ${from} to ${to}.` }], isError: true };
+        }
+      }
+
+      const result = deleteLink(id);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ ...result, message: 'Link removed.' }) }],
+      };
+    },
+  );
+}
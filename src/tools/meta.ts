@@ -7,7 +7,7 @@ You have access to mindpm, a persistent project memory tool. Use it proactively
 ## Session lifecycle
 
 **At the start of every conversation:**
-Call \`start_session\` with the project name. It returns your project context: last session summary, active tasks, blockers, and recent decisions. Always show the kanban_url to the user as a clickable link.
+Call \`start_session\` with the project name. It returns your project context: pinned notes, last session summary, active tasks, blockers, and recent decisions. Always show the kanban_url to the user as a clickable link.
 
 If working across **multiple projects** in one conversation, call \`start_session\` once for each project. After that, all tools will require an explicit \`project\` argument — pass it on every call to avoid ambiguity.
 
@@ -26,6 +26,18 @@ Call \`end_session\` for each project you worked on, with a summary and clear ne
 - Log decisions even for small choices — future sessions benefit from knowing *why*
 - Keep task titles short and actionable (imperative form: "Add rate limiting", not "Rate limiting")
 - Use \`search\` when the user references something you don't have in current context
+- When several people or agents share a project, pass \`mine: true\` to \`get_next_tasks\` and \`assign_task\` a task to yourself before starting it
+- When other agents may run in parallel on the same database, \`claim_task\` a task before working on it (pass the same \`agent\` to \`get_next_tasks\`), \`renew_claim\` on long work, and \`release_claim\` when done
+- Pin notes (\`pinned: true\`) only for rules every session must see; pinned notes come first in \`start_session\`
+- When a note is wrong or out of date, \`update_note\` it rather than adding one that contradicts it
+- Discuss a task (questions, progress, review feedback) with \`add_comment\`; keep \`add_note\` for knowledge that outlives the task
+- When a decision is explicitly temporary, set \`revisit_at\` or \`revisit_when\` on it; raise anything in \`decisions_to_review\` with the user
+- When the repo keeps ADRs in docs/adr, \`import_adrs\` them once, and \`export_adrs\` after logging decisions if the user wants the files kept in sync
+- When a decision is reversed, \`supersede_decision\` it rather than logging a contradicting one
+- When a task implements a decision, fixes a bug caused by another task, or duplicates one, record it with \`link\`
+- When asked why something is built the way it is, \`explore_graph\` from the task to find its decisions and the notes behind them
+- When asked who changed something or what it used to say, check \`get_audit_log\`; \`undo\` reverts your own mistakes
+- Reuse existing tags (see \`list_tags\`) rather than inventing near-duplicates
 
 ## Works across all MCP clients
 
@@ -0,0 +1,132 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerMilestoneTools } from './milestones.js';
+import { registerTaskTools } from './tasks.js';
+import { registerQueryTools } from './queries.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerMilestoneTools(server);
+  registerTaskTools(server);
+  registerQueryTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+function milestoneOf(taskId: string): string | null {
+  return (getTestDb().prepare('SELECT milestone_id FROM tasks WHERE id = ?').get(taskId) as any).milestone_id;
+}
+
+describe('create_milestone', () => {
+  it('creates a planned milestone', async () => {
+    seedProject(getTestDb(), { id: 'p1', name: 'P' });
+
+    const parsed = parseToolResult(await callTool('create_milestone', {
+      project: 'P', name: 'v1.0', goal: 'First release', start_at: '2025-03-01', end_at: '2025-03-28',
+    }));
+    expect(parsed.milestone).toMatchObject({ name: 'v1.0', goal: 'First release', status: 'planned', end_at: '2025-03-28' });
+  });
+
+  it('rejects duplicate names and an end before the start', async () => {
+    seedProject(getTestDb(), { id: 'p1', name: 'P' });
+    await callTool('create_milestone', { project: 'P', name: 'v1.0' });
+
+    const duplicate = await callTool('create_milestone', { project: 'P', name: 'V1.0' });
+    expect(duplicate.isError).toBe(true);
+    const inverted = await callTool('create_milestone', { project: 'P', name: 'v2.0', start_at: '2025-04-01', end_at: '2025-03-01' });
+    expect(inverted.isError).toBe(true);
+  });
+});
+
+describe('tasks in milestones', () => {
+  it('assigns, filters and unassigns tasks by milestone name', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    const { milestone } = parseToolResult(await callTool('create_milestone', { project: 'P', name: 'Sprint 1' }));
+    seedTask(db, 'p1', { id: 't1' });
+
+    const created = parseToolResult(await callTool('create_task', { project: 'P', title: 'Planned', milestone: 'sprint 1' }));
+    expect(milestoneOf(created.task_id)).toBe(milestone.id);
+
+    const listed = parseToolResult(await callTool('list_tasks', { project: 'P', milestone: 'Sprint 1' }));
+    expect(listed.tasks.map((t: any) => t.id)).toEqual([created.task_id]);
+
+    await callTool('update_task', { task_id: created.task_id, milestone: null });
+    expect(milestoneOf(created.task_id)).toBeNull();
+  });
+
+  it('names the open milestones when one is not found', async () => {
+    seedProject(getTestDb(), { id: 'p1', name: 'P' });
+    await callTool('create_milestone', { project: 'P', name: 'Sprint 1' });
+
+    const result = await callTool('create_task', { project: 'P', title: 'T', milestone: 'Sprint 9' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Open milestones: Sprint 1');
+  });
+});
+
+describe('list_milestones', () => {
+  it('reports done/total and what remains by priority', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    const { milestone } = parseToolResult(await callTool('create_milestone', { project: 'P', name: 'v1.0', status: 'active' }));
+    seedTask(db, 'p1', { id: 't1', status: 'done' });
+    seedTask(db, 'p1', { id: 't2', priority: 'high' });
+    seedTask(db, 'p1', { id: 't3', priority: 'high', status: 'in_progress' });
+    seedTask(db, 'p1', { id: 't4', status: 'cancelled' });
+    db.prepare("UPDATE tasks SET milestone_id = ? WHERE project_id = 'p1'").run(milestone.id);
+
+    const parsed = parseToolResult(await callTool('list_milestones', { project: 'P' }));
+    expect(parsed.milestones[0]).toMatchObject({
+      name: 'v1.0', done: 1, total: 3, remaining_by_priority: { critical: 0, high: 2, medium: 0, low: 0 },
+    });
+  });
+
+  it('shows up in get_project_summary', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('create_milestone', { project: 'P', name: 'v1.0' });
+
+    const parsed = parseToolResult(await callTool('get_project_summary', { project: 'P' }));
+    expect(parsed.milestones.map((m: any) => [m.name, m.done, m.total])).toEqual([['v1.0', 0, 0]]);
+  });
+});
+
+describe('close_milestone', () => {
+  it('carries unfinished tasks over to another milestone', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('create_milestone', { project: 'P', name: 'Sprint 1' });
+    const next = parseToolResult(await callTool('create_milestone', { project: 'P', name: 'Sprint 2' })).milestone;
+    seedTask(db, 'p1', { id: 't1', status: 'done' });
+    seedTask(db, 'p1', { id: 't2' });
+    await callTool('update_task', { task_id: 't1', milestone: 'Sprint 1' });
+    await callTool('update_task', { task_id: 't2', milestone: 'Sprint 1' });
+
+    const parsed = parseToolResult(await callTool('close_milestone', { project: 'P', milestone: 'Sprint 1', move_open_to: 'Sprint 2' }));
+    expect(parsed).toMatchObject({ open_tasks: 1, moved_to: 'Sprint 2', milestone: { status: 'closed' } });
+    expect(milestoneOf('t2')).toBe(next.id);
+
+    const listed = parseToolResult(await callTool('list_milestones', { project: 'P' }));
+    expect(listed.milestones.map((m: any) => m.name)).toEqual(['Sprint 2']);
+    const assign = await callTool('update_task', { task_id: 't2', milestone: 'Sprint 1' });
+    expect(assign.isError).toBe(true);
+    expect(assign.content[0].text).toContain('is closed');
+  });
+});
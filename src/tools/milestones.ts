@@ -0,0 +1,98 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { closeMilestone, createMilestone, listMilestones } from '../db/milestones.js';
+
+export function registerMilestoneTools(server: McpServer): void {
+  server.registerTool(
+    'create_milestone',
+    {
+      title: 'Create Milestone',
+      description:
+        'Create a milestone or sprint in a project. Assign tasks to it with the `milestone` argument of create_task/update_task.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        name: z.string().describe('Milestone name, unique within the project (e.g. "v1.2", "Sprint 14")'),
+        goal: z.string().optional().describe('What the milestone should achieve'),
+        start_at: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        end_at: z.string().optional().describe('Target end date (YYYY-MM-DD)'),
+        status: z.enum(['planned', 'active']).optional().describe('planned (default) or active'),
+      },
+    },
+    async ({ project, name, goal, start_at, end_at, status }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = createMilestone(resolved.id, { name, goal, start_at, end_at, status });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ milestone: result.milestone, message: `Milestone "${result.milestone.name}" created in ${resolved.name}` }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'list_milestones',
+    {
+      title: 'List Milestones',
+      description: 'List a project\'s milestones with progress: done/total tasks and what remains by priority. Active milestones come first.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        include_closed: z.boolean().optional().describe('Include closed milestones (default: false)'),
+      },
+    },
+    async ({ project, include_closed }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ project: resolved.name, milestones: listMilestones(resolved.id, { includeClosed: include_closed }) }, null, 2),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'close_milestone',
+    {
+      title: 'Close Milestone',
+      description:
+        'Close a milestone. Unfinished tasks stay on it unless `move_open_to` names another open milestone to carry them over to — ask the user which they want.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        milestone: z.string().describe('Milestone name or ID'),
+        move_open_to: z.string().optional().describe('Milestone name or ID to move unfinished tasks to'),
+      },
+    },
+    async ({ project, milestone, move_open_to }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = closeMilestone(resolved.id, milestone, move_open_to);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      const leftover = result.open_tasks === 0
+        ? 'all tasks finished'
+        : `${result.open_tasks} unfinished task${result.open_tasks === 1 ? '' : 's'} ${result.moved_to ? `moved to "${result.moved_to}"` : 'left on it'}`;
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, message: `Milestone "${result.milestone.name}" closed (${leftover})` }),
+        }],
+      };
+    },
+  );
+}
@@ -11,6 +11,7 @@ vi.mock('../db/connection.js', () => ({
 }));
 
 import { registerNoteTools } from './notes.js';
+import { withActor } from '../utils/actor.js';
 
 let callTool: ReturnType<typeof createToolCaller>;
 
@@ -60,14 +61,16 @@ describe('add_note', () => {
     expect(row.category).toBe('general');
   });
 
-  it('stores tags as JSON array', async () => {
+  it('stores tags in the tags table', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
 
     const result = await callTool('add_note', { project: 'P', content: 'X', tags: ['a', 'b'] });
     const parsed = parseToolResult(result);
-    const row = db.prepare('SELECT tags FROM notes WHERE id = ?').get(parsed.note_id) as any;
-    expect(JSON.parse(row.tags)).toEqual(['a', 'b']);
+    const rows = db.prepare(
+      'SELECT g.name FROM note_tags j JOIN tags g ON g.id = j.tag_id WHERE j.note_id = ? ORDER BY j.rowid'
+    ).all(parsed.note_id) as { name: string }[];
+    expect(rows.map(r => r.name)).toEqual(['a', 'b']);
   });
 
   it('returns error when project not found', async () => {
@@ -117,6 +120,54 @@ describe('search_notes', () => {
   });
 });
 
+describe('update_note', () => {
+  it('rewrites a note and keeps the earlier versions as revisions', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedNote(db, 'p1', { id: 'n1', content: 'Auth uses sessions' });
+
+    const first = parseToolResult(await withActor('agent-a', () => callTool('update_note', { note_id: 'n1', content: 'Auth uses JWT' })));
+    expect(first).toMatchObject({ updated: ['content'], revision: 2 });
+    await withActor('agent-b', () => callTool('update_note', { note_id: 'n1', content: 'Auth uses JWT in cookies', category: 'architecture', task_id: 't1' }));
+
+    const history = parseToolResult(await callTool('list_note_revisions', { note_id: 'n1' }));
+    expect(history.revisions.map((r: any) => [r.revision, r.content, r.replaced_by])).toEqual([
+      [1, 'Auth uses sessions', 'agent-a'],
+      [2, 'Auth uses JWT', 'agent-b'],
+    ]);
+    expect(history.current).toMatchObject({ revision: 3, content: 'Auth uses JWT in cookies', category: 'architecture', author: 'agent-b' });
+    expect(db.prepare("SELECT task_id FROM notes WHERE id = 'n1'").get()).toEqual({ task_id: 't1' });
+  });
+
+  it('only records a revision when the text or category changes', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedNote(db, 'p1', { id: 'n1' });
+
+    parseToolResult(await callTool('update_note', { note_id: 'n1', tags: ['auth'] }));
+    expect(parseToolResult(await callTool('list_note_revisions', { note_id: 'n1' })).revisions).toEqual([]);
+
+    expect((await callTool('update_note', { note_id: 'n1' })).isError).toBe(true);
+    expect((await callTool('update_note', { note_id: 'n1', content: '  ' })).isError).toBe(true);
+    expect((await callTool('update_note', { note_id: 'n1', task_id: 'nope' })).isError).toBe(true);
+    expect((await callTool('update_note', { note_id: 'missing', content: 'x' })).isError).toBe(true);
+  });
+});
+
+describe('delete_note', () => {
+  it('moves a note to the trash', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedNote(db, 'p1', { id: 'n1' });
+
+    parseToolResult(await callTool('delete_note', { note_id: 'n1' }));
+    expect((db.prepare("SELECT deleted_at FROM notes WHERE id = 'n1'").get() as any).deleted_at).not.toBeNull();
+    expect((await callTool('delete_note', { note_id: 'n1' })).isError).toBe(true);
+    expect((await callTool('update_note', { note_id: 'n1', content: 'x' })).isError).toBe(true);
+  });
+});
+
 describe('set_context', () => {
   it('sets a new context key-value', async () => {
     const db = getTestDb();
@@ -152,6 +203,16 @@ describe('set_context', () => {
     expect(row.category).toBe('architecture');
   });
 
+  it('keeps who created a key and records who last changed it', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_context', { project: 'P', key: 'db', value: 'sqlite' });
+    await withActor('kanban-ui', () => callTool('set_context', { project: 'P', key: 'db', value: 'postgres' }));
+
+    const row = db.prepare("SELECT created_by, updated_by FROM context WHERE key = 'db'").get();
+    expect(row).toEqual({ created_by: 'mcp', updated_by: 'kanban-ui' });
+  });
+
   it('returns error when project not found', async () => {
     const result = await callTool('set_context', { project: 'nope', key: 'k', value: 'v' });
     expect(result.isError).toBe(true);
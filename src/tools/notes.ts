@@ -1,7 +1,12 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
 import { getDb, generateId, resolveProjectOrDefault, resolveProjectError, resolveTaskId } from '../db/queries.js';
+import { setTags, tagsSql } from '../db/tags.js';
 import { maybeAutoSession } from './auto-session.js';
+import { audited } from '../db/audit.js';
+import { currentActor } from '../utils/actor.js';
+import { listNoteRevisions, updateNote, NOTE_CATEGORIES } from '../db/notes.js';
+import { trashItem } from '../db/trash.js';
 
 export function registerNoteTools(server: McpServer): void {
   server.registerTool(
@@ -14,14 +19,15 @@ export function registerNoteTools(server: McpServer): void {
         project: z.string().optional().describe('Project name or ID (always pass this when known — omitting may target the wrong project)'),
         content: z.string().describe('The note content'),
         category: z
-          .enum(['general', 'architecture', 'bug', 'idea', 'research', 'meeting', 'review'])
+          .enum(NOTE_CATEGORIES)
           .optional()
           .describe('Note category (default: general)'),
         task_id: z.string().optional().describe('Link this note to a specific task (hex ID or short ID like "zrdt-180")'),
         tags: z.array(z.string()).optional().describe('Tags for categorization'),
+        pinned: z.boolean().optional().describe('Pin it so every start_session shows it, for rules no session should miss'),
       },
     },
-    async ({ project, content, category, task_id, tags }) => {
+    async ({ project, content, category, task_id, tags, pinned }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
@@ -30,16 +36,22 @@ export function registerNoteTools(server: McpServer): void {
       const db = getDb();
       const id = generateId();
       const resolvedTaskId = task_id ? resolveTaskId(task_id) : null;
-      db.prepare(
-        `INSERT INTO notes (id, project_id, task_id, content, category, tags) VALUES (?, ?, ?, ?, ?, ?)`
-      ).run(
-        id,
-        resolved.id,
-        resolvedTaskId,
-        content,
-        category ?? 'general',
-        tags ? JSON.stringify(tags) : null,
-      );
+      const actor = currentActor();
+      audited('note', id, db.transaction(() => {
+        db.prepare(
+          `INSERT INTO notes (id, project_id, task_id, content, category, pinned, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          id,
+          resolved.id,
+          resolvedTaskId,
+          content,
+          category ?? 'general',
+          pinned ? 1 : 0,
+          actor,
+          actor,
+        );
+        if (tags) setTags('note', id, resolved.id, tags);
+      }));
 
       return {
         content: [{
@@ -59,7 +71,7 @@ export function registerNoteTools(server: McpServer): void {
         project: z.string().optional().describe('Project name or ID'),
         query: z.string().describe('Search query'),
         category: z
-          .enum(['general', 'architecture', 'bug', 'idea', 'research', 'meeting', 'review'])
+          .enum(NOTE_CATEGORIES)
           .optional()
           .describe('Filter by category'),
       },
@@ -72,7 +84,7 @@ export function registerNoteTools(server: McpServer): void {
 
       const sessionPreamble = maybeAutoSession(resolved.id);
       const db = getDb();
-      const conditions: string[] = ['project_id = ?'];
+      const conditions: string[] = ['project_id = ?', 'deleted_at IS NULL'];
       const params: any[] = [resolved.id];
 
       conditions.push("content LIKE '%' || ? || '%'");
@@ -83,7 +95,7 @@ export function registerNoteTools(server: McpServer): void {
         params.push(category);
       }
 
-      const sql = `SELECT * FROM notes WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC`;
+      const sql = `SELECT *, ${tagsSql('note', 'notes')} AS tags FROM notes WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC`;
       const rows = db.prepare(sql).all(...params);
 
       const resultText = JSON.stringify({ project: resolved.name, results: rows }, null, 2);
@@ -93,6 +105,86 @@ export function registerNoteTools(server: McpServer): void {
     },
   );
 
+  server.registerTool(
+    'update_note',
+    {
+      title: 'Update Note',
+      description:
+        'Correct or rewrite a note, recategorize or pin it, or move it to another task. The text being replaced is kept as a revision (see list_note_revisions), so nothing the note said is lost.',
+      inputSchema: {
+        note_id: z.string().describe('Note ID'),
+        content: z.string().optional().describe('New content (replaces the text)'),
+        category: z.enum(NOTE_CATEGORIES).optional().describe('New category'),
+        task_id: z.string().nullable().optional().describe('Task to attach it to (hex or short ID); null detaches it'),
+        tags: z.array(z.string()).optional().describe('Tags (replaces the list)'),
+        pinned: z.boolean().optional().describe('Pin or unpin it; pinned notes are shown at every start_session'),
+      },
+    },
+    async ({ note_id, content, category, task_id, tags, pinned }) => {
+      let resolvedTaskId = task_id;
+      if (task_id) {
+        resolvedTaskId = resolveTaskId(task_id);
+        if (!resolvedTaskId) {
+          return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+        }
+      }
+      const result = updateNote(note_id, { content, category, task_id: resolvedTaskId, tags, pinned });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ note_id, updated: result.updated, revision: result.revision, message: 'Note updated.' }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'delete_note',
+    {
+      title: 'Delete Note',
+      description: 'Move a note to the trash. It can be brought back with restore_item until the trash is purged.',
+      inputSchema: {
+        note_id: z.string().describe('Note ID'),
+      },
+    },
+    async ({ note_id }) => {
+      if (!trashItem('note', note_id)) {
+        return { content: [{ type: 'text' as const, text: `Note "${note_id}" not found.` }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ note_id, message: 'Note moved to trash.' }) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'list_note_revisions',
+    {
+      title: 'List Note Revisions',
+      description: 'Earlier versions of a note, oldest first, with who wrote each and who replaced it. Use it to see what a note said before it was rewritten.',
+      inputSchema: {
+        note_id: z.string().describe('Note ID'),
+      },
+    },
+    async ({ note_id }) => {
+      const revisions = listNoteRevisions(note_id);
+      if ('error' in revisions) {
+        return { content: [{ type: 'text' as const, text: revisions.error }], isError: true };
+      }
+      const note = getDb().prepare('SELECT content, category, updated_by AS author FROM notes WHERE id = ?').get(note_id) as
+        { content: string; category: string | null; author: string | null };
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ note_id, current: { revision: revisions.length + 1, ...note }, revisions }, null, 2),
+        }],
+      };
+    },
+  );
+
   server.registerTool(
     'set_context',
     {
@@ -113,12 +205,13 @@ export function registerNoteTools(server: McpServer): void {
       }
 
       const db = getDb();
-      const id = generateId();
-      db.prepare(
-        `INSERT INTO context (id, project_id, key, value, category)
-         VALUES (?, ?, ?, ?, ?)
-         ON CONFLICT(project_id, key) DO UPDATE SET value = excluded.value, category = excluded.category`
-      ).run(id, resolved.id, key, value, category ?? 'general');
+      const existing = db.prepare('SELECT id FROM context WHERE project_id = ? AND key = ?').get(resolved.id, key) as { id: string } | undefined;
+      const id = existing?.id ?? generateId();
+      audited('context', id, () => db.prepare(
+        `INSERT INTO context (id, project_id, key, value, category, created_by, updated_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(project_id, key) DO UPDATE SET value = excluded.value, category = excluded.category, updated_by = excluded.updated_by`
+      ).run(id, resolved.id, key, value, category ?? 'general', currentActor(), currentActor()));
 
       return {
         content: [{
@@ -0,0 +1,120 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerPeopleTools } from './people.js';
+import { registerTaskTools } from './tasks.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerPeopleTools(server);
+  registerTaskTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  closeTestDb();
+});
+
+async function addPeople() {
+  await callTool('add_person', { name: 'Ada Lovelace', handle: 'ada' });
+  await callTool('add_person', { name: 'Claude Code', handle: 'claude-code', kind: 'agent' });
+}
+
+describe('add_person', () => {
+  it('adds people with unique handles', async () => {
+    const parsed = parseToolResult(await callTool('add_person', { name: 'Ada Lovelace', handle: '@ada' }));
+    expect(parsed.person).toMatchObject({ name: 'Ada Lovelace', handle: 'ada', kind: 'human' });
+
+    const duplicate = await callTool('add_person', { name: 'Ada L.', handle: 'ADA' });
+    expect(duplicate.isError).toBe(true);
+    const invalid = await callTool('add_person', { name: 'Bob', handle: 'bob smith' });
+    expect(invalid.isError).toBe(true);
+  });
+});
+
+describe('assign_task', () => {
+  it('sets and clears the assignee and reviewer, recording history', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    await addPeople();
+
+    const assigned = parseToolResult(await callTool('assign_task', { task_id: 't1', assignee: 'claude-code', reviewer: 'Ada Lovelace' }));
+    expect(assigned).toMatchObject({ assignee: 'claude-code', reviewer: 'ada' });
+
+    const cleared = parseToolResult(await callTool('assign_task', { task_id: 't1', reviewer: null }));
+    expect(cleared).toMatchObject({ assignee: 'claude-code', reviewer: null });
+
+    const events = db.prepare("SELECT event FROM task_history WHERE task_id = 't1' ORDER BY rowid").all() as { event: string }[];
+    expect(events.map(e => e.event)).toEqual(['assignee_changed', 'reviewer_changed', 'reviewer_changed']);
+  });
+
+  it('lists known handles when a person is not found', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    await addPeople();
+
+    const result = await callTool('assign_task', { task_id: 't1', assignee: 'grace' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Known handles: ada, claude-code');
+  });
+});
+
+describe('mine filter', () => {
+  async function seedAssignedTasks() {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await addPeople();
+    seedTask(db, 'p1', { id: 't1', title: 'Mine' });
+    seedTask(db, 'p1', { id: 't2', title: 'Theirs' });
+    seedTask(db, 'p1', { id: 't3', title: 'My review', status: 'in_review' });
+    seedTask(db, 'p1', { id: 't4', title: 'Reviewer but not in review' });
+    await callTool('assign_task', { task_id: 't1', assignee: 'ada' });
+    await callTool('assign_task', { task_id: 't2', assignee: 'claude-code' });
+    await callTool('assign_task', { task_id: 't3', assignee: 'claude-code', reviewer: 'ada' });
+    await callTool('assign_task', { task_id: 't4', assignee: 'claude-code', reviewer: 'ada' });
+  }
+
+  it('lists tasks assigned to MINDPM_USER and reviews waiting on them', async () => {
+    await seedAssignedTasks();
+    vi.stubEnv('MINDPM_USER', 'ada');
+
+    const listed = parseToolResult(await callTool('list_tasks', { project: 'P', mine: true }));
+    expect(listed.tasks.map((t: any) => t.id).sort()).toEqual(['t1', 't3']);
+    expect(listed.tasks.find((t: any) => t.id === 't3')).toMatchObject({ assignee: 'claude-code', reviewer: 'ada' });
+
+    const next = parseToolResult(await callTool('get_next_tasks', { project: 'P', mine: true }));
+    expect(next.next_tasks.map((t: any) => t.id).sort()).toEqual(['t1', 't3']);
+    expect(next.next_tasks.find((t: any) => t.id === 't3').why).toContain('waiting for your review');
+  });
+
+  it('filters by an explicit assignee', async () => {
+    await seedAssignedTasks();
+
+    const listed = parseToolResult(await callTool('list_tasks', { project: 'P', assignee: 'claude-code' }));
+    expect(listed.tasks.map((t: any) => t.id).sort()).toEqual(['t2', 't3', 't4']);
+  });
+
+  it('explains how to say who you are', async () => {
+    await seedAssignedTasks();
+    vi.stubEnv('MINDPM_USER', '');
+
+    const result = await callTool('list_tasks', { project: 'P', mine: true });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('MINDPM_USER');
+  });
+});
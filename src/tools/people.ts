@@ -0,0 +1,104 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { getDb, resolveTaskId } from '../db/queries.js';
+import { assignTask, createPerson, currentPerson, listPeople, resolveAssignee, PERSON_KINDS } from '../db/people.js';
+
+export function registerPeopleTools(server: McpServer): void {
+  server.registerTool(
+    'add_person',
+    {
+      title: 'Add Person',
+      description:
+        'Add a human or an agent to the people directory so tasks can be assigned to them. People are shared by all projects.',
+      inputSchema: {
+        name: z.string().describe('Display name (e.g. "Ada Lovelace", "Claude Code")'),
+        handle: z.string().describe('Unique handle used to refer to them (e.g. "ada", "claude-code")'),
+        kind: z.enum(PERSON_KINDS).optional().describe('human (default) or agent'),
+      },
+    },
+    async ({ name, handle, kind }) => {
+      const result = createPerson({ name, handle, kind });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ person: result.person, message: `Added ${result.person.kind} "${result.person.name}" (@${result.person.handle})` }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'list_people',
+    {
+      title: 'List People',
+      description: 'List the people directory — humans and agents — with how many open tasks each is assigned, and who "mine" currently refers to.',
+      inputSchema: {},
+    },
+    async () => {
+      const me = currentPerson(server.server.getClientVersion()?.name);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ people: listPeople(), you: me?.handle ?? null }, null, 2),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'assign_task',
+    {
+      title: 'Assign Task',
+      description:
+        'Set who owns a task and who reviews it once it is in review. Pass null to clear either. Use list_people to find handles.',
+      inputSchema: {
+        task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
+        assignee: z.string().nullable().optional().describe('Handle, name or ID of the owner; null unassigns'),
+        reviewer: z.string().nullable().optional().describe('Handle, name or ID of the reviewer; null clears it'),
+      },
+    },
+    async ({ task_id, assignee, reviewer }) => {
+      const db = getDb();
+      const resolvedId = resolveTaskId(task_id);
+      const task = resolvedId
+        ? db.prepare('SELECT id, title, assignee_id, reviewer_id FROM tasks WHERE id = ?').get(resolvedId) as
+          { id: string; title: string; assignee_id: string | null; reviewer_id: string | null } | undefined
+        : undefined;
+      if (!task) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      if (assignee === undefined && reviewer === undefined) {
+        return { content: [{ type: 'text' as const, text: 'Pass an assignee, a reviewer or both.' }], isError: true };
+      }
+
+      const changes: { assignee_id?: string | null; reviewer_id?: string | null } = {};
+      for (const [column, ref] of [['assignee_id', assignee], ['reviewer_id', reviewer]] as const) {
+        if (ref === undefined) continue;
+        const person = ref === null ? { id: null } : resolveAssignee(ref);
+        if ('error' in person) {
+          return { content: [{ type: 'text' as const, text: person.error }], isError: true };
+        }
+        changes[column] = person.id;
+      }
+      assignTask(task, changes);
+
+      const updated = db.prepare(
+        `SELECT a.handle AS assignee, r.handle AS reviewer FROM tasks t
+         LEFT JOIN people a ON a.id = t.assignee_id LEFT JOIN people r ON r.id = t.reviewer_id WHERE t.id = ?`
+      ).get(task.id) as { assignee: string | null; reviewer: string | null };
+      const who = [
+        `assignee: ${updated.assignee ? `@${updated.assignee}` : 'none'}`,
+        `reviewer: ${updated.reviewer ? `@${updated.reviewer}` : 'none'}`,
+      ].join(', ');
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ task_id: task.id, ...updated, message: `Task "${task.title}" — ${who}` }),
+        }],
+      };
+    },
+  );
+}
@@ -66,6 +66,17 @@ describe('create_project', () => {
     expect(row.description).toBeNull();
     expect(row.tech_stack).toBeNull();
     expect(row.repo_path).toBeNull();
+    expect(row.estimate_unit).toBe('points');
+  });
+});
+
+describe('set_estimate_unit', () => {
+  it('switches a project to hour estimates', async () => {
+    const parsed = parseToolResult(await callTool('create_project', { name: 'Sized' }));
+    await callTool('set_estimate_unit', { project: 'Sized', unit: 'hours' });
+
+    const row = getTestDb().prepare('SELECT estimate_unit FROM projects WHERE id = ?').get(parsed.project_id) as any;
+    expect(row.estimate_unit).toBe('hours');
   });
 });
 
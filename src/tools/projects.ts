@@ -1,7 +1,13 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
-import { getDb, generateId, resolveProjectId } from '../db/queries.js';
+import { getDb, generateId, resolveProjectId, resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
 import { generateSlug } from '../utils/ids.js';
+import { blockedBySql } from '../db/dependencies.js';
+import { tagsSql } from '../db/tags.js';
+import { ESTIMATE_UNITS } from '../db/estimates.js';
+import { recentDecisions, decisionsDueForReview } from '../db/decisions.js';
+import { statusCategorySql, categoryListSql, CLOSED_CATEGORIES } from '../db/workflow.js';
+import { audited } from '../db/audit.js';
 import { maybeAutoSession } from './auto-session.js';
 
 export function registerProjectTools(server: McpServer): void {
@@ -16,9 +22,10 @@ export function registerProjectTools(server: McpServer): void {
         description: z.string().optional().describe('What this project is about'),
         tech_stack: z.array(z.string()).optional().describe('Technologies used, e.g. ["FastAPI", "React", "PostgreSQL"]'),
         repo_path: z.string().optional().describe('Path to the project repository'),
+        estimate_unit: z.enum(ESTIMATE_UNITS).optional().describe('Unit for task estimates: points or hours (default: points)'),
       },
     },
-    async ({ name, description, tech_stack, repo_path }) => {
+    async ({ name, description, tech_stack, repo_path, estimate_unit }) => {
       const db = getDb();
       const id = generateId();
       // Generate unique slug
@@ -31,9 +38,9 @@ export function registerProjectTools(server: McpServer): void {
       slug = candidate;
 
       try {
-        db.prepare(
-          `INSERT INTO projects (id, name, slug, description, tech_stack, repo_path) VALUES (?, ?, ?, ?, ?, ?)`
-        ).run(id, name, slug, description ?? null, tech_stack ? JSON.stringify(tech_stack) : null, repo_path ?? null);
+        audited('project', id, () => db.prepare(
+          `INSERT INTO projects (id, name, slug, description, tech_stack, repo_path, estimate_unit) VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(id, name, slug, description ?? null, tech_stack ? JSON.stringify(tech_stack) : null, repo_path ?? null, estimate_unit ?? 'points'));
       } catch (e: any) {
         if (e.message?.includes('UNIQUE constraint failed')) {
           return { content: [{ type: 'text' as const, text: `Project "${name}" already exists.` }], isError: true };
@@ -47,6 +54,29 @@ export function registerProjectTools(server: McpServer): void {
     },
   );
 
+  server.registerTool(
+    'set_estimate_unit',
+    {
+      title: 'Set Estimate Unit',
+      description:
+        'Choose whether task estimates in a project are story points or ideal hours. Existing estimates keep their numbers, so re-size tasks after switching.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        unit: z.enum(ESTIMATE_UNITS).describe('points or hours'),
+      },
+    },
+    async ({ project, unit }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      audited('project', resolved.id, () => getDb().prepare('UPDATE projects SET estimate_unit = ? WHERE id = ?').run(unit, resolved.id));
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ project: resolved.name, estimate_unit: unit, message: `${resolved.name} now estimates in ${unit}` }) }],
+      };
+    },
+  );
+
   server.registerTool(
     'list_projects',
     {
@@ -94,15 +124,11 @@ export function registerProjectTools(server: McpServer): void {
       const projectRow = db.prepare('SELECT * FROM projects WHERE id = ?').get(projectId);
 
       const activeTasks = db
-        .prepare("SELECT id, title, status, priority, tags FROM tasks WHERE project_id = ? AND status NOT IN ('done', 'cancelled') ORDER BY CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END")
+        .prepare(`SELECT id, title, status, priority, ${tagsSql('task', 'tasks')} AS tags FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND ${statusCategorySql('tasks')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)} ORDER BY CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END`)
         .all(projectId);
 
       const blockedTasks = db
-        .prepare("SELECT id, title, blocked_by FROM tasks WHERE project_id = ? AND status = 'blocked'")
-        .all(projectId);
-
-      const recentDecisions = db
-        .prepare('SELECT id, title, decision, created_at FROM decisions WHERE project_id = ? ORDER BY created_at DESC LIMIT 5')
+        .prepare(`SELECT t.id, t.title, ${blockedBySql()} AS blocked_by FROM tasks t WHERE t.project_id = ? AND t.deleted_at IS NULL AND ${statusCategorySql('t')} = 'blocked'`)
         .all(projectId);
 
       const lastSession = db
@@ -110,7 +136,7 @@ export function registerProjectTools(server: McpServer): void {
         .get(projectId);
 
       const taskCounts = db
-        .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? GROUP BY status')
+        .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? AND deleted_at IS NULL GROUP BY status')
         .all(projectId);
 
       const result = {
@@ -118,7 +144,8 @@ export function registerProjectTools(server: McpServer): void {
         task_summary: taskCounts,
         active_tasks: activeTasks,
         blocked_tasks: blockedTasks,
-        recent_decisions: recentDecisions,
+        recent_decisions: recentDecisions(projectId),
+        decisions_to_review: decisionsDueForReview(projectId),
         last_session: lastSession,
       };
 
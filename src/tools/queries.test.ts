@@ -75,7 +75,7 @@ describe('get_project_summary', () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
     seedTask(db, 'p1', { id: 't1', status: 'todo', priority: 'high' });
-    seedTask(db, 'p1', { id: 't2', status: 'blocked', blocked_by: '["t1"]' });
+    seedTask(db, 'p1', { id: 't2', status: 'blocked', blocked_by: ['t1'] });
     seedDecision(db, 'p1', { id: 'd1' });
     seedNote(db, 'p1', { id: 'n1' });
 
@@ -104,6 +104,22 @@ describe('get_project_summary', () => {
     expect(parsed.blockers).toEqual([]);
     expect(parsed.upcoming_priorities).toEqual([]);
     expect(parsed.totals.notes).toBe(0);
+    expect(parsed.decisions_to_review).toEqual({ due: [], on_condition: [] });
+  });
+
+  it('lists decisions due for review', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'SQLite until 10k users' });
+    seedDecision(db, 'p1', { id: 'd2', title: 'No caching yet' });
+    seedDecision(db, 'p1', { id: 'd3', title: 'Revisit next year' });
+    db.prepare("UPDATE decisions SET revisit_at = date('now', '-1 day') WHERE id = 'd1'").run();
+    db.prepare("UPDATE decisions SET revisit_when = 'p95 over 200ms' WHERE id = 'd2'").run();
+    db.prepare("UPDATE decisions SET revisit_at = date('now', '+1 year') WHERE id = 'd3'").run();
+
+    const parsed = parseToolResult(await callTool('get_project_summary', { project: 'P' }));
+    expect(parsed.decisions_to_review.due.map((d: any) => d.id)).toEqual(['d1']);
+    expect(parsed.decisions_to_review.on_condition.map((d: any) => d.id)).toEqual(['d2']);
   });
 });
 
@@ -112,7 +128,7 @@ describe('get_blockers', () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
     seedTask(db, 'p1', { id: 't1', title: 'Blocker', status: 'in_progress' });
-    seedTask(db, 'p1', { id: 't2', title: 'Blocked', status: 'blocked', blocked_by: '["t1"]' });
+    seedTask(db, 'p1', { id: 't2', title: 'Blocked', status: 'blocked', blocked_by: ['t1'] });
 
     const result = await callTool('get_blockers', { project: 'P' });
     const parsed = parseToolResult(result);
@@ -122,15 +138,14 @@ describe('get_blockers', () => {
     expect(parsed.blockers[0].blocking_tasks[0].title).toBe('Blocker');
   });
 
-  it('handles blocked_by referencing unknown task IDs', async () => {
+  it('returns empty blocking_tasks for a blocked task without dependencies', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
-    seedTask(db, 'p1', { id: 't1', status: 'blocked', blocked_by: '["unknown123"]' });
+    seedTask(db, 'p1', { id: 't1', status: 'blocked' });
 
     const result = await callTool('get_blockers', { project: 'P' });
     const parsed = parseToolResult(result);
-    expect(parsed.blockers[0].blocking_tasks[0].title).toBe('Unknown task');
-    expect(parsed.blockers[0].blocking_tasks[0].status).toBe('unknown');
+    expect(parsed.blockers[0].blocking_tasks).toEqual([]);
   });
 
   it('returns empty blockers when none exist', async () => {
@@ -149,6 +164,40 @@ describe('get_blockers', () => {
   });
 });
 
+describe('get_deadlines', () => {
+  function daysFromNow(days: number): string {
+    return new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+  }
+
+  it('splits open tasks across projects into overdue and due soon', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedProject(db, { id: 'p2', name: 'Q' });
+    seedProject(db, { id: 'p3', name: 'Old', status: 'archived' });
+    seedTask(db, 'p1', { id: 't1', due_at: daysFromNow(-1) });
+    seedTask(db, 'p2', { id: 't2', due_at: daysFromNow(3) });
+    seedTask(db, 'p1', { id: 't3', due_at: daysFromNow(20) });
+    seedTask(db, 'p1', { id: 't4', due_at: daysFromNow(-5), status: 'done' });
+    seedTask(db, 'p3', { id: 't5', due_at: daysFromNow(1) });
+
+    const parsed = parseToolResult(await callTool('get_deadlines', {}));
+    expect(parsed.overdue.map((t: any) => t.id)).toEqual(['t1']);
+    expect(parsed.overdue[0].days_left).toBe(-1);
+    expect(parsed.due_soon.map((t: any) => [t.id, t.project])).toEqual([['t2', 'Q']]);
+  });
+
+  it('can be limited to one project and a longer horizon', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedProject(db, { id: 'p2', name: 'Q' });
+    seedTask(db, 'p1', { id: 't1', due_at: daysFromNow(20) });
+    seedTask(db, 'p2', { id: 't2', due_at: daysFromNow(2) });
+
+    const parsed = parseToolResult(await callTool('get_deadlines', { project: 'P', days: 30 }));
+    expect(parsed.due_soon.map((t: any) => t.id)).toEqual(['t1']);
+  });
+});
+
 describe('search', () => {
   it('searches across tasks, notes, and decisions', async () => {
     const db = getTestDb();
@@ -1,6 +1,11 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
 import { getDb, resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { blockedBySql, getBlockingTasks } from '../db/dependencies.js';
+import { statusCategorySql } from '../db/workflow.js';
+import { getDeadlines } from '../db/deadlines.js';
+import { listMilestones } from '../db/milestones.js';
+import { decisionsDueForReview } from '../db/decisions.js';
 import { maybeAutoSession } from './auto-session.js';
 
 export function registerQueryTools(server: McpServer): void {
@@ -41,7 +46,7 @@ export function registerQueryTools(server: McpServer): void {
     {
       title: 'Get Project Summary',
       description:
-        'High-level summary of a project: total tasks by status, recent activity, open blockers, and upcoming priorities.',
+        'High-level summary of a project: total tasks by status, recent activity, open blockers, upcoming priorities, progress of open milestones, and decisions due for review.',
       inputSchema: {
         project: z.string().optional().describe('Project name or ID'),
       },
@@ -55,17 +60,17 @@ export function registerQueryTools(server: McpServer): void {
       const sessionPreamble = maybeAutoSession(resolved.id);
       const db = getDb();
       const tasksByStatus = db
-        .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? GROUP BY status')
+        .prepare('SELECT status, COUNT(*) as count FROM tasks WHERE project_id = ? AND deleted_at IS NULL GROUP BY status')
         .all(resolved.id);
 
       const blockers = db
-        .prepare("SELECT id, title, blocked_by FROM tasks WHERE project_id = ? AND status = 'blocked'")
+        .prepare(`SELECT t.id, t.title, ${blockedBySql()} AS blocked_by FROM tasks t WHERE t.project_id = ? AND t.deleted_at IS NULL AND ${statusCategorySql('t')} = 'blocked'`)
         .all(resolved.id);
 
       const upcomingPriorities = db
         .prepare(
           `SELECT id, title, priority, status FROM tasks
-           WHERE project_id = ? AND status IN ('todo', 'in_progress')
+           WHERE project_id = ? AND deleted_at IS NULL AND ${statusCategorySql('tasks')} IN ('not_started', 'active')
            ORDER BY CASE priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END
            LIMIT 10`
         )
@@ -73,22 +78,22 @@ export function registerQueryTools(server: McpServer): void {
 
       const recentActivity = db
         .prepare(
-          `SELECT 'task' as type, title, updated_at FROM tasks WHERE project_id = ? AND updated_at > datetime('now', '-7 days')
+          `SELECT 'task' as type, title, updated_at FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND updated_at > datetime('now', '-7 days')
            UNION ALL
-           SELECT 'decision' as type, title, created_at as updated_at FROM decisions WHERE project_id = ? AND created_at > datetime('now', '-7 days')
+           SELECT 'decision' as type, title, created_at as updated_at FROM decisions WHERE project_id = ? AND deleted_at IS NULL AND created_at > datetime('now', '-7 days')
            UNION ALL
-           SELECT 'note' as type, substr(content, 1, 50) as title, created_at as updated_at FROM notes WHERE project_id = ? AND created_at > datetime('now', '-7 days')
+           SELECT 'note' as type, substr(content, 1, 50) as title, created_at as updated_at FROM notes WHERE project_id = ? AND deleted_at IS NULL AND created_at > datetime('now', '-7 days')
            ORDER BY updated_at DESC
            LIMIT 20`
         )
         .all(resolved.id, resolved.id, resolved.id);
 
       const totalNotes = db
-        .prepare('SELECT COUNT(*) as count FROM notes WHERE project_id = ?')
+        .prepare('SELECT COUNT(*) as count FROM notes WHERE project_id = ? AND deleted_at IS NULL')
         .get(resolved.id) as { count: number };
 
       const totalDecisions = db
-        .prepare('SELECT COUNT(*) as count FROM decisions WHERE project_id = ?')
+        .prepare('SELECT COUNT(*) as count FROM decisions WHERE project_id = ? AND deleted_at IS NULL')
         .get(resolved.id) as { count: number };
 
       const totalSessions = db
@@ -101,6 +106,8 @@ export function registerQueryTools(server: McpServer): void {
           tasks_by_status: tasksByStatus,
           blockers,
           upcoming_priorities: upcomingPriorities,
+          milestones: listMilestones(resolved.id),
+          decisions_to_review: decisionsDueForReview(resolved.id),
           recent_activity: recentActivity,
           totals: { notes: totalNotes.count, decisions: totalDecisions.count, sessions: totalSessions.count },
         },
@@ -134,25 +141,12 @@ export function registerQueryTools(server: McpServer): void {
       const sessionPreamble = maybeAutoSession(resolved.id);
       const db = getDb();
       const blockers = db
-        .prepare("SELECT * FROM tasks WHERE project_id = ? AND status = 'blocked'")
+        .prepare(`SELECT t.*, ${blockedBySql()} AS blocked_by FROM tasks t WHERE t.project_id = ? AND t.deleted_at IS NULL AND ${statusCategorySql('t')} = 'blocked'`)
         .all(resolved.id) as Record<string, any>[];
 
       // Resolve blocking task titles
-      const enriched = blockers.map((task) => {
-        let blockingTasks: any[] = [];
-        if (task.blocked_by) {
-          try {
-            const ids = JSON.parse(task.blocked_by) as string[];
-            blockingTasks = ids.map((id) => {
-              const blocking = db.prepare('SELECT id, title, status FROM tasks WHERE id = ?').get(id);
-              return blocking ?? { id, title: 'Unknown task', status: 'unknown' };
-            });
-          } catch {
-            // ignore parse errors
-          }
-        }
-        return { ...task, blocking_tasks: blockingTasks };
-      });
+      const blockingByTask = getBlockingTasks(blockers.map(t => t.id));
+      const enriched = blockers.map((task) => ({ ...task, blocking_tasks: blockingByTask.get(task.id) ?? [] }));
 
       const resultText = JSON.stringify({ project: resolved.name, blockers: enriched }, null, 2);
       return {
@@ -161,6 +155,34 @@ export function registerQueryTools(server: McpServer): void {
     },
   );
 
+  server.registerTool(
+    'get_deadlines',
+    {
+      title: 'Get Deadlines',
+      description:
+        'List open tasks that are overdue or due in the next few days, soonest first. Covers every active project unless one is given — use it when the user asks what is due or what is late.',
+      inputSchema: {
+        project: z.string().optional().describe('Limit to one project (name or ID)'),
+        days: z.number().int().min(0).max(365).optional().describe('How many days ahead to look (default: 7)'),
+      },
+    },
+    async ({ project, days }) => {
+      let projectId: string | undefined;
+      if (project !== undefined) {
+        const resolved = resolveProjectOrDefault(project);
+        if (!resolved) {
+          return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+        }
+        projectId = resolved.id;
+      }
+
+      const deadlines = getDeadlines({ projectId, days: days ?? 7 });
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ days: days ?? 7, ...deadlines }, null, 2) }],
+      };
+    },
+  );
+
   server.registerTool(
     'search',
     {
@@ -182,15 +204,15 @@ export function registerQueryTools(server: McpServer): void {
       const pattern = `%${query}%`;
 
       const tasks = db
-        .prepare("SELECT id, title, description, status, priority, 'task' as type FROM tasks WHERE project_id = ? AND (title LIKE ? OR description LIKE ?)")
+        .prepare("SELECT id, title, description, status, priority, 'task' as type FROM tasks WHERE project_id = ? AND deleted_at IS NULL AND (title LIKE ? OR description LIKE ?)")
         .all(resolved.id, pattern, pattern);
 
       const notes = db
-        .prepare("SELECT id, content, category, 'note' as type FROM notes WHERE project_id = ? AND content LIKE ?")
+        .prepare("SELECT id, content, category, 'note' as type FROM notes WHERE project_id = ? AND deleted_at IS NULL AND content LIKE ?")
         .all(resolved.id, pattern);
 
       const decisions = db
-        .prepare("SELECT id, title, decision, reasoning, 'decision' as type FROM decisions WHERE project_id = ? AND (title LIKE ? OR decision LIKE ? OR reasoning LIKE ?)")
+        .prepare("SELECT id, title, decision, reasoning, 'decision' as type FROM decisions WHERE project_id = ? AND deleted_at IS NULL AND (title LIKE ? OR decision LIKE ? OR reasoning LIKE ?)")
         .all(resolved.id, pattern, pattern, pattern);
 
       const resultText = JSON.stringify(
@@ -11,6 +11,8 @@ vi.mock('../db/connection.js', () => ({
 }));
 
 import { registerSessionTools } from './sessions.js';
+import { SESSION_CONTEXT_BUDGET } from './auto-session.js';
+import { trashItem } from '../db/trash.js';
 
 let callTool: ReturnType<typeof createToolCaller>;
 
@@ -42,6 +44,93 @@ describe('start_session', () => {
     expect(parsed.context[0].key).toBe('auth');
   });
 
+  it('leaves superseded decisions out unless asked', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Use MySQL' });
+    seedDecision(db, 'p1', { id: 'd2', title: 'Use Postgres' });
+    db.prepare("UPDATE decisions SET supersedes = 'd1' WHERE id = 'd2'").run();
+    db.prepare("UPDATE decisions SET status = 'superseded' WHERE id = 'd1'").run();
+
+    const parsed = parseToolResult(await callTool('start_session', { project: 'P' }));
+    expect(parsed.recent_decisions.map((d: any) => d.title)).toEqual(['Use Postgres']);
+
+    const all = parseToolResult(await callTool('start_session', { project: 'P', include_superseded: true }));
+    expect(all.recent_decisions).toHaveLength(2);
+  });
+
+  it('puts pinned notes first', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedNote(db, 'p1', { id: 'n1', content: 'Never run migrations on prod without a backup' });
+    seedNote(db, 'p1', { id: 'n2', content: 'Unpinned idea' });
+    seedNote(db, 'p1', { id: 'n3', content: 'Pinned, then deleted' });
+    db.prepare("UPDATE notes SET pinned = 1 WHERE id IN ('n1', 'n3')").run();
+    trashItem('note', 'n3');
+
+    const parsed = parseToolResult(await callTool('start_session', { project: 'P' }));
+    expect(Object.keys(parsed)[0]).toBe('pinned_notes');
+    expect(parsed.pinned_notes.map((n: any) => n.content)).toEqual(['Never run migrations on prod without a backup']);
+    expect(parsed.omitted).toBeUndefined();
+  });
+
+  it('keeps pinned notes and skips context that does not fit the size budget', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedNote(db, 'p1', { id: 'n1', content: 'Pinned rule' });
+    db.prepare("UPDATE notes SET pinned = 1 WHERE id = 'n1'").run();
+    seedContext(db, 'p1', 'a_small', 'fits', { id: 'c1' });
+    seedContext(db, 'p1', 'b_huge', 'x'.repeat(SESSION_CONTEXT_BUDGET), { id: 'c2' });
+    seedContext(db, 'p1', 'c_small', 'fits too', { id: 'c3' });
+
+    const parsed = parseToolResult(await callTool('start_session', { project: 'P' }));
+    expect(parsed.pinned_notes).toHaveLength(1);
+    expect(parsed.context.map((c: any) => c.key)).toEqual(['a_small', 'c_small']);
+    expect(parsed.omitted).toMatchObject({ pinned_notes_truncated: 0, context: 1 });
+  });
+
+  it('cuts an oversized pinned note short instead of dropping it', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedNote(db, 'p1', { id: 'n1', content: 'y'.repeat(SESSION_CONTEXT_BUDGET * 2) });
+    seedNote(db, 'p1', { id: 'n2', content: 'Short rule' });
+    db.prepare("UPDATE notes SET pinned = 1, created_at = '2024-01-01' WHERE id = 'n1'").run();
+    db.prepare("UPDATE notes SET pinned = 1 WHERE id = 'n2'").run();
+    seedContext(db, 'p1', 'a_small', 'fits', { id: 'c1' });
+
+    const parsed = parseToolResult(await callTool('start_session', { project: 'P' }));
+    expect(parsed.pinned_notes.map((n: any) => [n.id, n.truncated])).toEqual([['n2', undefined], ['n1', true]]);
+    expect(parsed.pinned_notes[1].content.length).toBeLessThan(SESSION_CONTEXT_BUDGET);
+    expect(parsed.context).toEqual([]);
+    expect(parsed.omitted).toMatchObject({ pinned_notes_truncated: 1, context: 1 });
+  });
+
+  it('surfaces decisions due for review', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'SQLite until 10k users' });
+    seedDecision(db, 'p1', { id: 'd2', title: 'No caching yet' });
+    db.prepare("UPDATE decisions SET revisit_at = date('now', '-1 day') WHERE id = 'd1'").run();
+    db.prepare("UPDATE decisions SET revisit_when = 'p95 over 200ms' WHERE id = 'd2'").run();
+
+    const parsed = parseToolResult(await callTool('start_session', { project: 'P' }));
+    expect(parsed.decisions_to_review.due.map((d: any) => d.id)).toEqual(['d1']);
+    expect(parsed.decisions_to_review.on_condition.map((d: any) => d.id)).toEqual(['d2']);
+  });
+
+  it('lists overdue and soon-due tasks', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    const day = (n: number) => new Date(Date.now() + n * 86_400_000).toISOString().slice(0, 10);
+    seedTask(db, 'p1', { id: 't1', due_at: day(-3) });
+    seedTask(db, 'p1', { id: 't2', due_at: day(1) });
+    seedTask(db, 'p1', { id: 't3', due_at: day(10) });
+
+    const parsed = parseToolResult(await callTool('start_session', { project: 'P' }));
+    expect(parsed.overdue.map((t: any) => t.id)).toEqual(['t1']);
+    expect(parsed.due_soon.map((t: any) => t.id)).toEqual(['t2']);
+  });
+
   it('includes last session summary and next_steps', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
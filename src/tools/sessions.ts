@@ -2,6 +2,8 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
 import { getDb, generateId, resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
 import { buildSessionText, markSessionStarted } from './auto-session.js';
+import { audited } from '../db/audit.js';
+import { currentActor } from '../utils/actor.js';
 
 export function registerSessionTools(server: McpServer): void {
   server.registerTool(
@@ -12,9 +14,10 @@ export function registerSessionTools(server: McpServer): void {
         'Begin a work session for a project. Returns the full project overview including last session\'s next_steps, active tasks, blockers, and recent decisions. Call this at the start of every conversation. For multi-project conversations, call once per project — after that, pass `project` explicitly on every tool call. IMPORTANT: Always show the kanban_url to the user as a clickable link so they can open the Kanban board.',
       inputSchema: {
         project: z.string().optional().describe('Project name or ID'),
+        include_superseded: z.boolean().optional().describe('Also list decisions that have been superseded (default: false)'),
       },
     },
-    async ({ project }) => {
+    async ({ project, include_superseded }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
@@ -22,7 +25,7 @@ export function registerSessionTools(server: McpServer): void {
 
       markSessionStarted(resolved.id);
       return {
-        content: [{ type: 'text' as const, text: buildSessionText(resolved.id) }],
+        content: [{ type: 'text' as const, text: buildSessionText(resolved.id, { includeSuperseded: include_superseded }) }],
       };
     },
   );
@@ -49,8 +52,9 @@ export function registerSessionTools(server: McpServer): void {
 
       const db = getDb();
       const id = generateId();
-      db.prepare(
-        `INSERT INTO sessions (id, project_id, summary, tasks_worked_on, decisions_made, next_steps) VALUES (?, ?, ?, ?, ?, ?)`
+      const actor = currentActor();
+      audited('session', id, () => db.prepare(
+        `INSERT INTO sessions (id, project_id, summary, tasks_worked_on, decisions_made, next_steps, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
       ).run(
         id,
         resolved.id,
@@ -58,7 +62,9 @@ export function registerSessionTools(server: McpServer): void {
         tasks_worked_on ? JSON.stringify(tasks_worked_on) : null,
         decisions_made ? JSON.stringify(decisions_made) : null,
         next_steps ?? null,
-      );
+        actor,
+        actor,
+      ));
 
       return {
         content: [{
@@ -0,0 +1,157 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask, seedNote, seedDecision,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerTagTools } from './tags.js';
+import { getBurndown } from '../db/burndown.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerTagTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+function tagsOf(joinTable: string, column: string, id: string): string[] {
+  const rows = getTestDb().prepare(
+    `SELECT g.name FROM ${joinTable} j JOIN tags g ON g.id = j.tag_id WHERE j.${column} = ? ORDER BY j.rowid`
+  ).all(id) as { name: string }[];
+  return rows.map(r => r.name);
+}
+
+describe('list_tags', () => {
+  it('counts usage per entity type, most used first', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['backend', 'auth'] });
+    seedTask(db, 'p1', { id: 't2', tags: ['backend'] });
+    seedNote(db, 'p1', { id: 'n1', tags: ['backend'] });
+    seedDecision(db, 'p1', { id: 'd1', tags: ['auth'] });
+
+    const parsed = parseToolResult(await callTool('list_tags', { project: 'P' }));
+    expect(parsed.tags).toEqual([
+      { name: 'backend', tasks: 2, notes: 1, decisions: 0, total: 3 },
+      { name: 'auth', tasks: 1, notes: 0, decisions: 1, total: 2 },
+    ]);
+  });
+
+  it('only lists tags of the given project', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedProject(db, { id: 'p2', name: 'Q' });
+    seedTask(db, 'p1', { id: 't1', tags: ['mine'] });
+    seedTask(db, 'p2', { id: 't2', tags: ['theirs'] });
+
+    const parsed = parseToolResult(await callTool('list_tags', { project: 'P' }));
+    expect(parsed.tags.map((t: any) => t.name)).toEqual(['mine']);
+  });
+});
+
+describe('rename_tag', () => {
+  it('renames a tag on every tagged item', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['bakend', 'api'] });
+    seedNote(db, 'p1', { id: 'n1', tags: ['bakend'] });
+
+    const parsed = parseToolResult(await callTool('rename_tag', { project: 'P', from: 'bakend', to: 'Backend' }));
+    expect(parsed.renamed).toBe(2);
+    expect(tagsOf('task_tags', 'task_id', 't1')).toEqual(['backend', 'api']);
+    expect(tagsOf('note_tags', 'note_id', 'n1')).toEqual(['backend']);
+  });
+
+  it('records the rename in task history so tag burndowns follow it', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['bakend', 'api'] });
+
+    await callTool('rename_tag', { project: 'P', from: 'bakend', to: 'backend' });
+    expect(db.prepare("SELECT old_value, new_value FROM task_history WHERE task_id = 't1' AND event = 'tags_changed'").all())
+      .toEqual([{ old_value: '["api","bakend"]', new_value: '["api","backend"]' }]);
+
+    const targetDate = new Date(Date.now() + 7 * 86_400_000).toISOString().slice(0, 10);
+    const scopeNow = (tag: string) => {
+      const burndown = getBurndown('p1', { tag, target_date: targetDate });
+      if ('error' in burndown) throw new Error(burndown.error);
+      return burndown.series[burndown.series.length - 1].scope;
+    };
+    expect(scopeNow('backend')).toBe(1);
+    expect(scopeNow('bakend')).toBe(0);
+  });
+
+  it('refuses to rename onto an existing tag', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['bakend'] });
+    seedTask(db, 'p1', { id: 't2', tags: ['backend'] });
+
+    const result = await callTool('rename_tag', { project: 'P', from: 'bakend', to: 'backend' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('merge_tags');
+  });
+
+  it('returns error for an unknown tag', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+
+    const result = await callTool('rename_tag', { project: 'P', from: 'nope', to: 'other' });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe('merge_tags', () => {
+  it('folds source tags into the target without duplicating it', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['bakend', 'backend'] });
+    seedTask(db, 'p1', { id: 't2', tags: ['back-end'] });
+    seedDecision(db, 'p1', { id: 'd1', tags: ['bakend'] });
+
+    const parsed = parseToolResult(await callTool('merge_tags', { project: 'P', tags: ['bakend', 'back-end'], into: 'backend' }));
+    expect(parsed.merged).toEqual(['bakend', 'back-end']);
+    expect(parsed.items).toBe(3);
+    expect(tagsOf('task_tags', 'task_id', 't1')).toEqual(['backend']);
+    expect(tagsOf('task_tags', 'task_id', 't2')).toEqual(['backend']);
+    expect(tagsOf('decision_tags', 'decision_id', 'd1')).toEqual(['backend']);
+    expect(db.prepare('SELECT name FROM tags ORDER BY name').all()).toEqual([{ name: 'backend' }]);
+    expect(db.prepare("SELECT task_id, old_value, new_value FROM task_history WHERE event = 'tags_changed' ORDER BY task_id").all()).toEqual([
+      { task_id: 't1', old_value: '["backend","bakend"]', new_value: '["backend"]' },
+      { task_id: 't2', old_value: '["back-end"]', new_value: '["backend"]' },
+    ]);
+  });
+
+  it('creates the target tag when it does not exist', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['ui'] });
+
+    const parsed = parseToolResult(await callTool('merge_tags', { project: 'P', tags: ['ui'], into: 'frontend' }));
+    expect(parsed.items).toBe(1);
+    expect(tagsOf('task_tags', 'task_id', 't1')).toEqual(['frontend']);
+  });
+
+  it('returns error when a source tag does not exist', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['ui'] });
+
+    const result = await callTool('merge_tags', { project: 'P', tags: ['ui', 'ghost'], into: 'frontend' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('ghost');
+    expect(tagsOf('task_tags', 'task_id', 't1')).toEqual(['ui']);
+  });
+});
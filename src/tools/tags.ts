@@ -0,0 +1,91 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { listTags, renameTag, mergeTags } from '../db/tags.js';
+
+export function registerTagTools(server: McpServer): void {
+  server.registerTool(
+    'list_tags',
+    {
+      title: 'List Tags',
+      description:
+        'List the tags used in a project with how many tasks, notes and decisions carry each one. Check this before tagging so you reuse existing tags instead of inventing near-duplicates.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+      },
+    },
+    async ({ project }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const tags = listTags(resolved.id);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ project: resolved.name, tags }) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'rename_tag',
+    {
+      title: 'Rename Tag',
+      description:
+        'Rename a tag everywhere in a project (tasks, notes and decisions). Fails if the new name is already in use — use merge_tags for that.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        from: z.string().describe('Current tag name'),
+        to: z.string().describe('New tag name'),
+      },
+    },
+    async ({ project, from, to }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = renameTag(resolved.id, from, to);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, message: `Renamed tag "${from}" to "${to}" on ${result.renamed} item(s)` }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'merge_tags',
+    {
+      title: 'Merge Tags',
+      description:
+        'Merge one or more tags into a single tag across a project, e.g. to fold typos like "bakend" into "backend". The target tag is created if it does not exist; the source tags are removed.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        tags: z.array(z.string()).min(1).describe('Tags to merge away'),
+        into: z.string().describe('Tag to merge them into'),
+      },
+    },
+    async ({ project, tags, into }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = mergeTags(resolved.id, tags, into);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, message: `Merged ${result.merged.length} tag(s) into "${into}" (${result.items} item(s) tagged)` }),
+        }],
+      };
+    },
+  );
+}
@@ -11,6 +11,7 @@ vi.mock('../db/connection.js', () => ({
 }));
 
 import { registerTaskTools } from './tasks.js';
+import { setMcpClient, withActor } from '../utils/actor.js';
 
 let callTool: ReturnType<typeof createToolCaller>;
 
@@ -22,9 +23,15 @@ beforeEach(() => {
 });
 
 afterEach(() => {
+  setMcpClient(undefined);
+  vi.unstubAllEnvs();
   closeTestDb();
 });
 
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+}
+
 describe('create_task', () => {
   it('creates task in specified project', async () => {
     const db = getTestDb();
@@ -46,14 +53,19 @@ describe('create_task', () => {
     expect(parsed.message).toContain('Active');
   });
 
-  it('stores tags as JSON array', async () => {
+  it('stores tags in the tags table, normalized and in order', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
 
-    const result = await callTool('create_task', { project: 'P', title: 'T', tags: ['backend', 'auth'] });
+    const result = await callTool('create_task', { project: 'P', title: 'T', tags: ['backend', ' Auth ', 'auth'] });
     const parsed = parseToolResult(result);
-    const row = db.prepare('SELECT tags FROM tasks WHERE id = ?').get(parsed.task_id) as any;
-    expect(JSON.parse(row.tags)).toEqual(['backend', 'auth']);
+    const rows = db.prepare(
+      'SELECT g.name FROM task_tags j JOIN tags g ON g.id = j.tag_id WHERE j.task_id = ? ORDER BY j.rowid'
+    ).all(parsed.task_id) as { name: string }[];
+    expect(rows.map(r => r.name)).toEqual(['backend', 'auth']);
+
+    const task = parseToolResult(await callTool('get_task', { task_id: parsed.task_id })).task;
+    expect(JSON.parse(task.tags)).toEqual(['backend', 'auth']);
   });
 
   it('defaults priority to medium', async () => {
@@ -86,9 +98,56 @@ describe('create_task', () => {
     const row = db.prepare('SELECT parent_task_id FROM tasks WHERE id = ?').get(parsed.task_id) as any;
     expect(row.parent_task_id).toBe('parent1');
   });
+
+  it('stores start and due dates', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+
+    const parsed = parseToolResult(await callTool('create_task', { project: 'P', title: 'T', start_at: '2025-03-01', due_at: '2025-03-14' }));
+    const row = db.prepare('SELECT start_at, due_at FROM tasks WHERE id = ?').get(parsed.task_id);
+    expect(row).toEqual({ start_at: '2025-03-01', due_at: '2025-03-14' });
+  });
+
+  it('stores an estimate that update_task can clear', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+
+    const parsed = parseToolResult(await callTool('create_task', { project: 'P', title: 'T', estimate: 3 }));
+    expect((db.prepare('SELECT estimate FROM tasks WHERE id = ?').get(parsed.task_id) as any).estimate).toBe(3);
+
+    await callTool('update_task', { task_id: parsed.task_id, estimate: null });
+    expect((db.prepare('SELECT estimate FROM tasks WHERE id = ?').get(parsed.task_id) as any).estimate).toBeNull();
+    const negative = await callTool('update_task', { task_id: parsed.task_id, estimate: -1 });
+    expect(negative.isError).toBe(true);
+  });
+
+  it('rejects malformed dates and a start after the due date', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+
+    const malformed = await callTool('create_task', { project: 'P', title: 'T', due_at: '14/03/2025' });
+    expect(malformed.isError).toBe(true);
+    const inverted = await callTool('create_task', { project: 'P', title: 'T', start_at: '2025-03-15', due_at: '2025-03-14' });
+    expect(inverted.isError).toBe(true);
+    expect(inverted.content[0].text).toContain('after due_at');
+  });
 });
 
 describe('update_task', () => {
+  it('sets and clears the due date, checking it against the stored start date', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', start_at: '2025-03-10' });
+
+    const early = await callTool('update_task', { task_id: 't1', due_at: '2025-03-01' });
+    expect(early.isError).toBe(true);
+
+    await callTool('update_task', { task_id: 't1', due_at: '2025-03-20' });
+    expect((db.prepare("SELECT due_at FROM tasks WHERE id = 't1'").get() as any).due_at).toBe('2025-03-20');
+    await callTool('update_task', { task_id: 't1', due_at: null });
+    expect((db.prepare("SELECT due_at FROM tasks WHERE id = 't1'").get() as any).due_at).toBeNull();
+  });
+
   it('updates task title', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
@@ -129,29 +188,111 @@ describe('update_task', () => {
     seedTask(db, 'p1', { id: 't2' });
 
     await callTool('update_task', { task_id: 't1', blocked_by: ['t2'] });
-    const row = db.prepare('SELECT status, blocked_by FROM tasks WHERE id = ?').get('t1') as any;
+    const row = db.prepare('SELECT status FROM tasks WHERE id = ?').get('t1') as any;
     expect(row.status).toBe('blocked');
-    expect(JSON.parse(row.blocked_by)).toEqual(['t2']);
+    const deps = db.prepare('SELECT blocked_by_id FROM task_dependencies WHERE task_id = ?').all('t1') as any[];
+    expect(deps.map(d => d.blocked_by_id)).toEqual(['t2']);
+  });
+
+  it('does not block on blockers that are already done', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', status: 'done' });
+
+    await callTool('update_task', { task_id: 't1', blocked_by: ['t2'] });
+    await callTool('update_task', { task_id: 't1', addBlockedBy: ['t2'] });
+    const row = db.prepare('SELECT status FROM tasks WHERE id = ?').get('t1') as any;
+    expect(row.status).toBe('todo');
+    expect(db.prepare("SELECT COUNT(*) AS n FROM task_history WHERE task_id = 't1' AND event = 'status_changed'").get()).toEqual({ n: 0 });
+  });
+
+  it('does not reopen a closed task when blockers are added', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't2' });
+    seedTask(db, 'p1', { id: 't1', status: 'done' });
+    seedTask(db, 'p1', { id: 't3', status: 'cancelled' });
+
+    await callTool('update_task', { task_id: 't1', blocked_by: ['t2'] });
+    await callTool('update_task', { task_id: 't3', addBlockedBy: ['t2'] });
+    const rows = db.prepare("SELECT id, status FROM tasks WHERE id IN ('t1', 't3') ORDER BY id").all();
+    expect(rows).toEqual([{ id: 't1', status: 'done' }, { id: 't3', status: 'cancelled' }]);
+  });
+
+  it('adds a second blocker to a task that is already blocked', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't2' });
+    seedTask(db, 'p1', { id: 't3' });
+    seedTask(db, 'p1', { id: 't1', status: 'blocked', blocked_by: ['t2'] });
+
+    const result = await callTool('update_task', { task_id: 't1', addBlockedBy: ['t3'] });
+    expect(result.isError).toBeUndefined();
+    const deps = db.prepare('SELECT blocked_by_id FROM task_dependencies WHERE task_id = ? ORDER BY blocked_by_id').all('t1') as any[];
+    expect(deps.map(d => d.blocked_by_id)).toEqual(['t2', 't3']);
+    expect(db.prepare("SELECT status FROM tasks WHERE id = 't1'").get()).toEqual({ status: 'blocked' });
   });
 
   it('setting blocked_by with explicit status uses explicit status', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
     seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2' });
 
-    await callTool('update_task', { task_id: 't1', blocked_by: ['x'], status: 'in_progress' });
+    await callTool('update_task', { task_id: 't1', blocked_by: ['t2'], status: 'in_progress' });
     const row = db.prepare('SELECT status FROM tasks WHERE id = ?').get('t1') as any;
     expect(row.status).toBe('in_progress');
   });
 
-  it('replaces tags entirely', async () => {
+  it('resolves short IDs in blocked_by', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    db.prepare("UPDATE projects SET slug = 'prj' WHERE id = 'p1'").run();
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2' });
+    db.prepare("UPDATE tasks SET seq = 7 WHERE id = 't2'").run();
+
+    await callTool('update_task', { task_id: 't1', addBlockedBy: ['prj-7'] });
+    const deps = db.prepare('SELECT blocked_by_id FROM task_dependencies WHERE task_id = ?').all('t1') as any[];
+    expect(deps.map(d => d.blocked_by_id)).toEqual(['t2']);
+  });
+
+  it('rejects unknown blocker IDs', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
-    seedTask(db, 'p1', { id: 't1', tags: '["old"]' });
+    seedTask(db, 'p1', { id: 't1' });
+
+    const result = await callTool('update_task', { task_id: 't1', blocked_by: ['nope'] });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('nope');
+    const row = db.prepare('SELECT status FROM tasks WHERE id = ?').get('t1') as any;
+    expect(row.status).toBe('todo');
+  });
+
+  it('rejects blockers that would create a cycle', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', blocked_by: ['t1'] });
+    seedTask(db, 'p1', { id: 't3', blocked_by: ['t2'] });
+
+    const result = await callTool('update_task', { task_id: 't1', addBlockedBy: ['t3'] });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('cycle');
+  });
 
-    await callTool('update_task', { task_id: 't1', tags: ['new', 'tags'] });
-    const row = db.prepare('SELECT tags FROM tasks WHERE id = ?').get('t1') as any;
-    expect(JSON.parse(row.tags)).toEqual(['new', 'tags']);
+  it('replaces tags entirely', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', tags: ['old'] });
+
+    const result = await callTool('update_task', { task_id: 't1', tags: ['new', 'tags'] });
+    expect(result.isError).toBeUndefined();
+    const task = parseToolResult(await callTool('get_task', { task_id: 't1' })).task;
+    expect(JSON.parse(task.tags)).toEqual(['new', 'tags']);
+    // "old" is no longer used anywhere, so it is dropped
+    expect(db.prepare("SELECT COUNT(*) AS n FROM tags WHERE name = 'old'").get()).toEqual({ n: 0 });
   });
 
   it('returns error for nonexistent task_id', async () => {
@@ -181,6 +322,21 @@ describe('update_task', () => {
     expect(history[0].new_value).toBe('in_progress');
   });
 
+  it('attributes writes and history to the MCP client, or to the scoped actor', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    setMcpClient({ name: 'claude-code' });
+    vi.stubEnv('MINDPM_USER', 'agent-a');
+
+    const { task_id } = parseToolResult(await callTool('create_task', { project: 'P', title: 'T' }));
+    await withActor('kanban-ui', () => callTool('update_task', { task_id, status: 'in_progress' }));
+
+    const task = db.prepare('SELECT created_by, updated_by FROM tasks WHERE id = ?').get(task_id);
+    expect(task).toEqual({ created_by: 'agent-a@claude-code', updated_by: 'kanban-ui' });
+    const history = db.prepare('SELECT event, actor FROM task_history WHERE task_id = ?').all(task_id);
+    expect(history).toEqual([{ event: 'status_changed', actor: 'kanban-ui' }]);
+  });
+
   it('does not log to task_history when status unchanged', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
@@ -244,13 +400,29 @@ describe('list_tasks', () => {
   it('filters by tag', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
-    seedTask(db, 'p1', { id: 't1', tags: '["backend","auth"]' });
-    seedTask(db, 'p1', { id: 't2', tags: '["frontend"]' });
+    seedTask(db, 'p1', { id: 't1', tags: ['backend', 'auth'] });
+    seedTask(db, 'p1', { id: 't2', tags: ['frontend', 'oauth'] });
 
-    const result = await callTool('list_tasks', { project: 'P', tag: 'auth' });
+    const result = await callTool('list_tasks', { project: 'P', tag: 'Auth' });
     const parsed = parseToolResult(result);
     expect(parsed.tasks).toHaveLength(1);
     expect(parsed.tasks[0].id).toBe('t1');
+    expect(JSON.parse(parsed.tasks[0].tags)).toEqual(['backend', 'auth']);
+  });
+
+  it('filters by due range and overdue', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'late', due_at: daysFromNow(-2) });
+    seedTask(db, 'p1', { id: 'soon', due_at: daysFromNow(2) });
+    seedTask(db, 'p1', { id: 'later', due_at: daysFromNow(30) });
+    seedTask(db, 'p1', { id: 'undated' });
+
+    const week = parseToolResult(await callTool('list_tasks', { project: 'P', due_after: daysFromNow(0), due_before: daysFromNow(7) }));
+    expect(week.tasks.map((t: any) => t.id)).toEqual(['soon']);
+    const overdue = parseToolResult(await callTool('list_tasks', { project: 'P', overdue: true }));
+    expect(overdue.tasks.map((t: any) => t.id)).toEqual(['late']);
+    expect(overdue.tasks[0].due_at).toBe(daysFromNow(-2));
   });
 
   it('orders by priority then created_at', async () => {
@@ -341,6 +513,48 @@ describe('get_next_tasks', () => {
     expect(parsed.next_tasks).toHaveLength(3);
   });
 
+  it('excludes todo tasks whose blockers are still open', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'b1', priority: 'low' });
+    seedTask(db, 'p1', { id: 'b2', status: 'done' });
+    seedTask(db, 'p1', { id: 't1', priority: 'critical', blocked_by: ['b1'] });
+    seedTask(db, 'p1', { id: 't2', priority: 'high', blocked_by: ['b2'] });
+
+    const parsed = parseToolResult(await callTool('get_next_tasks', { project: 'P' }));
+    expect(parsed.next_tasks.map((t: any) => t.id)).toEqual(['t2', 'b1']);
+  });
+
+  it('boosts tasks that unblock downstream work and explains why', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'lone', priority: 'high' });
+    seedTask(db, 'p1', { id: 'root', priority: 'medium' });
+    seedTask(db, 'p1', { id: 'd1', status: 'blocked', blocked_by: ['root'] });
+    seedTask(db, 'p1', { id: 'd2', status: 'blocked', blocked_by: ['d1'] });
+    seedTask(db, 'p1', { id: 'd3', status: 'blocked', blocked_by: ['root'] });
+
+    const parsed = parseToolResult(await callTool('get_next_tasks', { project: 'P' }));
+    expect(parsed.next_tasks[0].id).toBe('root');
+    expect(parsed.next_tasks[0].unblocks).toHaveLength(3);
+    expect(parsed.next_tasks[0].why).toContain('unblocks 3 tasks');
+    expect(parsed.next_tasks[1].id).toBe('lone');
+    expect(parsed.next_tasks[1].why).toContain('high priority');
+  });
+
+  it('age-boosts tasks that have waited a long time', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'fresh', priority: 'medium' });
+    seedTask(db, 'p1', { id: 'stale', priority: 'medium' });
+    db.prepare("UPDATE tasks SET created_at = datetime('now', '-60 days') WHERE id = 'stale'").run();
+
+    const parsed = parseToolResult(await callTool('get_next_tasks', { project: 'P' }));
+    expect(parsed.next_tasks[0].id).toBe('stale');
+    expect(parsed.next_tasks[0].score).toBeGreaterThan(parsed.next_tasks[1].score);
+    expect(parsed.next_tasks[0].why).toContain('waiting 60 days');
+  });
+
   it('defaults limit to 5', async () => {
     const db = getTestDb();
     seedProject(db, { id: 'p1', name: 'P' });
@@ -353,3 +567,160 @@ describe('get_next_tasks', () => {
     expect(parsed.next_tasks).toHaveLength(5);
   });
 });
+
+describe('add_dependency', () => {
+  it('adds blockers and marks an open task as blocked', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', status: 'in_progress' });
+    seedTask(db, 'p1', { id: 't2' });
+
+    const result = await callTool('add_dependency', { task_id: 't1', blocked_by: ['t2'] });
+    const parsed = parseToolResult(result);
+    expect(parsed.status).toBe('blocked');
+    const history = db.prepare("SELECT old_value, new_value FROM task_history WHERE task_id = 't1' AND event = 'status_changed'").all() as any[];
+    expect(history).toEqual([{ old_value: 'in_progress', new_value: 'blocked' }]);
+  });
+
+  it('does not block when every blocker is already done', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', status: 'done' });
+
+    const parsed = parseToolResult(await callTool('add_dependency', { task_id: 't1', blocked_by: ['t2'] }));
+    expect(parsed.status).toBe('todo');
+  });
+
+  it('rejects a task blocking itself', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+
+    const result = await callTool('add_dependency', { task_id: 't1', blocked_by: ['t1'] });
+    expect(result.isError).toBe(true);
+  });
+
+  it('rejects a direct cycle', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', blocked_by: ['t1'] });
+
+    const result = await callTool('add_dependency', { task_id: 't1', blocked_by: ['t2'] });
+    expect(result.isError).toBe(true);
+    const count = db.prepare('SELECT COUNT(*) AS n FROM task_dependencies').get() as any;
+    expect(count.n).toBe(1);
+  });
+});
+
+describe('remove_dependency', () => {
+  it('removes an existing edge', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', blocked_by: ['t1'] });
+
+    const result = await callTool('remove_dependency', { task_id: 't2', blocked_by: 't1' });
+    expect(result.isError).toBeUndefined();
+    const count = db.prepare('SELECT COUNT(*) AS n FROM task_dependencies').get() as any;
+    expect(count.n).toBe(0);
+  });
+
+  it('returns error when the edge does not exist', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2' });
+
+    const result = await callTool('remove_dependency', { task_id: 't2', blocked_by: 't1' });
+    expect(result.isError).toBe(true);
+  });
+
+  it('unblocks the task when its last open blocker is removed', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't2' });
+    seedTask(db, 'p1', { id: 't3' });
+    seedTask(db, 'p1', { id: 't1', status: 'in_progress' });
+    await callTool('update_task', { task_id: 't1', blocked_by: ['t2', 't3'] });
+
+    const first = parseToolResult(await callTool('remove_dependency', { task_id: 't1', blocked_by: 't2' }));
+    expect(first.unblocked).toEqual([]);
+    const last = parseToolResult(await callTool('remove_dependency', { task_id: 't1', blocked_by: 't3' }));
+    expect(last.unblocked).toEqual([expect.objectContaining({ id: 't1', status: 'in_progress' })]);
+    expect(db.prepare("SELECT old_value, new_value FROM task_history WHERE task_id = 't1' AND event = 'unblocked'").get())
+      .toEqual({ old_value: 'blocked', new_value: 'in_progress' });
+  });
+
+  it('unblocks the task when blocked_by is replaced with no open blockers', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't2' });
+    seedTask(db, 'p1', { id: 't3', status: 'done' });
+    seedTask(db, 'p1', { id: 't1', status: 'in_progress' });
+    seedTask(db, 'p1', { id: 't4', status: 'in_progress' });
+    await callTool('update_task', { task_id: 't1', blocked_by: ['t2'] });
+    await callTool('update_task', { task_id: 't4', blocked_by: ['t2'] });
+
+    const cleared = parseToolResult(await callTool('update_task', { task_id: 't1', blocked_by: [] }));
+    expect(cleared.unblocked).toEqual([expect.objectContaining({ id: 't1', status: 'in_progress' })]);
+    const closedOnly = parseToolResult(await callTool('update_task', { task_id: 't4', blocked_by: ['t3'] }));
+    expect(closedOnly.unblocked).toEqual([expect.objectContaining({ id: 't4', status: 'in_progress' })]);
+  });
+});
+
+describe('automatic unblocking', () => {
+  it('restores a dependent to its pre-blocked status when its last blocker is done', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'b1', title: 'Blocker' });
+    seedTask(db, 'p1', { id: 't1', title: 'Waiting', status: 'in_progress' });
+    await callTool('update_task', { task_id: 't1', blocked_by: ['b1'] });
+
+    const parsed = parseToolResult(await callTool('update_task', { task_id: 'b1', status: 'done' }));
+    expect(parsed.unblocked).toHaveLength(1);
+    expect(parsed.unblocked[0]).toMatchObject({ id: 't1', status: 'in_progress' });
+    expect(parsed.message).toContain('Waiting');
+
+    const row = db.prepare("SELECT status FROM tasks WHERE id = 't1'").get() as any;
+    expect(row.status).toBe('in_progress');
+    const event = db.prepare("SELECT old_value, new_value FROM task_history WHERE task_id = 't1' AND event = 'unblocked'").get() as any;
+    expect(event).toEqual({ old_value: 'blocked', new_value: 'in_progress' });
+  });
+
+  it('keeps a dependent blocked while another blocker is open', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'b1' });
+    seedTask(db, 'p1', { id: 'b2' });
+    seedTask(db, 'p1', { id: 't1', status: 'blocked', blocked_by: ['b1', 'b2'] });
+
+    const parsed = parseToolResult(await callTool('update_task', { task_id: 'b1', status: 'done' }));
+    expect(parsed.unblocked).toEqual([]);
+    const row = db.prepare("SELECT status FROM tasks WHERE id = 't1'").get() as any;
+    expect(row.status).toBe('blocked');
+  });
+
+  it('falls back to todo when there is no record of the earlier status', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'b1' });
+    seedTask(db, 'p1', { id: 't1', status: 'blocked', blocked_by: ['b1'] });
+
+    await callTool('update_task', { task_id: 'b1', status: 'cancelled' });
+    const row = db.prepare("SELECT status FROM tasks WHERE id = 't1'").get() as any;
+    expect(row.status).toBe('todo');
+  });
+
+  it('records the automatic block in task_history', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'b1' });
+    seedTask(db, 'p1', { id: 't1' });
+
+    await callTool('update_task', { task_id: 't1', addBlockedBy: ['b1'] });
+    const history = db.prepare("SELECT old_value, new_value FROM task_history WHERE task_id = 't1' AND event = 'status_changed'").all();
+    expect(history).toEqual([{ old_value: 'todo', new_value: 'blocked' }]);
+  });
+});
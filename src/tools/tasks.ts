@@ -1,7 +1,22 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod/v4';
 import { getDb, generateId, resolveProjectOrDefault, resolveProjectError, recordTaskHistory, resolveTaskId } from '../db/queries.js';
+import { blockedBySql, resolveBlockers, setDependencies, addDependencies, addDependenciesAndBlock, autoBlockStatus, removeDependency, unblockDependents, unblockTasks, type UnblockedTask } from '../db/dependencies.js';
+import { rankNextTasks } from '../db/next-tasks.js';
+import { activeClaim } from '../db/claims.js';
+import { countComments, listComments, LATEST_COMMENTS } from '../db/comments.js';
+import { listLinks } from '../db/links.js';
+import { normalizeTag, retagTask, setTags, tagFilterSql, tagsSql } from '../db/tags.js';
+import { checkTaskDates } from '../db/deadlines.js';
+import { checkEstimate } from '../db/estimates.js';
+import { resolveMilestone, resolveOpenMilestone } from '../db/milestones.js';
+import { currentPerson, currentPersonError, mineSql, personHandleSql, resolveAssignee, resolvePerson } from '../db/people.js';
+import { fieldsSql, fieldFilterSql, setFieldValues, validateFieldValues } from '../db/custom-fields.js';
+import { statusCategorySql, categoryListSql, categoryOf, checkStatus, checkStatusChange, initialStatus, isClosedStatus, CLOSED_CATEGORIES } from '../db/workflow.js';
+import { isIsoDate } from '../utils/dates.js';
 import { maybeAutoSession } from './auto-session.js';
+import { audited, auditOperation } from '../db/audit.js';
+import { currentActor } from '../utils/actor.js';
 
 export function registerTaskTools(server: McpServer): void {
   server.registerTool(
@@ -17,30 +32,64 @@ export function registerTaskTools(server: McpServer): void {
         priority: z.enum(['critical', 'high', 'medium', 'low']).optional().describe('Task priority (default: medium)'),
         tags: z.array(z.string()).optional().describe('Tags like "backend", "auth", "bug"'),
         parent_task_id: z.string().optional().describe('Parent task ID for sub-tasks'),
+        fields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional().describe('Custom field values by key (see list_fields)'),
+        start_at: z.string().optional().describe('Date work should start (YYYY-MM-DD)'),
+        due_at: z.string().optional().describe('Due date (YYYY-MM-DD)'),
+        estimate: z.number().positive().optional().describe("Size in the project's estimate unit (points or ideal hours)"),
+        milestone: z.string().optional().describe('Milestone name or ID to plan the task into'),
+        assignee: z.string().optional().describe('Handle, name or ID of the person who owns the task (see list_people)'),
       },
     },
-    async ({ project, title, description, priority, tags, parent_task_id }) => {
+    async ({ project, title, description, priority, tags, parent_task_id, fields, start_at, due_at, estimate, milestone, assignee }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
       }
+      const invalid = checkTaskDates({ start_at, due_at }) ?? checkEstimate(estimate ?? null);
+      if (invalid) {
+        return { content: [{ type: 'text' as const, text: invalid }], isError: true };
+      }
+      const fieldValues = fields ? validateFieldValues(resolved.id, fields) : undefined;
+      if (fieldValues && 'error' in fieldValues) {
+        return { content: [{ type: 'text' as const, text: fieldValues.error }], isError: true };
+      }
+      const milestoneRef = milestone ? resolveOpenMilestone(resolved.id, milestone) : undefined;
+      if (milestoneRef && 'error' in milestoneRef) {
+        return { content: [{ type: 'text' as const, text: milestoneRef.error }], isError: true };
+      }
+      const assigneeRef = assignee ? resolveAssignee(assignee) : undefined;
+      if (assigneeRef && 'error' in assigneeRef) {
+        return { content: [{ type: 'text' as const, text: assigneeRef.error }], isError: true };
+      }
 
       const db = getDb();
       const id = generateId();
       const seqRow = db.prepare('SELECT COALESCE(MAX(seq), 0) + 1 AS next_seq FROM tasks WHERE project_id = ?').get(resolved.id) as { next_seq: number };
       const seq = seqRow.next_seq;
-      db.prepare(
-        `INSERT INTO tasks (id, project_id, seq, title, description, priority, tags, parent_task_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-      ).run(
-        id,
-        resolved.id,
-        seq,
-        title,
-        description ?? null,
-        priority ?? 'medium',
-        tags ? JSON.stringify(tags) : null,
-        parent_task_id ?? null,
-      );
+      const actor = currentActor();
+      audited('task', id, db.transaction(() => {
+        db.prepare(
+          `INSERT INTO tasks (id, project_id, seq, title, description, status, priority, parent_task_id, start_at, due_at, estimate, milestone_id, assignee_id, created_by, updated_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          id,
+          resolved.id,
+          seq,
+          title,
+          description ?? null,
+          initialStatus(resolved.id),
+          priority ?? 'medium',
+          parent_task_id ?? null,
+          start_at ?? null,
+          due_at ?? null,
+          estimate ?? null,
+          milestoneRef?.id ?? null,
+          assigneeRef?.id ?? null,
+          actor,
+          actor,
+        );
+        if (tags) setTags('task', id, resolved.id, tags);
+        if (fieldValues) setFieldValues(id, resolved.id, fieldValues.values);
+      }));
 
       const proj = db.prepare('SELECT slug FROM projects WHERE id = ?').get(resolved.id) as { slug: string } | undefined;
       const short_id = proj?.slug ? `${proj.slug}-${seq}` : null;
@@ -63,19 +112,24 @@ export function registerTaskTools(server: McpServer): void {
     {
       title: 'Update Task',
       description:
-        'Update any field of a task. Proactively use this when a task status changes, priorities shift, or new information comes in.',
+        'Update any field of a task. Proactively use this when a task status changes, priorities shift, or new information comes in. When a task is marked done or cancelled, blocked tasks waiting only on it return to their previous status; they are listed in `unblocked` — tell the user.',
       inputSchema: {
         task_id: z.string().describe('Task ID to update (hex ID or short ID like "zrdt-180")'),
         title: z.string().optional().describe('New title'),
         description: z.string().optional().describe('New description'),
-        status: z.enum(['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled']).optional().describe('New status'),
+        status: z.string().optional().describe("New status, one of the project's workflow statuses (see get_workflow)"),
         priority: z.enum(['critical', 'high', 'medium', 'low']).optional().describe('New priority'),
         tags: z.array(z.string()).optional().describe('New tags (replaces existing)'),
         blocked_by: z.array(z.string()).optional().describe('Task IDs that block this task (replaces existing list)'),
         addBlockedBy: z.array(z.string()).optional().describe('Task IDs that block this task (appended to existing list)'),
+        fields: z.record(z.string(), z.union([z.string(), z.number(), z.null()])).optional().describe('Custom field values by key; null clears a field'),
+        start_at: z.string().nullable().optional().describe('Start date (YYYY-MM-DD); null clears it'),
+        due_at: z.string().nullable().optional().describe('Due date (YYYY-MM-DD); null clears it'),
+        estimate: z.number().positive().nullable().optional().describe("Size in the project's estimate unit; null clears it"),
+        milestone: z.string().nullable().optional().describe('Milestone name or ID; null takes the task off its milestone'),
       },
     },
-    async ({ task_id, title, description, status, priority, tags, blocked_by, addBlockedBy }) => {
+    async ({ task_id, title, description, status, priority, tags, blocked_by, addBlockedBy, fields, start_at, due_at, estimate, milestone }) => {
       const db = getDb();
       const resolvedId = resolveTaskId(task_id);
       if (!resolvedId) {
@@ -85,6 +139,21 @@ export function registerTaskTools(server: McpServer): void {
       if (!existing) {
         return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
       }
+      if (status !== undefined) {
+        const statusError = checkStatusChange(existing.project_id, existing.status, status);
+        if (statusError) {
+          return { content: [{ type: 'text' as const, text: statusError }], isError: true };
+        }
+      }
+      const fieldValues = fields ? validateFieldValues(existing.project_id, fields) : undefined;
+      if (fieldValues && 'error' in fieldValues) {
+        return { content: [{ type: 'text' as const, text: fieldValues.error }], isError: true };
+      }
+      const invalid = checkTaskDates({ start_at, due_at }, existing as { start_at: string | null; due_at: string | null })
+        ?? (estimate !== undefined ? checkEstimate(estimate) : null);
+      if (invalid) {
+        return { content: [{ type: 'text' as const, text: invalid }], isError: true };
+      }
 
       const updates: string[] = [];
       const params: any[] = [];
@@ -94,42 +163,93 @@ export function registerTaskTools(server: McpServer): void {
       if (status !== undefined) {
         updates.push('status = ?');
         params.push(status);
-        if (status === 'done') {
+        if (categoryOf(existing.project_id, status) === 'done') {
           updates.push('completed_at = CURRENT_TIMESTAMP');
         }
       }
       if (priority !== undefined) { updates.push('priority = ?'); params.push(priority); }
-      if (tags !== undefined) { updates.push('tags = ?'); params.push(JSON.stringify(tags)); }
+      if (start_at !== undefined) { updates.push('start_at = ?'); params.push(start_at); }
+      if (due_at !== undefined) { updates.push('due_at = ?'); params.push(due_at); }
+      if (estimate !== undefined) { updates.push('estimate = ?'); params.push(estimate); }
+      let milestoneId: string | null | undefined;
+      if (milestone !== undefined) {
+        const milestoneRef = milestone === null ? { id: null } : resolveOpenMilestone(existing.project_id, milestone);
+        if ('error' in milestoneRef) {
+          return { content: [{ type: 'text' as const, text: milestoneRef.error }], isError: true };
+        }
+        milestoneId = milestoneRef.id;
+        updates.push('milestone_id = ?');
+        params.push(milestoneId);
+      }
+      let replaceBlockers: string[] | undefined;
+      let appendBlockers: string[] | undefined;
       if (blocked_by !== undefined) {
-        updates.push('blocked_by = ?');
-        params.push(JSON.stringify(blocked_by));
-        if (blocked_by.length > 0 && status === undefined) {
-          updates.push("status = 'blocked'");
+        const resolvedBlockers = resolveBlockers(resolvedId, blocked_by);
+        if ('error' in resolvedBlockers) {
+          return { content: [{ type: 'text' as const, text: resolvedBlockers.error }], isError: true };
         }
+        replaceBlockers = resolvedBlockers.ids;
       }
       if (addBlockedBy !== undefined && addBlockedBy.length > 0) {
-        const existingBlockedBy: string[] = existing.blocked_by ? JSON.parse(existing.blocked_by) : [];
-        const merged = [...new Set([...existingBlockedBy, ...addBlockedBy])];
-        updates.push('blocked_by = ?');
-        params.push(JSON.stringify(merged));
-        if (status === undefined && blocked_by === undefined) {
-          updates.push("status = 'blocked'");
+        const resolvedBlockers = resolveBlockers(resolvedId, addBlockedBy);
+        if ('error' in resolvedBlockers) {
+          return { content: [{ type: 'text' as const, text: resolvedBlockers.error }], isError: true };
         }
+        appendBlockers = resolvedBlockers.ids;
       }
+      // An explicit status wins over blocking on the new blockers
+      const blockedStatus = status === undefined
+        ? autoBlockStatus(resolvedId, [...(replaceBlockers ?? []), ...(appendBlockers ?? [])])
+        : null;
+      if (blockedStatus !== null) { updates.push('status = ?'); params.push(blockedStatus); }
 
-      if (updates.length === 0) {
+      if (updates.length === 0 && replaceBlockers === undefined && appendBlockers === undefined && tags === undefined && fieldValues === undefined) {
         return { content: [{ type: 'text' as const, text: 'No updates provided.' }], isError: true };
       }
 
-      params.push(resolvedId);
-      db.prepare(`UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`).run(...params);
+      let unblocked: UnblockedTask[] = [];
+      auditOperation(() => {
+        audited('task', resolvedId, db.transaction(() => {
+          if (replaceBlockers !== undefined) setDependencies(resolvedId, replaceBlockers);
+          if (appendBlockers !== undefined) addDependencies(resolvedId, appendBlockers);
+          if (tags !== undefined) {
+            retagTask(resolvedId, existing.project_id, tags);
+          }
+          if (fieldValues !== undefined) setFieldValues(resolvedId, existing.project_id, fieldValues.values);
+          if ((tags !== undefined || fieldValues !== undefined) && updates.length === 0) {
+            updates.push('updated_at = CURRENT_TIMESTAMP');
+          }
+          if (updates.length > 0) {
+            updates.push('updated_by = ?');
+            params.push(currentActor());
+            db.prepare(`UPDATE tasks SET ${updates.join(', ')} WHERE id = ?`).run(...params, resolvedId);
+          }
+        }));
 
-      if (status !== undefined && status !== existing.status) {
-        recordTaskHistory(resolvedId, 'status_changed', existing.status, status);
-      }
+        const newStatus = status ?? blockedStatus ?? existing.status;
+        if (newStatus !== existing.status) {
+          recordTaskHistory(resolvedId, 'status_changed', existing.status, newStatus);
+          if (isClosedStatus(existing.project_id, newStatus)) {
+            unblocked = unblockDependents(resolvedId);
+          }
+        }
+        // Replacing the blockers may have left none open
+        if (replaceBlockers !== undefined && status === undefined) {
+          unblocked = [...unblockTasks([resolvedId]), ...unblocked];
+        }
+        if (milestoneId !== undefined && milestoneId !== existing.milestone_id) {
+          recordTaskHistory(resolvedId, 'milestone_changed', existing.milestone_id, milestoneId);
+        }
+      });
 
+      const unblockedNote = unblocked.length > 0
+        ? ` Unblocked: ${unblocked.map(t => `"${t.title}" (now ${t.status})`).join(', ')}.`
+        : '';
       return {
-        content: [{ type: 'text' as const, text: JSON.stringify({ task_id: resolvedId, message: `Task "${existing.title}" updated.` }) }],
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ task_id: resolvedId, message: `Task "${existing.title}" updated.${unblockedNote}`, unblocked }),
+        }],
       };
     },
   );
@@ -142,29 +262,40 @@ export function registerTaskTools(server: McpServer): void {
         'List tasks with filters. Defaults to showing non-completed tasks for the most recent active project.',
       inputSchema: {
         project: z.string().optional().describe('Project name or ID'),
-        status: z.enum(['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled']).optional().describe('Filter by status'),
+        status: z.string().optional().describe("Filter by status (one of the project's workflow statuses)"),
         priority: z.enum(['critical', 'high', 'medium', 'low']).optional().describe('Filter by priority'),
         tag: z.string().optional().describe('Filter by tag'),
+        fields: z.record(z.string(), z.union([z.string(), z.number()])).optional().describe('Filter by custom field values, e.g. {"customer": "Acme"}'),
+        due_after: z.string().optional().describe('Only tasks due on or after this date (YYYY-MM-DD)'),
+        due_before: z.string().optional().describe('Only tasks due on or before this date (YYYY-MM-DD)'),
+        overdue: z.boolean().optional().describe('Only tasks whose due date has passed'),
+        milestone: z.string().optional().describe('Only tasks in this milestone (name or ID)'),
+        assignee: z.string().optional().describe('Only tasks assigned to this person (handle, name or ID)'),
+        mine: z.boolean().optional().describe('Only tasks assigned to you or waiting for your review (you = MINDPM_USER, see list_people)'),
         include_done: z.boolean().optional().describe('Include completed tasks (default: false)'),
         limit: z.number().int().min(1).max(200).optional().describe('Max tasks to return (default: 50)'),
         offset: z.number().int().min(0).optional().describe('Number of tasks to skip for pagination (default: 0)'),
       },
     },
-    async ({ project, status, priority, tag, include_done, limit = 50, offset = 0 }) => {
+    async ({ project, status, priority, tag, fields, due_after, due_before, overdue, milestone, assignee, mine, include_done, limit = 50, offset = 0 }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
       }
 
       const db = getDb();
-      const conditions: string[] = ['t.project_id = @projectId'];
+      const conditions: string[] = ['t.project_id = @projectId', 't.deleted_at IS NULL'];
       const params: Record<string, any> = { projectId: resolved.id };
 
       if (status) {
+        const statusError = checkStatus(resolved.id, status);
+        if (statusError) {
+          return { content: [{ type: 'text' as const, text: statusError }], isError: true };
+        }
         conditions.push('t.status = @status');
         params.status = status;
       } else if (!include_done) {
-        conditions.push("t.status NOT IN ('done', 'cancelled')");
+        conditions.push(`${statusCategorySql('t')} NOT IN ${categoryListSql(CLOSED_CATEGORIES)}`);
       }
 
       if (priority) {
@@ -173,14 +304,67 @@ export function registerTaskTools(server: McpServer): void {
       }
 
       if (tag) {
-        conditions.push("t.tags LIKE '%' || @tag || '%'");
-        params.tag = `"${tag}"`;
+        conditions.push(tagFilterSql('task', 't'));
+        params.tag = normalizeTag(tag);
+      }
+
+      if (fields) {
+        const filter = validateFieldValues(resolved.id, fields);
+        if ('error' in filter) {
+          return { content: [{ type: 'text' as const, text: filter.error }], isError: true };
+        }
+        Object.entries(filter.values).forEach(([key, value], i) => {
+          conditions.push(fieldFilterSql('t', `field${i}`));
+          params[`field${i}Key`] = key;
+          params[`field${i}Value`] = value ?? '';
+        });
+      }
+
+      for (const [name, value] of [['due_after', due_after], ['due_before', due_before]]) {
+        if (value !== undefined && !isIsoDate(value)) {
+          return { content: [{ type: 'text' as const, text: `${name} must be a date like 2025-01-31.` }], isError: true };
+        }
+      }
+      if (due_after) {
+        conditions.push('t.due_at >= @dueAfter');
+        params.dueAfter = due_after;
+      }
+      if (due_before) {
+        conditions.push('t.due_at <= @dueBefore');
+        params.dueBefore = due_before;
+      }
+      if (overdue) {
+        conditions.push("t.due_at < date('now')");
+      }
+      if (milestone) {
+        const found = resolveMilestone(resolved.id, milestone);
+        if (!found) {
+          return { content: [{ type: 'text' as const, text: `Milestone "${milestone}" not found.` }], isError: true };
+        }
+        conditions.push('t.milestone_id = @milestoneId');
+        params.milestoneId = found.id;
+      }
+      if (assignee) {
+        const person = resolvePerson(assignee);
+        if (!person) {
+          return { content: [{ type: 'text' as const, text: `Person "${assignee}" not found.` }], isError: true };
+        }
+        conditions.push('t.assignee_id = @assigneeId');
+        params.assigneeId = person.id;
+      }
+      if (mine) {
+        const me = currentPerson(server.server.getClientVersion()?.name);
+        if (!me) {
+          return { content: [{ type: 'text' as const, text: currentPersonError() }], isError: true };
+        }
+        conditions.push(mineSql('t', 'meId'));
+        params.meId = me.id;
       }
 
       const whereClause = conditions.join(' AND ');
       const orderClause = `ORDER BY CASE t.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END, t.created_at DESC`;
       const total = (db.prepare(`SELECT COUNT(*) as n FROM tasks t WHERE ${whereClause}`).get(params) as { n: number }).n;
-      const sql = `SELECT t.id, t.seq, t.title, t.status, t.priority, t.tags, t.parent_task_id, t.blocked_by, t.created_at, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE ${whereClause} ${orderClause} LIMIT ${limit} OFFSET ${offset}`;
+      const sql = `SELECT t.id, t.seq, t.title, t.status, t.priority, ${tagsSql('task', 't')} AS tags, ${fieldsSql('t')} AS fields, t.parent_task_id, ${blockedBySql()} AS blocked_by, t.start_at, t.due_at, t.estimate, t.milestone_id, ${personHandleSql('t.assignee_id')} AS assignee, ${personHandleSql('t.reviewer_id')} AS reviewer, t.created_at, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE ${whereClause} ${orderClause} LIMIT ${limit} OFFSET ${offset}`;
       const rows = db.prepare(sql).all(params);
 
       const tasks = rows.map(row => Object.fromEntries(Object.entries(row as Record<string, unknown>).filter(([, v]) => v != null)));
@@ -197,7 +381,7 @@ export function registerTaskTools(server: McpServer): void {
     'get_task',
     {
       title: 'Get Task',
-      description: 'Get full detail for a specific task including sub-tasks and related notes.',
+      description: 'Get full detail for a specific task including sub-tasks, related notes, links to and from other entities, and the latest comments.',
       inputSchema: {
         task_id: z.string().describe('Task ID (hex ID or short ID like "zrdt-180")'),
       },
@@ -208,16 +392,18 @@ export function registerTaskTools(server: McpServer): void {
       if (!resolvedId) {
         return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
       }
-      const task = db.prepare('SELECT t.*, p.slug || \'-\' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.id = ?').get(resolvedId) as Record<string, any> | undefined;
+      const task = db.prepare(`SELECT t.*, ${tagsSql('task', 't')} AS tags, ${fieldsSql('t')} AS fields, ${blockedBySql()} AS blocked_by, ${personHandleSql('t.assignee_id')} AS assignee, ${personHandleSql('t.reviewer_id')} AS reviewer, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.id = ?`).get(resolvedId) as Record<string, any> | undefined;
       if (!task) {
         return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
       }
 
       const sessionPreamble = maybeAutoSession(task.project_id);
-      const subtasks = db.prepare('SELECT t.*, p.slug || \'-\' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.parent_task_id = ?').all(resolvedId);
-      const notes = db.prepare('SELECT * FROM notes WHERE task_id = ? ORDER BY created_at DESC').all(resolvedId);
+      const subtasks = db.prepare(`SELECT t.*, ${tagsSql('task', 't')} AS tags, ${fieldsSql('t')} AS fields, ${blockedBySql()} AS blocked_by, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id WHERE t.parent_task_id = ? AND t.deleted_at IS NULL`).all(resolvedId);
+      const notes = db.prepare(`SELECT n.*, ${tagsSql('note', 'n')} AS tags FROM notes n WHERE n.task_id = ? AND n.deleted_at IS NULL ORDER BY n.created_at DESC`).all(resolvedId);
 
-      const resultText = JSON.stringify({ task, subtasks, notes }, null, 2);
+      const comments = { total: countComments(resolvedId), latest: listComments(resolvedId, LATEST_COMMENTS) };
+
+      const resultText = JSON.stringify({ task, claim: activeClaim(resolvedId) ?? null, subtasks, notes, links: listLinks(resolvedId), comments }, null, 2);
       return {
         content: [{ type: 'text' as const, text: sessionPreamble ? `${sessionPreamble}\n\n---\n\n${resultText}` : resultText }],
       };
@@ -229,29 +415,32 @@ export function registerTaskTools(server: McpServer): void {
     {
       title: 'Get Next Tasks',
       description:
-        'Smart query: what should be worked on next? Returns highest priority non-blocked tasks for a project.',
+        'Smart query: what should be worked on next? Ranks open tasks with no unfinished blockers by priority, how much downstream work they unblock, and how long they have waited, leaving out tasks another agent has claimed. Each task carries a `why` — use it to justify the suggestion to the user.',
       inputSchema: {
         project: z.string().optional().describe('Project name or ID'),
         limit: z.number().optional().describe('Max number of tasks to return (default: 5)'),
+        mine: z.boolean().optional().describe('Only tasks assigned to you, plus reviews waiting on you'),
+        agent: z.string().optional().describe('Your agent identifier, as passed to claim_task; tasks claimed by other agents are skipped either way'),
       },
     },
-    async ({ project, limit }) => {
+    async ({ project, limit, mine, agent }) => {
       const resolved = resolveProjectOrDefault(project);
       if (!resolved) {
         return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
       }
 
+      let personId: string | undefined;
+      if (mine) {
+        const me = currentPerson(server.server.getClientVersion()?.name);
+        if (!me) {
+          return { content: [{ type: 'text' as const, text: currentPersonError() }], isError: true };
+        }
+        personId = me.id;
+      }
+
       const sessionPreamble = maybeAutoSession(resolved.id);
       const db = getDb();
-      const rows = db
-        .prepare(
-          `SELECT t.*, p.slug || '-' || t.seq AS short_id FROM tasks t JOIN projects p ON t.project_id = p.id
-           WHERE t.project_id = ? AND t.status IN ('todo', 'in_progress')
-           ORDER BY CASE t.priority WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 WHEN 'low' THEN 3 END,
-                    t.created_at ASC
-           LIMIT ?`
-        )
-        .all(resolved.id, limit ?? 5);
+      const rows = rankNextTasks(db, resolved.id, limit ?? 5, { personId, agent });
 
       const resultText = JSON.stringify({ project: resolved.name, next_tasks: rows }, null, 2);
       return {
@@ -262,4 +451,74 @@ export function registerTaskTools(server: McpServer): void {
       };
     },
   );
+
+  server.registerTool(
+    'add_dependency',
+    {
+      title: 'Add Dependency',
+      description:
+        'Mark a task as blocked by one or more other tasks. Rejects unknown task IDs and dependency cycles. An open task becomes "blocked" while any of its blockers is unfinished.',
+      inputSchema: {
+        task_id: z.string().describe('Task that is blocked (hex ID or short ID like "zrdt-180")'),
+        blocked_by: z.array(z.string()).min(1).describe('Task IDs that must be finished first'),
+      },
+    },
+    async ({ task_id, blocked_by }) => {
+      const db = getDb();
+      const resolvedId = resolveTaskId(task_id);
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      const resolvedBlockers = resolveBlockers(resolvedId, blocked_by);
+      if ('error' in resolvedBlockers) {
+        return { content: [{ type: 'text' as const, text: resolvedBlockers.error }], isError: true };
+      }
+
+      const task = db.prepare('SELECT title FROM tasks WHERE id = ?').get(resolvedId) as { title: string };
+      const newStatus = addDependenciesAndBlock(resolvedId, resolvedBlockers.ids);
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            task_id: resolvedId,
+            blocked_by: resolvedBlockers.ids,
+            status: newStatus,
+            message: `Task "${task.title}" now depends on ${resolvedBlockers.ids.length} task${resolvedBlockers.ids.length > 1 ? 's' : ''}.`,
+          }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'remove_dependency',
+    {
+      title: 'Remove Dependency',
+      description: 'Remove a blocker from a task.',
+      inputSchema: {
+        task_id: z.string().describe('Task that is blocked (hex ID or short ID like "zrdt-180")'),
+        blocked_by: z.string().describe('Blocking task ID to remove'),
+      },
+    },
+    async ({ task_id, blocked_by }) => {
+      const resolvedId = resolveTaskId(task_id);
+      if (!resolvedId) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" not found.` }], isError: true };
+      }
+      const blockerId = resolveTaskId(blocked_by);
+      const removed = blockerId ? removeDependency(resolvedId, blockerId) : null;
+      if (!removed) {
+        return { content: [{ type: 'text' as const, text: `Task "${task_id}" is not blocked by "${blocked_by}".` }], isError: true };
+      }
+
+      const unblockedNote = removed.unblocked.length > 0 ? ` Unblocked, now ${removed.unblocked[0].status}.` : '';
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ task_id: resolvedId, message: `Removed blocker "${blocked_by}".${unblockedNote}`, unblocked: removed.unblocked }),
+        }],
+      };
+    },
+  );
 }
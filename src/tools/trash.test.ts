@@ -0,0 +1,214 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask, seedNote, seedDecision,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerTrashTools } from './trash.js';
+import { registerTaskTools } from './tasks.js';
+import { registerQueryTools } from './queries.js';
+import { registerDecisionTools } from './decisions.js';
+import { trashTask, trashItem, purgeTrash } from '../db/trash.js';
+import { computeDeliveryMetrics } from '../db/metrics.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerTrashTools(server);
+  registerTaskTools(server);
+  registerQueryTools(server);
+  registerDecisionTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+describe('trashTask', () => {
+  it('trashes the task, its sub-tasks and their notes together', () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', parent_task_id: 't1' });
+    seedTask(db, 'p1', { id: 't3', parent_task_id: 't2' });
+    seedNote(db, 'p1', { id: 'n1', task_id: 't3' });
+
+    const { trashed } = trashTask('t1');
+    expect(trashed.sort()).toEqual(['t1', 't2', 't3']);
+    const stamps = db.prepare("SELECT DISTINCT deleted_at FROM tasks WHERE id IN ('t1','t2','t3')").all();
+    expect(stamps).toHaveLength(1);
+    expect((db.prepare("SELECT deleted_at FROM notes WHERE id = 'n1'").get() as any).deleted_at).not.toBeNull();
+  });
+
+  it('unblocks tasks that were only waiting on the trashed task', () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', status: 'blocked', blocked_by: ['t1'] });
+
+    const { unblocked } = trashTask('t1');
+    expect(unblocked.map(u => u.id)).toEqual(['t2']);
+    expect((db.prepare("SELECT status FROM tasks WHERE id = 't2'").get() as any).status).toBe('todo');
+  });
+});
+
+describe('trashed rows are hidden', () => {
+  it('from task lookups, listings and search', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', title: 'Gone task' });
+    seedTask(db, 'p1', { id: 't2', title: 'Kept task' });
+    trashTask('t1');
+
+    const list = parseToolResult(await callTool('list_tasks', { project: 'P' }));
+    expect(list.tasks.map((t: any) => t.id)).toEqual(['t2']);
+    expect((await callTool('get_task', { task_id: 't1' })).isError).toBe(true);
+    const search = parseToolResult(await callTool('search', { project: 'P', query: 'task' }));
+    expect(search.results.tasks.map((t: any) => t.id)).toEqual(['t2']);
+  });
+
+  it('from delivery metrics', () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', status: 'done' });
+    seedTask(db, 'p1', { id: 't2', status: 'done' });
+    db.prepare("UPDATE tasks SET completed_at = datetime('now', '-1 day')").run();
+    trashTask('t1');
+
+    const metrics = computeDeliveryMetrics(db, 'p1', 'P', 30);
+    expect(metrics.throughput.tasks_completed).toBe(1);
+  });
+});
+
+describe('list_trash', () => {
+  it('lists trashed tasks, notes and decisions of the project', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', title: 'Old task' });
+    seedNote(db, 'p1', { id: 'n1', content: 'Stale note' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Old decision' });
+    seedDecision(db, 'p1', { id: 'd2', title: 'Live decision' });
+    trashTask('t1');
+    trashItem('note', 'n1');
+    trashItem('decision', 'd1');
+
+    const parsed = parseToolResult(await callTool('list_trash', { project: 'P' }));
+    expect(parsed.retention_days).toBe(30);
+    expect(parsed.items.map((i: any) => `${i.type}:${i.id}`).sort()).toEqual(['decision:d1', 'note:n1', 'task:t1']);
+    expect(parsed.items.find((i: any) => i.type === 'task').title).toBe('Old task');
+  });
+});
+
+describe('restore_item', () => {
+  it('restores a task with the sub-tasks and notes trashed along with it', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', parent_task_id: 't1' });
+    seedNote(db, 'p1', { id: 'n1', task_id: 't2' });
+    trashTask('t1');
+
+    const parsed = parseToolResult(await callTool('restore_item', { type: 'task', id: 't1' }));
+    expect(parsed.restored.sort()).toEqual(['t1', 't2']);
+    const remaining = db.prepare(
+      "SELECT COUNT(*) AS n FROM tasks WHERE deleted_at IS NOT NULL UNION ALL SELECT COUNT(*) FROM notes WHERE deleted_at IS NOT NULL"
+    ).all();
+    expect(remaining).toEqual([{ n: 0 }, { n: 0 }]);
+  });
+
+  it('leaves sub-tasks trashed separately beforehand in the trash', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', parent_task_id: 't1' });
+    trashTask('t2');
+    db.prepare("UPDATE tasks SET deleted_at = datetime('now', '-1 hour') WHERE id = 't2'").run();
+    trashTask('t1');
+
+    const parsed = parseToolResult(await callTool('restore_item', { type: 'task', id: 't1' }));
+    expect(parsed.restored).toEqual(['t1']);
+  });
+
+  it('refuses to restore a sub-task whose parent is still trashed', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1' });
+    seedTask(db, 'p1', { id: 't2', parent_task_id: 't1' });
+    trashTask('t1');
+
+    const result = await callTool('restore_item', { type: 'task', id: 't2' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('restore it first');
+  });
+
+  it('brings back a decision deleted with delete_decision', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Logged by mistake' });
+
+    expect(parseToolResult(await callTool('delete_decision', { decision_id: 'd1' })).message).toBe('Decision moved to trash.');
+    expect((await callTool('delete_decision', { decision_id: 'd1' })).isError).toBe(true);
+    expect(parseToolResult(await callTool('list_decisions', { project: 'P' })).decisions).toEqual([]);
+    const trash = parseToolResult(await callTool('list_trash', { project: 'P' }));
+    expect(trash.items.map((i: any) => `${i.type}:${i.id}`)).toEqual(['decision:d1']);
+
+    const parsed = parseToolResult(await callTool('restore_item', { type: 'decision', id: 'd1' }));
+    expect(parsed.restored).toEqual(['d1']);
+    const { decisions } = parseToolResult(await callTool('list_decisions', { project: 'P' }));
+    expect(decisions.map((d: any) => d.title)).toEqual(['Logged by mistake']);
+  });
+
+  it('returns error for an item that is not in the trash', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedNote(db, 'p1', { id: 'n1' });
+
+    const result = await callTool('restore_item', { type: 'note', id: 'n1' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not in the trash');
+  });
+});
+
+describe('purgeTrash', () => {
+  it('permanently deletes items trashed longer ago than the retention period', () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 'old', tags: ['x'] });
+    seedTask(db, 'p1', { id: 'recent' });
+    seedNote(db, 'p1', { id: 'n1', task_id: 'old' });
+    seedDecision(db, 'p1', { id: 'd1' });
+    db.prepare("UPDATE decisions SET task_id = 'old' WHERE id = 'd1'").run();
+    trashTask('old');
+    trashTask('recent');
+    db.prepare("UPDATE tasks SET deleted_at = datetime('now', '-40 days') WHERE id = 'old'").run();
+    db.prepare("UPDATE notes SET deleted_at = datetime('now', '-40 days') WHERE id = 'n1'").run();
+
+    const purged = purgeTrash(30);
+    expect(purged).toEqual({ tasks: 1, notes: 1, decisions: 0 });
+    expect(db.prepare('SELECT id FROM tasks').all()).toEqual([{ id: 'recent' }]);
+    expect((db.prepare("SELECT task_id FROM decisions WHERE id = 'd1'").get() as any).task_id).toBeNull();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM task_tags').get()).toEqual({ n: 0 });
+  });
+
+  it('purges a decision that a live decision still supersedes', () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedDecision(db, 'p1', { id: 'd1', title: 'Use MySQL' });
+    seedDecision(db, 'p1', { id: 'd2', title: 'Use Postgres' });
+    db.prepare("UPDATE decisions SET supersedes = 'd1' WHERE id = 'd2'").run();
+    trashItem('decision', 'd1');
+    db.prepare("UPDATE decisions SET deleted_at = datetime('now', '-40 days') WHERE id = 'd1'").run();
+
+    expect(purgeTrash(30)).toEqual({ tasks: 0, notes: 0, decisions: 1 });
+    expect(db.prepare("SELECT id, supersedes FROM decisions").all()).toEqual([{ id: 'd2', supersedes: null }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError, resolveTaskId } from '../db/queries.js';
+import { listTrash, restoreItem, trashRetentionDays } from '../db/trash.js';
+
+export function registerTrashTools(server: McpServer): void {
+  server.registerTool(
+    'list_trash',
+    {
+      title: 'List Trash',
+      description:
+        'List deleted tasks, notes and decisions in a project that can still be restored. Items are purged permanently after the retention period.',
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+      },
+    },
+    async ({ project }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const items = listTrash(resolved.id);
+      const retention = trashRetentionDays();
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ project: resolved.name, retention_days: retention > 0 ? retention : null, items }),
+        }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'restore_item',
+    {
+      title: 'Restore Item',
+      description:
+        'Restore a task, note or decision from the trash. A task comes back with the sub-tasks and notes that were deleted along with it.',
+      inputSchema: {
+        type: z.enum(['task', 'note', 'decision']).describe('Kind of item to restore'),
+        id: z.string().describe('Item ID (tasks also accept short IDs like "zrdt-180")'),
+      },
+    },
+    async ({ type, id }) => {
+      const itemId = type === 'task' ? resolveTaskId(id, { includeTrashed: true }) ?? id : id;
+      const result = restoreItem(type, itemId);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ ...result, message: `Restored ${type} ${id}${result.restored.length > 1 ? ` and ${result.restored.length - 1} sub-task(s)` : ''}` }),
+        }],
+      };
+    },
+  );
+}
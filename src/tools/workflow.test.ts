@@ -0,0 +1,200 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  createTestDb, closeTestDb, getTestDb, seedProject, seedTask,
+  parseToolResult, createToolCaller,
+} from '../test-helpers/setup.js';
+
+vi.mock('../db/connection.js', () => ({
+  getDb: () => getTestDb(),
+  closeDb: () => closeTestDb(),
+}));
+
+import { registerWorkflowTools } from './workflow.js';
+import { registerTaskTools } from './tasks.js';
+import { computeDeliveryMetrics } from '../db/metrics.js';
+
+let callTool: ReturnType<typeof createToolCaller>;
+
+beforeEach(() => {
+  createTestDb();
+  const server = new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerWorkflowTools(server);
+  registerTaskTools(server);
+  callTool = createToolCaller(server);
+});
+
+afterEach(() => {
+  closeTestDb();
+});
+
+const QA_WORKFLOW = {
+  statuses: [
+    { key: 'triage', category: 'not_started' },
+    { key: 'todo', category: 'not_started' },
+    { key: 'in_progress', category: 'active' },
+    { key: 'qa', label: 'QA', category: 'review' },
+    { key: 'done', category: 'done' },
+  ],
+  transitions: {
+    triage: ['todo'],
+    todo: ['in_progress'],
+    in_progress: ['qa'],
+    qa: ['in_progress', 'done'],
+  },
+};
+
+describe('get_workflow', () => {
+  it('returns the default workflow of a new project', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+
+    const parsed = parseToolResult(await callTool('get_workflow', { project: 'P' }));
+    expect(parsed.statuses.map((s: any) => s.key)).toEqual(['todo', 'in_progress', 'blocked', 'in_review', 'done', 'cancelled']);
+    expect(parsed.statuses[3]).toEqual({ key: 'in_review', label: 'In Review', category: 'review' });
+    expect(parsed.transitions).toBeNull();
+  });
+});
+
+describe('set_workflow', () => {
+  it('replaces statuses and transitions', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', status: 'todo' });
+
+    const parsed = parseToolResult(await callTool('set_workflow', { project: 'P', ...QA_WORKFLOW, remap: {} }));
+    expect(parsed.statuses.map((s: any) => s.label)).toEqual(['triage', 'todo', 'in_progress', 'QA', 'done']);
+    expect(parsed.transitions.qa).toEqual(['in_progress', 'done']);
+    expect(parsed.transitions.done).toEqual([]);
+  });
+
+  it('refuses to drop a status that tasks still use unless they are remapped', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    seedTask(db, 'p1', { id: 't1', status: 'in_review' });
+
+    const refused = await callTool('set_workflow', { project: 'P', ...QA_WORKFLOW });
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0].text).toContain('in_review (1)');
+
+    await callTool('set_workflow', { project: 'P', ...QA_WORKFLOW, remap: { in_review: 'qa' } });
+    expect((db.prepare("SELECT status FROM tasks WHERE id = 't1'").get() as any).status).toBe('qa');
+    const history = db.prepare("SELECT old_value, new_value FROM task_history WHERE task_id = 't1'").all();
+    expect(history).toEqual([{ old_value: 'in_review', new_value: 'qa' }]);
+  });
+
+  it('rejects transitions that name unknown statuses', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+
+    const result = await callTool('set_workflow', {
+      project: 'P',
+      statuses: [{ key: 'todo', category: 'not_started' }, { key: 'done', category: 'done' }],
+      transitions: { todo: ['shipped'] },
+    });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('shipped');
+  });
+});
+
+describe('tasks follow the workflow', () => {
+  it('start new tasks in the first not-started status', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_workflow', { project: 'P', ...QA_WORKFLOW, remap: {} });
+
+    const created = parseToolResult(await callTool('create_task', { project: 'P', title: 'New' }));
+    expect((db.prepare('SELECT status FROM tasks WHERE id = ?').get(created.task_id) as any).status).toBe('triage');
+  });
+
+  it('reject statuses outside the workflow and disallowed moves', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_workflow', { project: 'P', ...QA_WORKFLOW, remap: {} });
+    seedTask(db, 'p1', { id: 't1', status: 'todo' });
+
+    const unknown = await callTool('update_task', { task_id: 't1', status: 'blocked' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toContain('Valid statuses: triage, todo, in_progress, qa, done');
+
+    const skipped = await callTool('update_task', { task_id: 't1', status: 'done' });
+    expect(skipped.isError).toBe(true);
+    expect(skipped.content[0].text).toContain('Allowed from "todo": in_progress');
+
+    const moved = await callTool('update_task', { task_id: 't1', status: 'in_progress' });
+    expect(moved.isError).toBeUndefined();
+  });
+
+  it('count custom statuses by their category', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_workflow', {
+      project: 'P',
+      statuses: [
+        { key: 'todo', category: 'not_started' },
+        { key: 'shipped', category: 'done' },
+        { key: 'dropped', category: 'cancelled' },
+      ],
+    });
+    seedTask(db, 'p1', { id: 't1', status: 'todo' });
+    seedTask(db, 'p1', { id: 't2', status: 'todo' });
+
+    await callTool('update_task', { task_id: 't1', status: 'shipped' });
+    await callTool('update_task', { task_id: 't2', status: 'dropped' });
+
+    const open = parseToolResult(await callTool('list_tasks', { project: 'P' }));
+    expect(open.tasks).toEqual([]);
+    const metrics = computeDeliveryMetrics(db, 'p1', 'P', 30);
+    expect(metrics.throughput.tasks_completed).toBe(1);
+  });
+
+  it('block and unblock through the first blocked status, if the workflow has one', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_workflow', {
+      project: 'P',
+      statuses: [
+        { key: 'backlog', category: 'not_started' },
+        { key: 'waiting', category: 'blocked' },
+        { key: 'shipped', category: 'done' },
+      ],
+    });
+    seedTask(db, 'p1', { id: 't1', status: 'backlog' });
+    seedTask(db, 'p1', { id: 't2', status: 'backlog' });
+
+    const added = parseToolResult(await callTool('add_dependency', { task_id: 't2', blocked_by: ['t1'] }));
+    expect(added.status).toBe('waiting');
+
+    const done = parseToolResult(await callTool('update_task', { task_id: 't1', status: 'shipped' }));
+    expect(done.unblocked).toEqual([expect.objectContaining({ id: 't2', status: 'backlog' })]);
+  });
+
+  it('block and unblock automatically only along allowed transitions', async () => {
+    const db = getTestDb();
+    seedProject(db, { id: 'p1', name: 'P' });
+    await callTool('set_workflow', {
+      project: 'P',
+      statuses: [
+        { key: 'todo', category: 'not_started' },
+        { key: 'doing', category: 'active' },
+        { key: 'waiting', category: 'blocked' },
+        { key: 'done', category: 'done' },
+      ],
+      // Only started work can wait, and waiting work goes back to the queue
+      transitions: { todo: ['doing'], doing: ['waiting', 'done'], waiting: ['todo'], done: [] },
+    });
+    seedTask(db, 'p1', { id: 'b1', status: 'todo' });
+    seedTask(db, 'p1', { id: 't1', status: 'todo' });
+    seedTask(db, 'p1', { id: 't2', status: 'doing' });
+
+    await callTool('update_task', { task_id: 't1', blocked_by: ['b1'] });
+    const added = parseToolResult(await callTool('add_dependency', { task_id: 't2', blocked_by: ['b1'] }));
+    expect(added.status).toBe('waiting');
+    expect((db.prepare("SELECT status FROM tasks WHERE id = 't1'").get() as any).status).toBe('todo');
+
+    // waiting -> doing isn't allowed, so t2 goes back to the initial status
+    await callTool('update_task', { task_id: 'b1', status: 'doing' });
+    const done = parseToolResult(await callTool('update_task', { task_id: 'b1', status: 'done' }));
+    expect(done.unblocked).toEqual([expect.objectContaining({ id: 't2', status: 'todo' })]);
+  });
+});
@@ -0,0 +1,72 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod/v4';
+import { resolveProjectOrDefault, resolveProjectError } from '../db/queries.js';
+import { getWorkflow, setWorkflow, STATUS_CATEGORIES } from '../db/workflow.js';
+
+export function registerWorkflowTools(server: McpServer): void {
+  server.registerTool(
+    'get_workflow',
+    {
+      title: 'Get Workflow',
+      description:
+        "Get a project's workflow: its ordered task statuses, the category each maps to, and which status changes are allowed (null means any).",
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+      },
+    },
+    async ({ project }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({ project: resolved.name, ...getWorkflow(resolved.id) }, null, 2) }],
+      };
+    },
+  );
+
+  server.registerTool(
+    'set_workflow',
+    {
+      title: 'Set Workflow',
+      description:
+        `Replace a project's workflow. Statuses are listed in board order; each maps to a category (${STATUS_CATEGORIES.join(', ')}) that decides how it counts as open, blocked or finished. New tasks start in the first not_started status. Omit transitions to allow any status change. Tasks in removed statuses must be moved with remap.`,
+      inputSchema: {
+        project: z.string().optional().describe('Project name or ID'),
+        statuses: z.array(z.object({
+          key: z.string().describe('Status key stored on tasks, e.g. "qa"'),
+          label: z.string().optional().describe('Column label (default: the key)'),
+          category: z.enum(STATUS_CATEGORIES).describe('What the status means'),
+        })).min(1).describe('Ordered statuses'),
+        transitions: z.record(z.string(), z.array(z.string())).optional()
+          .describe('Allowed moves: status -> statuses it may change to. Omit to allow any move'),
+        remap: z.record(z.string(), z.string()).optional()
+          .describe('Move tasks out of removed statuses: old status -> new status'),
+      },
+    },
+    async ({ project, statuses, transitions, remap }) => {
+      const resolved = resolveProjectOrDefault(project);
+      if (!resolved) {
+        return { content: [{ type: 'text' as const, text: resolveProjectError(project) }], isError: true };
+      }
+
+      const result = setWorkflow(
+        resolved.id,
+        {
+          statuses: statuses.map(s => ({ key: s.key, label: s.label ?? s.key, category: s.category })),
+          transitions: transitions ?? null,
+        },
+        remap,
+      );
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ project: resolved.name, ...result.workflow, message: `Workflow updated for ${resolved.name}` }),
+        }],
+      };
+    },
+  );
+}
@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Who writes to the database. HTTP requests from the Kanban UI run inside
+// withActor(KANBAN_UI_ACTOR); everything else comes from the MCP client this
+// process serves, named from the initialize handshake's clientInfo.
+export const KANBAN_UI_ACTOR = 'kanban-ui';
+
+const scopedActor = new AsyncLocalStorage<string>();
+let mcpClient: string | null = null;
+
+export function withActor<T>(actor: string, fn: () => T): T {
+  return scopedActor.run(actor, fn);
+}
+
+export function setMcpClient(clientInfo: { name: string } | undefined): void {
+  mcpClient = clientInfo?.name || null;
+}
+
+// "claude-code", or "agent-a@claude-code" when MINDPM_USER names the agent or person behind it
+export function currentActor(): string {
+  const scoped = scopedActor.getStore();
+  if (scoped) return scoped;
+  const client = mcpClient ?? 'mcp';
+  const identity = process.env.MINDPM_USER?.trim();
+  return identity ? `${identity}@${client}` : client;
+}
+
@@ -0,0 +1,180 @@
+// Architecture Decision Records as Markdown files, in MADR or Michael Nygard's
+// format (the one adr-tools writes), named like "0003-use-postgres.md".
+
+export const ADR_FORMATS = ['madr', 'nygard'] as const;
+export type AdrFormat = typeof ADR_FORMATS[number];
+
+export interface AdrRef {
+  number: number;
+  file: string;
+}
+
+export interface AdrDocument {
+  number: number;
+  title: string;
+  date: string | null;
+  status: 'proposed' | 'accepted' | 'rejected' | 'superseded' | 'deprecated';
+  decision: string;
+  reasoning: string | null;
+  alternatives: string[];
+  // ADRs this one replaces or was replaced by, when the file says so
+  supersedes?: AdrRef | null;
+  superseded_by?: AdrRef | null;
+}
+
+const FILE_NAME = /^(\d+)-.*\.md$/i;
+
+// The number of an ADR file, or null for anything else in the directory (README.md, templates).
+export function adrNumber(file: string): number | null {
+  const match = FILE_NAME.exec(file);
+  return match ? Number(match[1]) : null;
+}
+
+export function adrFileName(number: number, title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60).replace(/-$/, '');
+  return `${padNumber(number)}-${slug || 'decision'}.md`;
+}
+
+function padNumber(number: number): string {
+  return String(number).padStart(4, '0');
+}
+
+function adrLink(ref: AdrRef): string {
+  return `[ADR-${padNumber(ref.number)}](${ref.file})`;
+}
+
+function bullets(items: string[]): string {
+  return items.map(item => `* ${item}`).join('\n');
+}
+
+export function renderAdr(adr: AdrDocument, format: AdrFormat): string {
+  const lines: string[] = [];
+  if (format === 'madr') {
+    const status = adr.status === 'superseded' && adr.superseded_by
+      ? `superseded by ADR-${padNumber(adr.superseded_by.number)}`
+      : adr.status;
+    lines.push('---', `status: ${status}`, ...(adr.date ? [`date: ${adr.date}`] : []), '---', '', `# ${adr.title}`, '');
+    if (adr.reasoning) lines.push('## Context and Problem Statement', '', adr.reasoning, '');
+    if (adr.alternatives.length > 0) lines.push('## Considered Options', '', bullets(adr.alternatives), '');
+    lines.push('## Decision Outcome', '', adr.decision, '');
+    const related = [
+      ...(adr.supersedes ? [`Supersedes ${adrLink(adr.supersedes)}`] : []),
+      ...(adr.superseded_by ? [`Superseded by ${adrLink(adr.superseded_by)}`] : []),
+    ];
+    if (related.length > 0) lines.push('## More Information', '', ...related.map(line => `${line}\n`));
+  } else {
+    lines.push(`# ${adr.number}. ${adr.title}`, '');
+    if (adr.date) lines.push(`Date: ${adr.date}`, '');
+    const status = adr.status === 'superseded' && adr.superseded_by
+      ? `Superseded by ${adrLink(adr.superseded_by)}`
+      : adr.status[0].toUpperCase() + adr.status.slice(1);
+    lines.push('## Status', '', status, '');
+    if (adr.supersedes) lines.push(`Supersedes ${adrLink(adr.supersedes)}`, '');
+    lines.push('## Context', '', adr.reasoning ?? '', '');
+    lines.push('## Decision', '', adr.decision, '');
+    if (adr.alternatives.length > 0) lines.push('## Alternatives Considered', '', bullets(adr.alternatives), '');
+  }
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd()}\n`;
+}
+
+// Split a document into its "## " sections, keyed by lower-cased heading. Deeper
+// headings stay inside their section.
+function sections(body: string): Map<string, string> {
+  const result = new Map<string, string>();
+  let heading: string | null = null;
+  let content: string[] = [];
+  const flush = () => {
+    if (heading !== null) result.set(heading, content.join('\n').trim());
+  };
+  for (const line of body.split('\n')) {
+    const match = /^##\s+(.+?)\s*$/.exec(line);
+    if (match) {
+      flush();
+      heading = match[1].toLowerCase();
+      content = [];
+    } else if (heading !== null) {
+      content.push(line);
+    }
+  }
+  flush();
+  return result;
+}
+
+function section(all: Map<string, string>, ...names: string[]): string | null {
+  for (const name of names) {
+    const text = all.get(name);
+    if (text) return text;
+  }
+  return null;
+}
+
+// The ADR a line like "Superseded by [3. Use Postgres](0003-use-postgres.md)" or
+// "superseded by ADR-0003" points at.
+function referencedAdr(text: string, verb: string): AdrRef | null {
+  const line = new RegExp(`${verb}\\s+(.+)`, 'i').exec(text)?.[1];
+  if (!line) return null;
+  const file = /\]\((?:\.\/)?([^)\s]+\.md)\)/i.exec(line)?.[1];
+  if (file && adrNumber(file) !== null) return { number: adrNumber(file)!, file };
+  const number = /ADR[-\s]?(\d+)/i.exec(line)?.[1] ?? /^\[?(\d+)\./.exec(line)?.[1];
+  return number ? { number: Number(number), file: '' } : null;
+}
+
+function parseStatus(text: string): AdrDocument['status'] {
+  const word = text.trim().toLowerCase();
+  if (word.startsWith('superseded')) return 'superseded';
+  for (const status of ['proposed', 'accepted', 'rejected', 'deprecated'] as const) {
+    if (word.startsWith(status)) return status;
+  }
+  return word.startsWith('draft') ? 'proposed' : 'accepted';
+}
+
+// Read an ADR in either format. Returns null when the file has no title or no
+// decision section to take the decision from.
+export function parseAdr(file: string, text: string): AdrDocument | null {
+  const number = adrNumber(file);
+  if (number === null) return null;
+  let body = text.replace(/\r\n/g, '\n');
+
+  const frontMatter: Record<string, string> = {};
+  const fm = /^---\n([\s\S]*?)\n---\n/.exec(body);
+  if (fm) {
+    for (const line of fm[1].split('\n')) {
+      const match = /^(\w+):\s*(.*)$/.exec(line);
+      if (match) frontMatter[match[1].toLowerCase()] = match[2].replace(/^["']|["']$/g, '').trim();
+    }
+    body = body.slice(fm[0].length);
+  }
+
+  const heading = /^#\s+(.+?)\s*$/m.exec(body)?.[1];
+  if (!heading) return null;
+  const title = heading.replace(/^(ADR[-\s]?)?\d+[.:]?\s+/i, '');
+
+  const parts = sections(body);
+  const outcome = section(parts, 'decision outcome', 'decision');
+  if (!outcome) return null;
+  // MADR puts positive/negative consequences under the outcome as "###" subsections
+  const decision = outcome.split(/^###\s/m)[0].trim();
+
+  const statusText = frontMatter.status ?? section(parts, 'status') ?? '';
+  const consequences = section(parts, 'consequences');
+  const context = section(parts, 'context and problem statement', 'context');
+  const reasoning = [context, consequences ? `Consequences:\n${consequences}` : null].filter(Boolean).join('\n\n') || null;
+  const options = section(parts, 'considered options', 'alternatives considered', 'options considered', 'alternatives') ?? '';
+  const alternatives = options.split('\n')
+    .map(line => /^\s*[-*]\s+(.+)$/.exec(line)?.[1].trim())
+    .filter((option): option is string => !!option && option !== title);
+  const date = frontMatter.date ?? /^Date:\s*(\d{4}-\d{2}-\d{2})/m.exec(body)?.[1] ?? null;
+  const related = [statusText, section(parts, 'more information') ?? ''].join('\n');
+
+  return {
+    number,
+    title,
+    date,
+    status: parseStatus(statusText),
+    decision,
+    reasoning,
+    alternatives,
+    supersedes: referencedAdr(related, 'supersedes'),
+    superseded_by: referencedAdr(related, 'superseded by'),
+  };
+}
@@ -0,0 +1,6 @@
+// True for a real calendar date written as YYYY-MM-DD (rejects 2025-02-30).
+export function isIsoDate(text: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return false;
+  const date = new Date(`${text}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === text;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { buildWhereClause, buildTagFilter } from './filters.js';
+import { buildWhereClause } from './filters.js';
 
 describe('buildWhereClause', () => {
   it('returns empty string for empty filters', () => {
@@ -44,15 +44,3 @@ describe('buildWhereClause', () => {
     expect(result.params).toEqual({ status: 'active', name: 'test' });
   });
 });
-
-describe('buildTagFilter', () => {
-  it('produces correct LIKE pattern with default column', () => {
-    const result = buildTagFilter('backend');
-    expect(result).toBe(`(tags LIKE '%"' || @tag || '"%')`);
-  });
-
-  it('accepts custom column name', () => {
-    const result = buildTagFilter('backend', 'my_tags');
-    expect(result).toBe(`(my_tags LIKE '%"' || @tag || '"%')`);
-  });
-});
@@ -23,8 +23,3 @@ export function buildWhereClause(
     params,
   };
 }
-
-export function buildTagFilter(tag: string, column = 'tags'): string {
-  // Tags are stored as JSON arrays, search within them
-  return `(${column} LIKE '%"' || @tag || '"%')`;
-}
@@ -1,4 +1,4 @@
-import type { Project, Task, Note, Decision, TaskHistoryEvent, DeliveryMetrics } from './types.js';
+import type { Project, Task, Note, Decision, TaskHistoryEvent, DeliveryMetrics, UnblockedTask, TagUsage, Workflow, CustomField, Milestone, Burndown, BurndownScope, Person, AuditEntry, UndoResult, TaskComment, NoteRevision, EntityLink, LinkType, LinkableType, Graph } from './types.js';
 
 async function request<T>(path: string, options?: RequestInit): Promise<T> {
   const res = await fetch(`/api${path}`, {
@@ -26,30 +26,116 @@ export const api = {
   getTasks: (projectId: string) =>
     request<Task[]>(`/projects/${projectId}/tasks?include_done=true`),
 
-  createTask: (projectId: string, data: { title: string; description?: string; priority?: string; tags?: string[] }) =>
+  createTask: (projectId: string, data: { title: string; description?: string; priority?: string; tags?: string[]; fields?: Record<string, string>; start_at?: string; due_at?: string; estimate?: number; milestone_id?: string; assignee_id?: string }) =>
     request<Task>(`/projects/${projectId}/tasks`, {
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
-  updateTask: (id: string, data: Partial<Pick<Task, 'title' | 'description' | 'status' | 'priority' | 'tags'>>) =>
-    request<Task>(`/tasks/${id}`, {
+  updateTask: (id: string, data: Partial<Pick<Task, 'title' | 'description' | 'status' | 'priority' | 'start_at' | 'due_at' | 'estimate' | 'milestone_id' | 'assignee_id' | 'reviewer_id'>> & { tags?: string[]; fields?: Record<string, string | null> }) =>
+    request<Task & { unblocked: UnblockedTask[] }>(`/tasks/${id}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
     }),
 
   deleteTask: (id: string) =>
-    request<{ message: string }>(`/tasks/${id}`, { method: 'DELETE' }),
+    request<{ message: string; trashed: string[]; unblocked: UnblockedTask[] }>(`/tasks/${id}`, { method: 'DELETE' }),
 
   getNotes: (projectId: string) =>
     request<Note[]>(`/projects/${projectId}/notes`),
 
+  updateNote: (id: string, data: Partial<Pick<Note, 'content' | 'category' | 'task_id'>> & { tags?: string[]; pinned?: boolean }) =>
+    request<Note>(`/notes/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  deleteNote: (id: string) =>
+    request<{ message: string }>(`/notes/${id}`, { method: 'DELETE' }),
+
+  getNoteRevisions: (id: string) =>
+    request<NoteRevision[]>(`/notes/${id}/revisions`),
+
   getDecisions: (projectId: string) =>
     request<Decision[]>(`/projects/${projectId}/decisions`),
 
+  deleteDecision: (id: string) =>
+    request<{ message: string }>(`/decisions/${id}`, { method: 'DELETE' }),
+
+  getWorkflow: (projectId: string) =>
+    request<Workflow>(`/projects/${projectId}/workflow`),
+
+  getFields: (projectId: string) =>
+    request<CustomField[]>(`/projects/${projectId}/fields`),
+
+  getMilestones: (projectId: string) =>
+    request<Milestone[]>(`/projects/${projectId}/milestones?include_closed=true`),
+
+  getPeople: () => request<Person[]>('/people'),
+
+  getTags: (projectId: string) =>
+    request<TagUsage[]>(`/projects/${projectId}/tags`),
+
   getTaskHistory: (taskId: string) =>
     request<TaskHistoryEvent[]>(`/tasks/${taskId}/history`),
 
+  getComments: (taskId: string) =>
+    request<TaskComment[]>(`/tasks/${taskId}/comments`),
+
+  addComment: (taskId: string, body: string) =>
+    request<TaskComment>(`/tasks/${taskId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    }),
+
+  editComment: (id: string, body: string) =>
+    request<TaskComment>(`/comments/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ body }),
+    }),
+
+  deleteComment: (id: string) =>
+    request<{ deleted: string }>(`/comments/${id}`, { method: 'DELETE' }),
+
+  getTaskLinks: (taskId: string) =>
+    request<EntityLink[]>(`/tasks/${taskId}/links`),
+
+  createLink: (from: string, to: string, type: LinkType) =>
+    request<{ id: string }>('/links', {
+      method: 'POST',
+      body: JSON.stringify({ from, to, type }),
+    }),
+
+  deleteLink: (id: string) =>
+    request<{ deleted: { id: string } }>(`/links/${id}`, { method: 'DELETE' }),
+
+  getGraph: (id: string, depth: number, kinds: LinkableType[] = []) => {
+    const query = new URLSearchParams({ depth: String(depth), ...(kinds.length > 0 ? { kinds: kinds.join(',') } : {}) });
+    return request<Graph>(`/graph/${id}?${query}`);
+  },
+
   getMetrics: (projectId: string, days?: number) =>
     request<DeliveryMetrics>(`/projects/${projectId}/metrics${days ? `?days=${days}` : ''}`),
+
+  getBurndown: (projectId: string, scope: BurndownScope) => {
+    const query = new URLSearchParams(Object.entries(scope).filter(([, v]) => v) as [string, string][]);
+    return request<Burndown>(`/projects/${projectId}/burndown?${query}`);
+  },
+
+  getAuditLog: (projectId: string, filter: { actor?: string; limit?: number } = {}) => {
+    const query = new URLSearchParams(Object.entries(filter).filter(([, v]) => v).map(([k, v]) => [k, String(v)]));
+    return request<AuditEntry[]>(`/projects/${projectId}/audit?${query}`);
+  },
+
+  // Conflicts (409) are returned rather than thrown so they can be listed
+  undo: async (operationId: string): Promise<UndoResult> => {
+    const res = await fetch('/api/audit/undo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operation_id: operationId }),
+    });
+    const body = await res.json().catch(() => ({ error: res.statusText }));
+    if (!res.ok && res.status !== 409) throw new Error(body.error || 'Request failed');
+    return body;
+  },
 };
@@ -6,6 +6,7 @@ export interface Project {
   status: 'active' | 'paused' | 'completed' | 'archived';
   repo_path: string | null;
   tech_stack: string | null;
+  estimate_unit: EstimateUnit;
   created_at: string;
   updated_at: string;
   task_counts?: { status: string; count: number }[];
@@ -23,13 +24,44 @@ export interface Task {
   status: TaskStatus;
   priority: TaskPriority;
   tags: string | null;
+  // JSON object of custom field key -> value
+  fields: string | null;
   parent_task_id: string | null;
   blocked_by: string | null;
+  // YYYY-MM-DD
+  start_at: string | null;
+  due_at: string | null;
+  // In the project's estimate unit
+  estimate: number | null;
+  milestone_id: string | null;
+  assignee_id: string | null;
+  reviewer_id: string | null;
+  // Handles of the assignee and reviewer
+  assignee: string | null;
+  reviewer: string | null;
+  // Who created and last changed the task (see TaskHistoryEvent.actor)
+  created_by: string | null;
+  updated_by: string | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
 }
 
+export interface Person {
+  id: string;
+  name: string;
+  kind: 'human' | 'agent';
+  handle: string;
+  open_tasks: number;
+}
+
+export interface UnblockedTask {
+  id: string;
+  short_id: string | null;
+  title: string;
+  status: TaskStatus;
+}
+
 export interface Decision {
   id: string;
   project_id: string;
@@ -39,48 +71,249 @@ export interface Decision {
   reasoning: string | null;
   alternatives: string | null;
   tags: string | null;
+  status: DecisionStatus;
+  // The earlier decision this one replaces, and the later one that replaced it
+  supersedes: string | null;
+  superseded_by: string | null;
+  // When to look at a temporary decision again: a YYYY-MM-DD date and/or a condition
+  revisit_at: string | null;
+  revisit_when: string | null;
+  // Number of the ADR file it was exported to or imported from
+  adr_number: number | null;
   created_at: string;
 }
 
+export type DecisionStatus = 'proposed' | 'accepted' | 'rejected' | 'superseded' | 'deprecated';
+
 export interface Note {
   id: string;
   project_id: string;
   task_id: string | null;
   content: string;
-  category: 'general' | 'architecture' | 'bug' | 'idea' | 'research' | 'meeting' | 'review';
+  category: NoteCategory;
   tags: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+  // 1 when pinned: shown at the top here and at every session start
+  pinned: number;
+  // Earlier versions kept when the note was rewritten
+  revision_count: number;
   created_at: string;
 }
 
+export type NoteCategory = 'general' | 'architecture' | 'bug' | 'idea' | 'research' | 'meeting' | 'review';
+
+export interface NoteRevision {
+  revision: number;
+  content: string;
+  category: NoteCategory | null;
+  // Who wrote this version, and who rewrote it
+  author: string | null;
+  replaced_by: string | null;
+  replaced_at: string;
+}
+
+export interface TagUsage {
+  name: string;
+  tasks: number;
+  notes: number;
+  decisions: number;
+  total: number;
+}
+
+export interface CustomField {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'enum' | 'date' | 'url';
+  options: string[] | null;
+}
+
+export interface Milestone {
+  id: string;
+  name: string;
+  goal: string | null;
+  start_at: string | null;
+  end_at: string | null;
+  status: 'planned' | 'active' | 'closed';
+  done: number;
+  total: number;
+  remaining_by_priority: Record<TaskPriority, number>;
+}
+
+// Milestone filter value for tasks not planned into any milestone
+export const NO_MILESTONE = 'none';
+
 export interface TaskHistoryEvent {
   id: string;
   task_id: string;
   event: string;
   old_value: string | null;
   new_value: string | null;
+  // MCP client (e.g. "claude-code", "agent-a@claude-code") or "kanban-ui"; null on older events
+  actor: string | null;
   created_at: string;
 }
 
+// Actor recorded for writes made from this board
+export const KANBAN_UI_ACTOR = 'kanban-ui';
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  // Same form as TaskHistoryEvent.actor; only the author may edit
+  author: string;
+  body: string;
+  created_at: string;
+  edited_at: string | null;
+}
+
+export type LinkType = 'relates_to' | 'duplicates' | 'implements' | 'caused_by';
+
+// A link as seen from one of its ends: incoming links carry the inverse type ("implemented_by")
+export interface EntityLink {
+  id: string;
+  type: string;
+  direction: 'outgoing' | 'incoming';
+  entity: LinkedEntity;
+}
+
+export type LinkableType = 'task' | 'note' | 'decision' | 'session';
+
+export interface LinkedEntity {
+  type: LinkableType;
+  id: string;
+  short_id?: string;
+  title: string;
+  status?: string;
+}
+
+export interface GraphNode extends LinkedEntity {
+  depth: number;
+  // The node the walk came from and the edge as read from there (e.g. "has_decision")
+  via: { from: string; edge: string } | null;
+}
+
+export interface Graph {
+  root: string;
+  nodes: GraphNode[];
+  // Directed as stored: "<from> <type> <to>"
+  edges: { from: string; to: string; type: string }[];
+  truncated: boolean;
+}
+
 export interface DeliveryMetrics {
   project: string;
   period: string;
-  throughput: { tasks_completed: number; per_week_avg: number; trend: 'improving' | 'declining' | 'stable' };
+  throughput: {
+    tasks_completed: number;
+    per_week_avg: number;
+    trend: 'improving' | 'declining' | 'stable';
+    points_completed?: number;
+    points_per_week_avg?: number;
+  };
   lead_time: { median_days: number; p90_days: number; trend: 'improving' | 'declining' | 'stable' } | { note: string };
   flow_efficiency: { blocked_rate_pct: number | null; avg_blocked_days: number | null; currently_blocked: number };
   dora_tier: 'Elite' | 'High' | 'Medium' | 'Low' | 'unknown';
+  estimation: {
+    unit: EstimateUnit;
+    estimated_tasks: number;
+    unestimated_tasks: number;
+    buckets: EstimationBucket[];
+    bias: 'optimistic' | 'pessimistic' | 'accurate' | null;
+  };
   insights: string[];
 }
 
-export type TaskStatus = 'todo' | 'in_progress' | 'blocked' | 'in_review' | 'done' | 'cancelled';
+export interface EstimationBucket {
+  size: string;
+  tasks: number;
+  median_estimate: number;
+  expected_days: number;
+  median_lead_days: number;
+  ratio: number;
+}
+
+export type EstimateUnit = 'points' | 'hours';
+
+export interface BurnPoint {
+  date: string;
+  scope: number;
+  done: number;
+  remaining: number;
+  ideal: number;
+  scope_points: number;
+  done_points: number;
+}
+
+export interface Burndown {
+  scope: { type: 'tag' | 'parent' | 'milestone'; name: string };
+  start_date: string;
+  target_date: string;
+  series: BurnPoint[];
+  scope_changes: { date: string; task_id: string; title: string; change: 'added' | 'removed' }[];
+  forecast: { done_per_day: number; projected_finish: string | null; on_track: boolean | null };
+}
+
+export interface BurndownScope {
+  tag?: string;
+  parent?: string;
+  milestone?: string;
+  target?: string;
+}
+
+export type AuditEntityType = 'project' | 'task' | 'note' | 'decision' | 'context' | 'session' | 'comment' | 'link';
+
+export interface AuditEntry {
+  id: string;
+  // Entries written by one tool call or board action share an operation, the unit undo reverts
+  operation_id: string;
+  project_id: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: 'create' | 'update' | 'delete' | 'restore';
+  actor: string | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  undone_by: string | null;
+  created_at: string;
+}
+
+export interface UndoConflict {
+  entity_type: AuditEntityType;
+  entity_id: string;
+  reason: string;
+  fields: { field: string; expected: unknown; current: unknown }[];
+  changed_by: string | null;
+  changed_at: string | null;
+}
+
+export type UndoResult =
+  | { operation_id: string; undone: string[]; reverted: { entity_type: AuditEntityType; entity_id: string; fields: string[] }[] }
+  | { error: string; conflicts: UndoConflict[] };
+
+// Task statuses are defined per project by its workflow
+export type TaskStatus = string;
 export type TaskPriority = 'critical' | 'high' | 'medium' | 'low';
+export type StatusCategory = 'not_started' | 'active' | 'blocked' | 'review' | 'done' | 'cancelled';
+
+export interface WorkflowStatus {
+  key: TaskStatus;
+  label: string;
+  category: StatusCategory;
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  // from status -> statuses it may move to; null when any move is allowed
+  transitions: Record<TaskStatus, TaskStatus[]> | null;
+}
+
+// Status new tasks start in: the first "not started" status, else the first status
+export function initialStatus(workflow: Workflow): TaskStatus {
+  return (workflow.statuses.find((s) => s.category === 'not_started') ?? workflow.statuses[0])?.key ?? 'todo';
+}
 
-export const COLUMNS: { status: TaskStatus; label: string }[] = [
-  { status: 'todo', label: 'Todo' },
-  { status: 'in_progress', label: 'In Progress' },
-  { status: 'blocked', label: 'Blocked' },
-  { status: 'in_review', label: 'In Review' },
-  { status: 'done', label: 'Done' },
-  { status: 'cancelled', label: 'Cancelled' },
-];
+export function canMove(workflow: Workflow, from: TaskStatus, to: TaskStatus): boolean {
+  return from === to || !workflow.transitions || (workflow.transitions[from] ?? []).includes(to);
+}
 
 export const PRIORITY_ORDER: TaskPriority[] = ['critical', 'high', 'medium', 'low'];